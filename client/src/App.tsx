@@ -3,7 +3,13 @@ import { queryClient } from "./lib/queryClient";
 import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
+import { AuthProvider } from "@/hooks/use-auth";
+import { CompareProvider } from "@/hooks/use-compare";
 import Home from "@/pages/Home";
+import Shortlists from "@/pages/Shortlists";
+import SharedShortlist from "@/pages/SharedShortlist";
+import Compare from "@/pages/Compare";
+import PropertyDetail from "@/pages/PropertyDetail";
 import NotFound from "@/pages/not-found";
 import { TestRangeSlider } from "@/components/TestRangeSlider";
 
@@ -11,6 +17,10 @@ function Router() {
   return (
     <Switch>
       <Route path="/" component={Home} />
+      <Route path="/shortlists" component={Shortlists} />
+      <Route path="/shortlists/shared/:token" component={SharedShortlist} />
+      <Route path="/property/:id" component={PropertyDetail} />
+      <Route path="/compare" component={Compare} />
       <Route path="/test-slider" component={TestRangeSlider} />
       <Route component={NotFound} />
     </Switch>
@@ -20,10 +30,14 @@ function Router() {
 function App() {
   return (
     <QueryClientProvider client={queryClient}>
-      <TooltipProvider>
-        <Toaster />
-        <Router />
-      </TooltipProvider>
+      <AuthProvider>
+        <CompareProvider>
+          <TooltipProvider>
+            <Toaster />
+            <Router />
+          </TooltipProvider>
+        </CompareProvider>
+      </AuthProvider>
     </QueryClientProvider>
   );
 }
@@ -0,0 +1,122 @@
+import { useState, FormEvent } from "react";
+import { useLocation } from "wouter";
+import { useAuth } from "@/hooks/use-auth";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from "@/components/ui/dropdown-menu";
+import { Heart, LogIn, LogOut, User } from "lucide-react";
+
+type AuthMode = 'login' | 'register';
+
+export function AccountMenu() {
+  const { user, isLoading, loginMutation, registerMutation, logoutMutation } = useAuth();
+  const [, navigate] = useLocation();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [mode, setMode] = useState<AuthMode>('login');
+  const [username, setUsername] = useState("");
+  const [password, setPassword] = useState("");
+
+  const mutation = mode === 'login' ? loginMutation : registerMutation;
+
+  const submit = (event: FormEvent) => {
+    event.preventDefault();
+    mutation.mutate({ username, password }, {
+      onSuccess: () => {
+        setPassword("");
+        setDialogOpen(false);
+      }
+    });
+  };
+
+  if (isLoading) return null;
+
+  if (user) {
+    return (
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" className="flex items-center">
+            <User className="mr-1 h-4 w-4" />
+            {user.username}
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          <DropdownMenuLabel>Signed in as {user.username}</DropdownMenuLabel>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onSelect={() => navigate('/shortlists')}>
+            <Heart className="mr-2 h-4 w-4" />
+            My shortlists
+          </DropdownMenuItem>
+          <DropdownMenuItem onSelect={() => logoutMutation.mutate()} disabled={logoutMutation.isPending}>
+            <LogOut className="mr-2 h-4 w-4" />
+            Log out
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+    );
+  }
+
+  return (
+    <>
+      <Button variant="outline" size="sm" className="flex items-center" onClick={() => setDialogOpen(true)}>
+        <LogIn className="mr-1 h-4 w-4" />
+        Log in
+      </Button>
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent className="sm:max-w-sm">
+          <DialogHeader>
+            <DialogTitle>{mode === 'login' ? 'Log in' : 'Create an account'}</DialogTitle>
+            <DialogDescription>
+              {mode === 'login' ? 'Welcome back.' : 'Usernames need at least 3 characters, passwords at least 8.'}
+            </DialogDescription>
+          </DialogHeader>
+          <Tabs value={mode} onValueChange={value => setMode(value as AuthMode)}>
+            <TabsList className="grid grid-cols-2 w-full">
+              <TabsTrigger value="login">Log in</TabsTrigger>
+              <TabsTrigger value="register">Register</TabsTrigger>
+            </TabsList>
+            {(['login', 'register'] as const).map(tab => (
+              <TabsContent key={tab} value={tab}>
+                <form onSubmit={submit} className="space-y-3 pt-2">
+                  <div className="space-y-1">
+                    <Label htmlFor={`${tab}-username`}>Username</Label>
+                    <Input
+                      id={`${tab}-username`}
+                      autoComplete="username"
+                      value={username}
+                      onChange={(e) => setUsername(e.target.value)}
+                      required
+                    />
+                  </div>
+                  <div className="space-y-1">
+                    <Label htmlFor={`${tab}-password`}>Password</Label>
+                    <Input
+                      id={`${tab}-password`}
+                      type="password"
+                      autoComplete={tab === 'login' ? 'current-password' : 'new-password'}
+                      value={password}
+                      onChange={(e) => setPassword(e.target.value)}
+                      required
+                    />
+                  </div>
+                  <Button type="submit" className="w-full" disabled={mutation.isPending}>
+                    {tab === 'login' ? 'Log in' : 'Create account'}
+                  </Button>
+                </form>
+              </TabsContent>
+            ))}
+          </Tabs>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
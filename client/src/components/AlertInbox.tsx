@@ -0,0 +1,82 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { AlertInbox as AlertInboxResponse, SearchAlert } from "@/lib/types";
+import { useAuth } from "@/hooks/use-auth";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Bell } from "lucide-react";
+
+const ALERTS_KEY = ['/api/alerts'];
+// New matches are found in the background, so check for them now and then
+const ALERTS_REFRESH_MS = 60000;
+
+export function AlertInbox() {
+  const { user } = useAuth();
+
+  const { data } = useQuery<AlertInboxResponse>({
+    queryKey: [...ALERTS_KEY, user?.id],
+    enabled: !!user,
+    refetchInterval: ALERTS_REFRESH_MS
+  });
+
+  const { mutate: markRead } = useMutation({
+    mutationFn: (ids?: number[]) => apiRequest('/api/alerts/read', { method: 'POST', body: { ids } }),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ALERTS_KEY })
+  });
+
+  if (!user) return null;
+
+  const alerts = data?.alerts ?? [];
+  const unread = data?.unread ?? 0;
+
+  const formatAlert = (alert: SearchAlert) =>
+    `${alert.property.location} · £${alert.property.price.toLocaleString('en-GB')} · ${alert.property.bedrooms} bed ${alert.property.type.toLowerCase()}`;
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" className="relative" aria-label={`Alerts, ${unread} unread`}>
+          <Bell className="h-4 w-4" />
+          {unread > 0 && (
+            <span className="absolute -top-1.5 -right-1.5 min-w-[1.25rem] h-5 px-1 rounded-full bg-orange-500 text-white text-xs leading-5 text-center">
+              {unread > 99 ? '99+' : unread}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="flex items-center justify-between px-3 py-2 border-b">
+          <h4 className="text-sm font-semibold text-gray-800">New matches</h4>
+          {unread > 0 && (
+            <button type="button" className="text-xs text-primary hover:underline" onClick={() => markRead(undefined)}>
+              Mark all read
+            </button>
+          )}
+        </div>
+        {alerts.length === 0 ? (
+          <p className="px-3 py-4 text-sm text-gray-500">
+            Listings that newly match your saved searches appear here.
+          </p>
+        ) : (
+          <ul className="max-h-80 overflow-y-auto divide-y">
+            {alerts.map(alert => (
+              <li key={alert.id}>
+                <button
+                  type="button"
+                  className={`w-full text-left px-3 py-2 hover:bg-gray-50 ${alert.readAt ? 'text-gray-500' : 'text-gray-800'}`}
+                  onClick={() => !alert.readAt && markRead([alert.id])}
+                >
+                  <div className={`text-sm ${alert.readAt ? '' : 'font-semibold'}`}>{alert.property.title}</div>
+                  <div className="text-xs">{formatAlert(alert)}</div>
+                  <div className="text-xs text-gray-400">
+                    Matched "{alert.savedSearchName}" on {new Date(alert.createdAt).toLocaleDateString('en-GB')}
+                  </div>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,38 @@
+import { MouseEvent } from "react";
+import { useCompare, MAX_COMPARED } from "@/hooks/use-compare";
+import { Button } from "@/components/ui/button";
+import { ArrowLeftRight } from "lucide-react";
+
+interface CompareButtonProps {
+  id: string;
+  title: string;
+}
+
+/**
+ * Adds a listing to the compare tray, or takes it out again
+ */
+export function CompareButton({ id, title }: CompareButtonProps) {
+  const { isComparing, isFull, toggle } = useCompare();
+  const comparing = isComparing(id);
+
+  const onClick = (event: MouseEvent) => {
+    // Cards select their listing on click, which this shouldn't do
+    event.stopPropagation();
+    toggle({ id, title });
+  };
+
+  return (
+    <Button
+      variant="ghost"
+      size="icon"
+      className={`h-8 w-8 shrink-0 ${comparing ? 'bg-primary/10 text-primary' : 'text-gray-500'}`}
+      aria-pressed={comparing}
+      aria-label={comparing ? "Remove from comparison" : "Add to comparison"}
+      title={!comparing && isFull ? `You can compare up to ${MAX_COMPARED} listings` : undefined}
+      disabled={!comparing && isFull}
+      onClick={onClick}
+    >
+      <ArrowLeftRight className="h-5 w-5" />
+    </Button>
+  );
+}
@@ -0,0 +1,54 @@
+import { useLocation } from "wouter";
+import { useCompare, MAX_COMPARED } from "@/hooks/use-compare";
+import { Button } from "@/components/ui/button";
+import { ArrowLeftRight, X } from "lucide-react";
+
+/**
+ * Bar along the bottom of the search page listing the properties picked for comparison
+ */
+export function CompareTray() {
+  const { entries, remove, clear, compareUrl } = useCompare();
+  const [, navigate] = useLocation();
+
+  if (entries.length === 0) return null;
+
+  return (
+    <>
+    {/* Room for the bar, so it never covers the last result */}
+    <div className="h-16" />
+    <div className="fixed bottom-0 inset-x-0 z-40 bg-white border-t shadow-lg">
+      <div className="max-w-4xl mx-auto px-4 py-3 flex flex-wrap items-center gap-2">
+        <span className="text-sm font-medium text-gray-500">
+          Compare ({entries.length}/{MAX_COMPARED}):
+        </span>
+        {entries.map(entry => (
+          <span key={entry.id} className="flex items-center bg-primary/10 text-primary text-sm rounded-full pl-3 pr-1 py-1 max-w-[14rem]">
+            <span className="truncate" title={entry.title}>{entry.title}</span>
+            <button
+              type="button"
+              className="ml-1 p-1 rounded-full hover:bg-primary/20"
+              aria-label={`Stop comparing ${entry.title}`}
+              onClick={() => remove(entry.id)}
+            >
+              <X className="h-3.5 w-3.5" />
+            </button>
+          </span>
+        ))}
+        <div className="ml-auto flex items-center gap-2">
+          <Button variant="ghost" size="sm" onClick={clear}>Clear</Button>
+          <Button
+            size="sm"
+            className="flex items-center"
+            disabled={entries.length < 2}
+            title={entries.length < 2 ? "Pick at least two listings" : undefined}
+            onClick={() => navigate(compareUrl())}
+          >
+            <ArrowLeftRight className="mr-1 h-4 w-4" />
+            Compare
+          </Button>
+        </div>
+      </div>
+    </div>
+    </>
+  );
+}
@@ -1,15 +1,28 @@
 import { useState, useEffect } from "react";
-import { SearchResult } from "@/lib/types";
+import { Link } from "wouter";
+import { NearestPoi, SearchResult } from "@/lib/types";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { MapPin, Building, Hotel, CloudUpload, Brush, Sofa, Mountain, CheckCircle2, ImageIcon } from "lucide-react";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { MapPin, Building, Hotel, CloudUpload, Brush, Sofa, Mountain, CheckCircle2, ImageIcon, Info, XCircle, TrainFront, School, Trees } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
+import { ShortlistButton } from "./ShortlistButton";
+import { CompareButton } from "./CompareButton";
+
+const POI_ICONS: Record<NearestPoi['category'], typeof MapPin> = {
+  station: TrainFront,
+  school: School,
+  park: Trees
+};
 
 interface PropertyCardProps {
   property: SearchResult;
+  highlighted?: boolean;                   // Hovered or selected on the map
+  onHover?: (id: string | null) => void;
+  onSelect?: (id: string) => void;
 }
 
-export function PropertyCard({ property }: PropertyCardProps) {
+export function PropertyCard({ property, highlighted = false, onHover, onSelect }: PropertyCardProps) {
   // States for image handling
   const [imageFilename, setImageFilename] = useState<string | null>(null);
 
@@ -18,6 +31,8 @@ export function PropertyCard({ property }: PropertyCardProps) {
     return x.toString().replace(/\B(?=(\d{3})+(?!\d))/g, ",");
   };
 
+  const formatDistance = (km: number) => km < 1 ? `${Math.round(km * 100) * 10} m` : `${Math.round(km * 10) / 10} km`;
+
   // Check if images already exist on component mount
   useEffect(() => {
     const checkExistingImage = async () => {
@@ -44,7 +59,13 @@ export function PropertyCard({ property }: PropertyCardProps) {
   }, [property.id]);
 
   return (
-    <Card className="overflow-hidden transition-all duration-200 hover:shadow-lg hover:-translate-y-1">
+    <Card
+      id={`property-card-${property.id}`}
+      className={`overflow-hidden transition-all duration-200 hover:shadow-lg hover:-translate-y-1 ${highlighted ? 'ring-2 ring-orange-500' : ''}`}
+      onMouseEnter={() => onHover?.(property.id)}
+      onMouseLeave={() => onHover?.(null)}
+      onClick={() => onSelect?.(property.id)}
+    >
       <CardContent className="p-5">
         {/* Property Image Section */}
         <div className="mb-4 relative overflow-hidden rounded-lg bg-gray-100" style={{ height: '200px' }}>
@@ -67,7 +88,11 @@ export function PropertyCard({ property }: PropertyCardProps) {
         </div>
         <div className="flex justify-between items-start">
           <div className="flex flex-col">
-            <h3 className="font-heading text-lg font-semibold text-gray-800">{property.title}</h3>
+            <h3 className="font-heading text-lg font-semibold text-gray-800">
+              <Link href={`/property/${property.id}`} className="hover:underline" onClick={(e) => e.stopPropagation()}>
+                {property.title}
+              </Link>
+            </h3>
             {property.exactMatch && (
               <div className="flex items-center text-emerald-600 text-xs font-medium mt-1">
                 <CheckCircle2 className="h-3.5 w-3.5 mr-1" />
@@ -75,10 +100,51 @@ export function PropertyCard({ property }: PropertyCardProps) {
               </div>
             )}
           </div>
-          <div className="flex gap-2 flex-wrap">
-            <Badge variant="outline" className="bg-primary/10 text-primary border-primary/40 px-2 py-1">
-              Match score: {Math.round(property.score)}%
-            </Badge>
+          <div className="flex gap-2 flex-wrap items-center">
+            <ShortlistButton propertyId={Number(property.id)} />
+            <CompareButton id={property.id} title={property.title} />
+            {property.scoreBreakdown ? (
+              <Popover>
+                <PopoverTrigger asChild>
+                  <button type="button" aria-label="Why this matched">
+                    <Badge variant="outline" className="bg-primary/10 text-primary border-primary/40 px-2 py-1 flex items-center cursor-pointer">
+                      Match score: {Math.round(property.score)}%
+                      <Info className="ml-1 h-3 w-3" />
+                    </Badge>
+                  </button>
+                </PopoverTrigger>
+                <PopoverContent align="end" className="w-80">
+                  <h4 className="text-sm font-semibold text-gray-800 mb-2">Why this matched</h4>
+                  <ul className="space-y-1.5 text-xs">
+                    {property.scoreBreakdown.components.map(component => (
+                      <li key={component.key} className="flex items-start justify-between gap-2">
+                        <span className="flex items-start text-gray-700">
+                          {component.matched ? (
+                            <CheckCircle2 className="h-3.5 w-3.5 mr-1 mt-px shrink-0 text-emerald-600" />
+                          ) : (
+                            <XCircle className="h-3.5 w-3.5 mr-1 mt-px shrink-0 text-gray-400" />
+                          )}
+                          {component.label}
+                        </span>
+                        <span className="text-gray-500 whitespace-nowrap">
+                          {component.value.toFixed(2)} / {component.max.toFixed(2)}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                  <div className="mt-2 pt-2 border-t flex justify-between text-xs font-medium text-gray-800">
+                    <span>Total</span>
+                    <span>
+                      {property.scoreBreakdown.total.toFixed(2)} / {property.scoreBreakdown.maxPossible.toFixed(2)}
+                    </span>
+                  </div>
+                </PopoverContent>
+              </Popover>
+            ) : (
+              <Badge variant="outline" className="bg-primary/10 text-primary border-primary/40 px-2 py-1">
+                Match score: {Math.round(property.score)}%
+              </Badge>
+            )}
             {property.distance !== undefined && (
               <Badge variant="outline" className="bg-blue-50 text-blue-700 border-blue-200 px-2 py-1 flex items-center">
                 <MapPin className="mr-1 h-3 w-3" />
@@ -129,6 +195,25 @@ export function PropertyCard({ property }: PropertyCardProps) {
             {property.furnishing}
           </Badge>
         </div>
+
+        {property.nearestPois && property.nearestPois.length > 0 && (
+          <div className="mt-2 flex flex-wrap gap-2">
+            {property.nearestPois.map(poi => {
+              const Icon = POI_ICONS[poi.category];
+              return (
+                <Badge
+                  key={poi.label}
+                  variant="outline"
+                  title={`Nearest ${poi.label}`}
+                  className={`flex items-center gap-1 ${poi.matched ? 'bg-emerald-50 text-emerald-700 border-emerald-200' : 'bg-gray-100 text-gray-500'}`}
+                >
+                  <Icon className="h-3 w-3" />
+                  {poi.name} · {formatDistance(poi.distanceKm)} · {poi.minutes} min {poi.mode}
+                </Badge>
+              );
+            })}
+          </div>
+        )}
       </CardContent>
     </Card>
   );
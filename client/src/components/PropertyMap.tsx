@@ -0,0 +1,395 @@
+import { useState, useEffect, useMemo, useRef } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { PropertyListing, MapBasemap } from "@/lib/types";
+import { TILE_SIZE, MIN_ZOOM, MAX_ZOOM, LatLng, Point, project, unproject, fitBounds, clusterPoints } from "@/lib/map";
+import { Button } from "@/components/ui/button";
+import { Plus, Minus, Pencil, Check, X } from "lucide-react";
+
+// A drawn search area: a ring of [lng, lat] positions, as the search API takes it
+export type SearchArea = Array<[number, number]>;
+
+interface PropertyMapProps {
+  results: PropertyListing[];
+  hoveredId?: string | null;
+  selectedId?: string | null;
+  onHover?: (id: string | null) => void;
+  onSelect?: (id: string) => void;
+  area?: SearchArea | null;
+  onAreaChange?: (area: SearchArea | null) => void; // Without it the map has no area drawing
+}
+
+interface MapView {
+  center: LatLng;
+  zoom: number;
+}
+
+const MAP_HEIGHT = 360;
+const DEFAULT_VIEW: MapView = { center: { lat: 51.5074, lng: -0.1278 }, zoom: 10 };
+// Closest a lone listing is fitted at, so it's shown with its neighbourhood rather than at street level
+const MAX_FIT_ZOOM = 14;
+
+// Smallest zoom each kind of place is labelled at, so labels don't pile up when zoomed out
+const LABEL_MIN_ZOOM: Record<string, number> = { city: 6, area: 9, borough: 11, neighbourhood: 13 };
+
+// Pointer movement below this many pixels is a click rather than a drag
+const CLICK_TOLERANCE = 4;
+// Clicking this close to the first point of an area closes it
+const CLOSE_TOLERANCE = 10;
+
+export function PropertyMap({
+  results,
+  hoveredId = null,
+  selectedId = null,
+  onHover,
+  onSelect,
+  area = null,
+  onAreaChange
+}: PropertyMapProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+  const dragRef = useRef<{ start: Point; last: Point; moved: boolean } | null>(null);
+  const [width, setWidth] = useState(0);
+  const [view, setView] = useState<MapView>(DEFAULT_VIEW);
+  // Points of the area being drawn; null when not drawing
+  const [drawing, setDrawing] = useState<SearchArea | null>(null);
+
+  // Place labels come from the server's gazetteer, so the map needs no network beyond this app
+  const { data: basemap } = useQuery<MapBasemap>({ queryKey: ['/api/map/basemap'] });
+
+  const located = useMemo(() => results.filter(result => result.coordinates), [results]);
+
+  // Track the panel width, which the view is laid out in
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const observer = new ResizeObserver(([entry]) => setWidth(entry.contentRect.width));
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  // Show every result when a new set arrives, unless the user has drawn the area to look at
+  useEffect(() => {
+    if (!width || located.length === 0 || area) return;
+    const { center, zoom } = fitBounds(located.map(result => result.coordinates!), width, MAP_HEIGHT);
+    setView({ center, zoom: located.length === 1 ? Math.min(zoom, MAX_FIT_ZOOM) : zoom });
+  }, [located, width]);
+
+  // Bring a result selected from the list into view
+  useEffect(() => {
+    const selected = located.find(result => result.id === selectedId);
+    if (!selected || !width) return;
+
+    const { x, y } = toScreen(selected.coordinates!);
+    if (x < 0 || x > width || y < 0 || y > MAP_HEIGHT) {
+      setView(current => ({ ...current, center: selected.coordinates! }));
+    }
+  }, [selectedId]);
+
+  // Zoom with the wheel around the pointer; React's wheel listener is passive, so add one that can stop the page scrolling
+  useEffect(() => {
+    const svg = svgRef.current;
+    if (!svg) return;
+
+    const handleWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      const rect = svg.getBoundingClientRect();
+      const pointer = { x: event.clientX - rect.left, y: event.clientY - rect.top };
+      setView(current => zoomAround(current, current.zoom + (event.deltaY < 0 ? 1 : -1), pointer, rect.width));
+    };
+
+    svg.addEventListener('wheel', handleWheel, { passive: false });
+    return () => svg.removeEventListener('wheel', handleWheel);
+  }, []);
+
+  // Escape abandons the area being drawn
+  useEffect(() => {
+    if (!drawing) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') setDrawing(null);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [drawing]);
+
+  // Top-left corner of the viewport in world pixels
+  const centerPoint = project(view.center, view.zoom);
+  const origin = { x: centerPoint.x - width / 2, y: centerPoint.y - MAP_HEIGHT / 2 };
+
+  function toScreen(coordinates: LatLng): Point {
+    const { x, y } = project(coordinates, view.zoom);
+    return { x: x - origin.x, y: y - origin.y };
+  }
+
+  function toLatLng(point: Point): LatLng {
+    return unproject({ x: point.x + origin.x, y: point.y + origin.y }, view.zoom);
+  }
+
+  const pointerPosition = (event: React.PointerEvent): Point => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    return { x: event.clientX - rect.left, y: event.clientY - rect.top };
+  };
+
+  // Drag to pan; a click without a drag adds a point to the area being drawn
+  const handlePointerDown = (event: React.PointerEvent<SVGSVGElement>) => {
+    event.currentTarget.setPointerCapture(event.pointerId);
+    const position = pointerPosition(event);
+    dragRef.current = { start: position, last: position, moved: false };
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<SVGSVGElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+
+    const position = pointerPosition(event);
+    if (Math.hypot(position.x - drag.start.x, position.y - drag.start.y) > CLICK_TOLERANCE) {
+      drag.moved = true;
+    }
+    const dx = position.x - drag.last.x;
+    const dy = position.y - drag.last.y;
+    drag.last = position;
+
+    setView(current => {
+      const center = project(current.center, current.zoom);
+      return { ...current, center: unproject({ x: center.x - dx, y: center.y - dy }, current.zoom) };
+    });
+  };
+
+  const handlePointerUp = (event: React.PointerEvent<SVGSVGElement>) => {
+    const drag = dragRef.current;
+    dragRef.current = null;
+    if (!drag || drag.moved || !drawing) return;
+
+    const position = pointerPosition(event);
+    if (drawing.length >= 3) {
+      const first = toScreen({ lng: drawing[0][0], lat: drawing[0][1] });
+      if (Math.hypot(position.x - first.x, position.y - first.y) <= CLOSE_TOLERANCE) {
+        finishDrawing();
+        return;
+      }
+    }
+
+    const { lat, lng } = toLatLng(position);
+    setDrawing([...drawing, [lng, lat]]);
+  };
+
+  const finishDrawing = () => {
+    if (drawing && drawing.length >= 3) {
+      onAreaChange?.(drawing);
+    }
+    setDrawing(null);
+  };
+
+  const zoomBy = (delta: number) => {
+    setView(current => zoomAround(current, current.zoom + delta, { x: width / 2, y: MAP_HEIGHT / 2 }, width));
+  };
+
+  // Zoom into a cluster far enough to pull its members apart
+  const expandCluster = (items: PropertyListing[]) => {
+    const { center, zoom } = fitBounds(items.map(item => item.coordinates!), width, MAP_HEIGHT);
+    setView({ center, zoom: Math.max(zoom, Math.min(MAX_ZOOM, view.zoom + 1)) });
+  };
+
+  const tiles = basemap?.tiles ? visibleTiles(basemap.tiles, origin, view.zoom, width) : [];
+  const labels = (basemap?.places ?? [])
+    .filter(place => view.zoom >= (LABEL_MIN_ZOOM[place.kind] ?? MAX_ZOOM))
+    .map(place => ({ place, position: toScreen(place) }))
+    .filter(({ position: { x, y } }) => x >= 0 && x <= width && y >= 0 && y <= MAP_HEIGHT);
+  const clusters = clusterPoints(located, result => result.coordinates!, view.zoom);
+  const unlocated = results.length - located.length;
+
+  const ringPoints = (ring: SearchArea) => ring
+    .map(([lng, lat]) => toScreen({ lat, lng }))
+    .map(({ x, y }) => `${x},${y}`)
+    .join(' ');
+
+  return (
+    <div ref={containerRef} className="relative bg-white rounded-lg shadow-md overflow-hidden" style={{ height: MAP_HEIGHT }}>
+      <svg
+        ref={svgRef}
+        width={width}
+        height={MAP_HEIGHT}
+        className={`touch-none select-none bg-slate-100 ${drawing ? 'cursor-crosshair' : 'cursor-grab'}`}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={() => { dragRef.current = null; }}
+      >
+        {/* Raster tiles, when the server has some configured */}
+        {tiles.map(tile => (
+          <image key={tile.key} href={tile.url} x={tile.x} y={tile.y} width={tile.size} height={tile.size} />
+        ))}
+
+        {/* Place labels */}
+        {labels.map(({ place, position }) => (
+          <g key={`${place.kind}-${place.name}`} transform={`translate(${position.x},${position.y})`} className="pointer-events-none">
+            <circle r={2} className="fill-slate-400" />
+            <text
+              x={4}
+              y={-4}
+              className={place.kind === 'city' || place.kind === 'area' ? 'fill-slate-700 text-xs font-semibold' : 'fill-slate-500 text-[10px]'}
+            >
+              {place.name}
+            </text>
+          </g>
+        ))}
+
+        {/* The search area */}
+        {area && !drawing && (
+          <polygon points={ringPoints(area)} className="fill-primary/10 stroke-primary pointer-events-none" strokeWidth={2} />
+        )}
+
+        {/* Result markers, clustered where they would overlap */}
+        <g className={drawing ? 'pointer-events-none' : undefined}>
+          {clusters.map(cluster => {
+            const x = cluster.position.x - origin.x;
+            const y = cluster.position.y - origin.y;
+
+            if (cluster.items.length === 1) {
+              const result = cluster.items[0];
+              const active = result.id === hoveredId || result.id === selectedId;
+              return (
+                <circle
+                  key={result.id}
+                  cx={x}
+                  cy={y}
+                  r={active ? 9 : 6}
+                  className={`cursor-pointer stroke-white ${active ? 'fill-orange-500' : 'fill-primary'}`}
+                  strokeWidth={2}
+                  onPointerDown={(event) => event.stopPropagation()}
+                  onPointerEnter={() => onHover?.(result.id)}
+                  onPointerLeave={() => onHover?.(null)}
+                  onClick={() => onSelect?.(result.id)}
+                >
+                  <title>{result.title}</title>
+                </circle>
+              );
+            }
+
+            const active = cluster.items.some(item => item.id === hoveredId || item.id === selectedId);
+            return (
+              <g
+                key={`cluster-${cluster.items[0].id}`}
+                transform={`translate(${x},${y})`}
+                className="cursor-pointer"
+                onPointerDown={(event) => event.stopPropagation()}
+                onClick={() => expandCluster(cluster.items)}
+              >
+                <circle r={12 + Math.min(8, cluster.items.length)} className={`stroke-white ${active ? 'fill-orange-500' : 'fill-primary'}`} strokeWidth={2} />
+                <text textAnchor="middle" dy="0.35em" className="fill-white text-xs font-semibold pointer-events-none">
+                  {cluster.items.length}
+                </text>
+                <title>{cluster.items.length} properties</title>
+              </g>
+            );
+          })}
+        </g>
+
+        {/* The area being drawn */}
+        {drawing && drawing.length > 0 && (
+          <g className="pointer-events-none">
+            <polyline points={ringPoints(drawing)} className="fill-primary/10 stroke-primary" strokeWidth={2} strokeDasharray="6 4" />
+            {drawing.map(([lng, lat], index) => {
+              const { x, y } = toScreen({ lat, lng });
+              return <circle key={index} cx={x} cy={y} r={index === 0 ? 6 : 4} className="fill-white stroke-primary" strokeWidth={2} />;
+            })}
+          </g>
+        )}
+      </svg>
+
+      {/* Controls */}
+      <div className="absolute top-3 right-3 flex flex-col items-end gap-2">
+        <div className="flex flex-col bg-white rounded-md shadow">
+          <Button variant="ghost" size="icon" className="h-8 w-8" aria-label="Zoom in" onClick={() => zoomBy(1)}>
+            <Plus />
+          </Button>
+          <Button variant="ghost" size="icon" className="h-8 w-8" aria-label="Zoom out" onClick={() => zoomBy(-1)}>
+            <Minus />
+          </Button>
+        </div>
+        {drawing ? (
+          <div className="flex gap-2">
+            <Button size="sm" onClick={finishDrawing} disabled={drawing.length < 3}>
+              <Check /> Search this area
+            </Button>
+            <Button size="sm" variant="outline" className="bg-white" onClick={() => setDrawing(null)}>
+              Cancel
+            </Button>
+          </div>
+        ) : onAreaChange && (
+          <div className="flex gap-2">
+            {area && (
+              <Button size="sm" variant="outline" className="bg-white" onClick={() => onAreaChange(null)}>
+                <X /> Clear area
+              </Button>
+            )}
+            <Button size="sm" variant="outline" className="bg-white" onClick={() => setDrawing([])}>
+              <Pencil /> Draw area
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {drawing && (
+        <div className="absolute top-3 left-3 bg-white/90 rounded-md shadow px-3 py-1.5 text-xs text-gray-700">
+          Click to add points, then click the first point to finish. Esc cancels.
+        </div>
+      )}
+
+      {unlocated > 0 && (
+        <div className="absolute bottom-2 left-2 bg-white/90 rounded px-2 py-1 text-xs text-gray-600">
+          {unlocated} {unlocated === 1 ? 'property has' : 'properties have'} no map location
+        </div>
+      )}
+
+      {basemap?.tiles?.attribution && (
+        <div className="absolute bottom-0 right-0 bg-white/80 px-1.5 py-0.5 text-[10px] text-gray-600">
+          {basemap.tiles.attribution}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Change zoom level keeping the coordinate under a viewport point fixed
+ */
+function zoomAround(view: MapView, zoom: number, point: Point, width: number): MapView {
+  const newZoom = Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, zoom));
+  if (newZoom === view.zoom) return view;
+
+  const center = project(view.center, view.zoom);
+  const anchor = unproject({ x: center.x - width / 2 + point.x, y: center.y - MAP_HEIGHT / 2 + point.y }, view.zoom);
+  const anchorPoint = project(anchor, newZoom);
+  return {
+    zoom: newZoom,
+    center: unproject({ x: anchorPoint.x - point.x + width / 2, y: anchorPoint.y - point.y + MAP_HEIGHT / 2 }, newZoom)
+  };
+}
+
+/**
+ * Tiles covering the viewport, scaled up from the tile server's deepest level when zoomed in past it
+ */
+function visibleTiles(tiles: NonNullable<MapBasemap['tiles']>, origin: Point, zoom: number, width: number) {
+  const tileZoom = Math.min(zoom, tiles.maxZoom);
+  const size = TILE_SIZE * Math.pow(2, zoom - tileZoom);
+  const count = Math.pow(2, tileZoom);
+
+  const visible: Array<{ key: string; url: string; x: number; y: number; size: number }> = [];
+  for (let tx = Math.floor(origin.x / size); tx <= Math.floor((origin.x + width) / size); tx++) {
+    for (let ty = Math.floor(origin.y / size); ty <= Math.floor((origin.y + MAP_HEIGHT) / size); ty++) {
+      if (ty < 0 || ty >= count) continue;
+      // Wrap around the antimeridian
+      const wrapped = ((tx % count) + count) % count;
+      visible.push({
+        key: `${tileZoom}/${tx}/${ty}`,
+        url: tiles.url.replace('{z}', String(tileZoom)).replace('{x}', String(wrapped)).replace('{y}', String(ty)),
+        x: tx * size - origin.x,
+        y: ty * size - origin.y,
+        size
+      });
+    }
+  }
+  return visible;
+}
@@ -1,10 +1,21 @@
 import { useState } from "react";
-import { SearchResult, FilterState, FilterOptions } from "@/lib/types";
+import { SearchResult, FilterState, FilterOptions, SortMode } from "@/lib/types";
 import { PropertyCard } from "./PropertyCard";
+import { PropertyMap, SearchArea } from "./PropertyMap";
 import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Badge } from "@/components/ui/badge";
-import { X } from "lucide-react";
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from "@/components/ui/pagination";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { X, Map as MapIcon } from "lucide-react";
 
 interface PropertyResultsProps {
   searchResults: SearchResult[];
@@ -13,16 +24,69 @@ interface PropertyResultsProps {
   resetFilters: () => void;
   filters?: FilterState | null;
   filterOptions?: FilterOptions | null;
+  totalResults: number;
+  page: number;
+  pageSize: number;
+  onPageChange: (page: number) => void;
+  sort: SortMode;
+  onSortChange: (sort: SortMode) => void;
+  canSortByDistance: boolean;
+  searchArea: SearchArea | null;
+  onSearchAreaChange: (area: SearchArea | null) => void;
 }
 
+const sortOptions: Array<{ value: SortMode; label: string }> = [
+  { value: 'relevance', label: 'Most relevant' },
+  { value: 'price_asc', label: 'Price: low to high' },
+  { value: 'price_desc', label: 'Price: high to low' },
+  { value: 'bedrooms', label: 'Most bedrooms' },
+  { value: 'distance', label: 'Nearest first' },
+  { value: 'newest', label: 'Newest listings' }
+];
+
 export function PropertyResults({
   searchResults,
   isSearching,
   hasSearched,
   resetFilters,
   filters,
-  filterOptions
+  filterOptions,
+  totalResults,
+  page,
+  pageSize,
+  onPageChange,
+  sort,
+  onSortChange,
+  canSortByDistance,
+  searchArea,
+  onSearchAreaChange
 }: PropertyResultsProps) {
+  const [showMap, setShowMap] = useState(true);
+  // Result hovered or selected in either the list or the map, highlighted in both
+  const [hoveredId, setHoveredId] = useState<string | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const totalPages = Math.max(1, Math.ceil(totalResults / pageSize));
+  
+  // Helper to pick which page numbers to show: first, last and a window around the current page
+  const getVisiblePages = (): Array<number | 'ellipsis'> => {
+    const pages: Array<number | 'ellipsis'> = [];
+    for (let p = 1; p <= totalPages; p++) {
+      if (p === 1 || p === totalPages || Math.abs(p - page) <= 1) {
+        pages.push(p);
+      } else if (pages[pages.length - 1] !== 'ellipsis') {
+        pages.push('ellipsis');
+      }
+    }
+    return pages;
+  };
+  
+  // Helper to handle pagination link clicks without navigating
+  const goToPage = (event: React.MouseEvent, newPage: number) => {
+    event.preventDefault();
+    if (newPage < 1 || newPage > totalPages || newPage === page) return;
+    onPageChange(newPage);
+  };
+  
   // Helper to get active filter names
   const getActiveFilterNames = (filterType: keyof FilterState, optionsArray?: string[]) => {
     if (!filters || !optionsArray) return [];
@@ -65,6 +129,12 @@ export function PropertyResults({
     return count;
   };
   
+  // Select a result from its map marker and scroll its card into view
+  const selectFromMap = (id: string) => {
+    setSelectedId(id);
+    document.getElementById(`property-card-${id}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  };
+  
   // Format price with commas
   const formatPrice = (price: number) => {
     return price.toString().replace(/\B(?=(\d{3})+(?!\d))/g, ",");
@@ -72,6 +142,28 @@ export function PropertyResults({
   
   return (
     <div>
+      {/* Map of the results, kept mounted between searches so the view and any drawn area persist */}
+      {hasSearched && (
+        <div className="mb-4">
+          <div className="flex justify-end mb-2">
+            <Button variant="outline" size="sm" className="bg-white" onClick={() => setShowMap(!showMap)}>
+              <MapIcon /> {showMap ? 'Hide map' : 'Show map'}
+            </Button>
+          </div>
+          {showMap && (
+            <PropertyMap
+              results={searchResults}
+              hoveredId={hoveredId}
+              selectedId={selectedId}
+              onHover={setHoveredId}
+              onSelect={selectFromMap}
+              area={searchArea}
+              onAreaChange={onSearchAreaChange}
+            />
+          )}
+        </div>
+      )}
+      
       {/* State: No search performed yet */}
       {!hasSearched && !isSearching && (
         <div className="bg-white rounded-lg shadow-md p-6 text-center">
@@ -129,11 +221,33 @@ export function PropertyResults({
       {hasSearched && searchResults.length > 0 && !isSearching && (
         <>
           <div className="mb-4">
-            <h2 className="font-heading text-xl font-semibold text-gray-800 flex items-center">
-              <i className="ri-home-4-line mr-2 text-primary"></i>
-              Top Matching Properties
-              <span className="ml-2 text-sm font-normal text-gray-500">({searchResults.length} results)</span>
-            </h2>
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <h2 className="font-heading text-xl font-semibold text-gray-800 flex items-center">
+                <i className="ri-home-4-line mr-2 text-primary"></i>
+                Top Matching Properties
+                <span className="ml-2 text-sm font-normal text-gray-500">
+                  ({totalResults} results{totalPages > 1 ? `, page ${page} of ${totalPages}` : ''})
+                </span>
+              </h2>
+              
+              {/* Sort selector */}
+              <Select value={sort} onValueChange={(value) => onSortChange(value as SortMode)}>
+                <SelectTrigger className="w-[180px] bg-white">
+                  <SelectValue placeholder="Sort by" />
+                </SelectTrigger>
+                <SelectContent>
+                  {sortOptions.map(option => (
+                    <SelectItem
+                      key={option.value}
+                      value={option.value}
+                      disabled={option.value === 'distance' && !canSortByDistance}
+                    >
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
             
             {/* Active filters */}
             {filters && filterOptions && countActiveFilters() > 0 && (
@@ -244,9 +358,48 @@ export function PropertyResults({
           
           <div className="space-y-4">
             {searchResults.map((result, index) => (
-              <PropertyCard key={`${result.id}-${index}`} property={result} />
+              <PropertyCard
+                key={`${result.id}-${index}`}
+                property={result}
+                highlighted={result.id === hoveredId || result.id === selectedId}
+                onHover={setHoveredId}
+                onSelect={setSelectedId}
+              />
             ))}
           </div>
+          
+          {/* Page navigation */}
+          {totalPages > 1 && (
+            <Pagination className="mt-6">
+              <PaginationContent>
+                <PaginationItem>
+                  <PaginationPrevious
+                    href="#"
+                    onClick={(e) => goToPage(e, page - 1)}
+                    className={page === 1 ? "pointer-events-none opacity-50" : ""}
+                  />
+                </PaginationItem>
+                {getVisiblePages().map((p, index) => (
+                  <PaginationItem key={`${p}-${index}`}>
+                    {p === 'ellipsis' ? (
+                      <PaginationEllipsis />
+                    ) : (
+                      <PaginationLink href="#" isActive={p === page} onClick={(e) => goToPage(e, p)}>
+                        {p}
+                      </PaginationLink>
+                    )}
+                  </PaginationItem>
+                ))}
+                <PaginationItem>
+                  <PaginationNext
+                    href="#"
+                    onClick={(e) => goToPage(e, page + 1)}
+                    className={page === totalPages ? "pointer-events-none opacity-50" : ""}
+                  />
+                </PaginationItem>
+              </PaginationContent>
+            </Pagination>
+          )}
         </>
       )}
     </div>
@@ -2,12 +2,20 @@ import { useState, useEffect } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { PropertyFilters } from "./PropertyFilters";
 import { PropertyResults } from "./PropertyResults";
+import { SearchArea } from "./PropertyMap";
+import { AccountMenu } from "./AccountMenu";
+import { AlertInbox } from "./AlertInbox";
+import { SavedSearches } from "./SavedSearches";
 import { apiRequest } from "@/lib/queryClient";
-import { PropertyListing, SearchResult, FilterState, FilterOptions } from "@/lib/types";
+import { defaultFilters, fromSavedFilters, toSavedFilters } from "@/lib/filters";
+import { PropertyListing, SearchResult, FilterState, FilterOptions, SearchRequest, SearchResponse, SearchMode, SortMode, SavedSearch } from "@/lib/types";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Search } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { useCompare } from "@/hooks/use-compare";
+
+const PAGE_SIZE = 20;
 
 export function PropertySearch() {
   const [queryText, setQueryText] = useState("A nice, simple house near park");
@@ -15,8 +23,17 @@ export function PropertySearch() {
   const [filters, setFilters] = useState<FilterState | null>(null);
   const [filtersOpen, setFiltersOpen] = useState(window.innerWidth >= 768);
   const [searchResults, setSearchResults] = useState<SearchResult[]>([]);
-  const [filteredResults, setFilteredResults] = useState<SearchResult[]>([]);
+  const [lastQuery, setLastQuery] = useState<string | null>(null);
+  const [hasSearched, setHasSearched] = useState(false);
+  const [totalResults, setTotalResults] = useState(0);
+  const [page, setPage] = useState(1);
+  const [sort, setSort] = useState<SortMode>('relevance');
+  const [hasSearchLocation, setHasSearchLocation] = useState(false);
+  const [searchMode, setSearchMode] = useState<SearchMode>('semantic');
+  // Area drawn on the map, sent as the search's polygon constraint
+  const [searchArea, setSearchArea] = useState<SearchArea | null>(null);
   const { toast } = useToast();
+  const { setOrigin: setCompareOrigin } = useCompare();
 
   const sampleQueries = [
     "A modern 4-bedroom house with a park view",
@@ -39,16 +56,7 @@ export function PropertySearch() {
       setFilterOptions(typedFilterData);
       
       // Initialize filters with default values
-      setFilters({
-        type: [],
-        style: [],
-        location: [],
-        bedrooms: [typedFilterData.bedrooms.min, typedFilterData.bedrooms.max],
-        bathrooms: [typedFilterData.bathrooms.min, typedFilterData.bathrooms.max],
-        price: [typedFilterData.price.min, typedFilterData.price.max],
-        view: [],
-        furnishing: []
-      });
+      setFilters(defaultFilters(typedFilterData));
     }
   }, [filterData]);
 
@@ -57,13 +65,13 @@ export function PropertySearch() {
 
   // Search mutation
   const { mutate: searchProperties, isPending: isSearching } = useMutation({
-    mutationFn: async (query: string) => {
+    mutationFn: async (request: SearchRequest) => {
       const response = await fetch('/api/property/search', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json'
         },
-        body: JSON.stringify({ query })
+        body: JSON.stringify(request)
       });
       
       if (!response.ok) {
@@ -73,10 +81,16 @@ export function PropertySearch() {
       
       return response.json();
     },
-    onSuccess: (data: SearchResult[]) => {
+    onSuccess: (data: SearchResponse) => {
       setApiKeyError(null); // Clear any previous API key errors
-      setSearchResults(data);
-      applyFilters(data);
+      setSearchResults(data.results);
+      setTotalResults(data.total);
+      setPage(data.page);
+      setHasSearchLocation(!!data.constraints.parsed.location);
+      // Compared listings are measured from the place this search was near
+      setCompareOrigin(data.constraints.parsed.location ?? null);
+      setSearchMode(data.mode);
+      setHasSearched(true);
     },
     onError: (error: any) => {
       console.error("Search error:", error);
@@ -114,55 +128,27 @@ export function PropertySearch() {
     return () => window.removeEventListener('resize', handleResize);
   }, []);
 
-  // Apply filters to search results
-  const applyFilters = (results: SearchResult[] = searchResults) => {
-    if (!filters) return;
+  // Only the filters narrower than the defaults are sent, so untouched ranges don't count as
+  // filtering and the server keeps searching its usual candidate set
+  const narrowedFilters = () => filters && filterOptions ? toSavedFilters(filters, filterOptions) : undefined;
+
+  // Filters are applied on the server, so re-run the last search whenever they change
+  // (debounced so dragging a range slider doesn't send a request per step)
+  useEffect(() => {
+    if (!lastQuery || !filters) return;
     
-    const filtered = results.filter(item => {
-      // Type filter
-      if (filters.type.length > 0 && !filters.type.includes(item.type)) {
-        return false;
-      }
-      
-      // Style filter
-      if (filters.style.length > 0 && !filters.style.includes(item.style)) {
-        return false;
-      }
-      
-      // Location filter
-      if (filters.location.length > 0 && !filters.location.includes(item.location)) {
-        return false;
-      }
-      
-      // Bedrooms range
-      if (item.bedrooms < filters.bedrooms[0] || item.bedrooms > filters.bedrooms[1]) {
-        return false;
-      }
-      
-      // Bathrooms range
-      if (item.bathrooms < filters.bathrooms[0] || item.bathrooms > filters.bathrooms[1]) {
-        return false;
-      }
-      
-      // Price range
-      if (item.price < filters.price[0] || item.price > filters.price[1]) {
-        return false;
-      }
-      
-      // View filter
-      if (filters.view.length > 0 && !filters.view.includes(item.view)) {
-        return false;
-      }
-      
-      // Furnishing filter
-      if (filters.furnishing.length > 0 && !filters.furnishing.includes(item.furnishing)) {
-        return false;
-      }
-      
-      return true;
-    });
+    const timeout = setTimeout(() => {
+      searchProperties({ query: lastQuery, filters: narrowedFilters(), limit: PAGE_SIZE, sort, polygon: searchArea ?? undefined });
+    }, 300);
+    return () => clearTimeout(timeout);
+  }, [filters]);
+
+  // Re-run the last search within a newly drawn area, or everywhere once it's cleared
+  const changeSearchArea = (area: SearchArea | null) => {
+    setSearchArea(area);
+    if (!lastQuery) return;
     
-    setFilteredResults(filtered);
+    searchProperties({ query: lastQuery, filters: narrowedFilters(), limit: PAGE_SIZE, sort, polygon: area ?? undefined });
   };
 
   // Toggle a filter value
@@ -186,7 +172,6 @@ export function PropertySearch() {
     }
     
     setFilters(updatedFilters);
-    applyFilters();
     
     // Debug log for filter changes
     console.log(`Filter ${filterType} updated:`, updatedFilters[filterType as keyof FilterState]);
@@ -202,36 +187,59 @@ export function PropertySearch() {
     updatedFilters[filterType as keyof FilterState] = currentRange as any;
     
     setFilters(updatedFilters);
-    applyFilters();
   };
 
   // Reset all filters to default values
   const resetFilters = () => {
     if (!filterOptions) return;
     
-    setFilters({
-      type: [],
-      style: [],
-      location: [],
-      bedrooms: [filterOptions.bedrooms.min, filterOptions.bedrooms.max],
-      bathrooms: [filterOptions.bathrooms.min, filterOptions.bathrooms.max],
-      price: [filterOptions.price.min, filterOptions.price.max],
-      view: [],
-      furnishing: []
-    });
-    
-    applyFilters();
+    setFilters(defaultFilters(filterOptions));
   };
 
   // Perform search
   const performSearch = () => {
-    searchProperties(queryText);
+    runNewSearch(queryText);
+  };
+
+  // Start a new search; distance sorting only carries over if the new query names a location,
+  // so fall back to relevance rather than have the server reject it
+  const runNewSearch = (query: string) => {
+    const newSort = sort === 'distance' ? 'relevance' : sort;
+    setSort(newSort);
+    setLastQuery(query);
+    searchProperties({ query, filters: narrowedFilters(), limit: PAGE_SIZE, sort: newSort, polygon: searchArea ?? undefined });
+  };
+
+  // Re-run the last search with a different ordering
+  const changeSort = (newSort: SortMode) => {
+    setSort(newSort);
+    if (!lastQuery) return;
+    
+    searchProperties({ query: lastQuery, filters: narrowedFilters(), limit: PAGE_SIZE, sort: newSort, polygon: searchArea ?? undefined });
+  };
+
+  // Fetch another page of the last search
+  const changePage = (newPage: number) => {
+    if (!lastQuery) return;
+    
+    searchProperties({ query: lastQuery, filters: narrowedFilters(), limit: PAGE_SIZE, page: newPage, sort, polygon: searchArea ?? undefined });
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  // Run a saved search with its own filters; setting the filters re-runs the search via the effect above
+  const runSavedSearch = (search: SavedSearch) => {
+    if (!filterOptions) return;
+    
+    if (sort === 'distance') setSort('relevance');
+    setQueryText(search.query);
+    setLastQuery(search.query);
+    setFilters(fromSavedFilters(search.filters, filterOptions));
   };
 
   // Handle sample query selection
   const selectSampleQuery = (query: string) => {
     setQueryText(query);
-    searchProperties(query);
+    runNewSearch(query);
   };
 
   return (
@@ -265,7 +273,13 @@ export function PropertySearch() {
         <div className="max-w-4xl mx-auto space-y-6">
           {/* Search section */}
           <div className="bg-white rounded-lg shadow-md p-5">
-            <h2 className="font-heading text-xl md:text-2xl font-semibold mb-4 text-gray-800">Search for your ideal property</h2>
+            <div className="flex justify-between items-start gap-2 mb-4">
+              <h2 className="font-heading text-xl md:text-2xl font-semibold text-gray-800">Search for your ideal property</h2>
+              <div className="flex items-center gap-2">
+                <AlertInbox />
+                <AccountMenu />
+              </div>
+            </div>
             <div className="relative">
               <div className="flex items-center">
                 <div className="relative flex-1">
@@ -313,6 +327,16 @@ export function PropertySearch() {
                 ))}
               </div>
             </div>
+
+            {/* Saved searches of the logged-in user */}
+            {filters && filterOptions && (
+              <SavedSearches
+                query={lastQuery}
+                filters={filters}
+                filterOptions={filterOptions}
+                onRun={runSavedSearch}
+              />
+            )}
           </div>
 
           {/* API Key Error Alert */}
@@ -335,11 +359,31 @@ export function PropertySearch() {
             </div>
           )}
 
+          {/* Degraded mode banner */}
+          {hasSearched && searchMode === 'fallback' && !apiKeyError && (
+            <div className="bg-amber-50 border-l-4 border-amber-500 p-4 rounded-md">
+              <h3 className="text-sm font-medium text-amber-800">Keyword matching only</h3>
+              <p className="mt-1 text-sm text-amber-700">
+                Semantic search isn't available right now, so these results only match the words in your search.
+                Listings may still be indexing; try again in a moment.
+              </p>
+            </div>
+          )}
+
           {/* Results section */}
           <PropertyResults
-            searchResults={filteredResults}
+            searchResults={searchResults}
             isSearching={isSearching}
-            hasSearched={searchResults.length > 0}
+            hasSearched={hasSearched}
+            totalResults={totalResults}
+            page={page}
+            pageSize={PAGE_SIZE}
+            onPageChange={changePage}
+            sort={sort}
+            onSortChange={changeSort}
+            canSortByDistance={hasSearchLocation}
+            searchArea={searchArea}
+            onSearchAreaChange={changeSearchArea}
             resetFilters={resetFilters}
             filters={filters}
             filterOptions={filterOptions}
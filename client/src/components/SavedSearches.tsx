@@ -0,0 +1,195 @@
+import { useState, FormEvent } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { toSavedFilters } from "@/lib/filters";
+import { FilterOptions, FilterState, SavedFilters, SavedSearch } from "@/lib/types";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Bell, BellOff, BookmarkPlus, Pencil, X } from "lucide-react";
+
+const SAVED_SEARCHES_KEY = ['/api/saved-searches'];
+
+interface SavedSearchesProps {
+  query: string | null;              // The last search run, which "Save" saves
+  filters: FilterState;
+  filterOptions: FilterOptions;
+  onRun: (search: SavedSearch) => void;
+}
+
+// Fields sent to create or update a saved search
+interface SavedSearchChanges {
+  name?: string;
+  query?: string;
+  filters?: SavedFilters;
+  alertsEnabled?: boolean;
+}
+
+export function SavedSearches({ query, filters, filterOptions, onRun }: SavedSearchesProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  // The search being renamed, or "new" while saving the current one
+  const [editing, setEditing] = useState<SavedSearch | 'new' | null>(null);
+  const [name, setName] = useState("");
+  const [alertsEnabled, setAlertsEnabled] = useState(true);
+  const [replaceQuery, setReplaceQuery] = useState(false);
+
+  // Keyed by user too, so another account never sees the last one's cached searches
+  const { data: searches = [] } = useQuery<SavedSearch[]>({
+    queryKey: [...SAVED_SEARCHES_KEY, user?.id],
+    enabled: !!user
+  });
+
+  const onError = (error: Error) => {
+    toast({ title: "Couldn't update saved searches", description: error.message, variant: "destructive" });
+  };
+  const refresh = () => queryClient.invalidateQueries({ queryKey: SAVED_SEARCHES_KEY });
+
+  const { mutate: saveSearch, isPending: isSaving } = useMutation({
+    mutationFn: ({ id, changes }: { id?: number; changes: SavedSearchChanges }) =>
+      apiRequest<SavedSearch>(id ? `/api/saved-searches/${id}` : '/api/saved-searches', {
+        method: id ? 'PATCH' : 'POST',
+        body: changes
+      }),
+    onSuccess: () => {
+      refresh();
+      setEditing(null);
+    },
+    onError
+  });
+
+  const { mutate: deleteSearch } = useMutation({
+    mutationFn: (id: number) => apiRequest(`/api/saved-searches/${id}`, { method: 'DELETE' }, false),
+    onSuccess: () => {
+      refresh();
+      // Its alerts go with it
+      queryClient.invalidateQueries({ queryKey: ['/api/alerts'] });
+    },
+    onError
+  });
+
+  if (!user) return null;
+
+  const openEditor = (search: SavedSearch | 'new') => {
+    setEditing(search);
+    setName(search === 'new' ? query ?? '' : search.name);
+    setAlertsEnabled(search === 'new' ? true : search.alertsEnabled);
+    setReplaceQuery(false);
+  };
+
+  const submit = (event: FormEvent) => {
+    event.preventDefault();
+    if (!editing) return;
+
+    const current = { query: query ?? '', filters: toSavedFilters(filters, filterOptions) };
+    if (editing === 'new') {
+      saveSearch({ changes: { name, alertsEnabled, ...current } });
+    } else {
+      saveSearch({ id: editing.id, changes: { name, alertsEnabled, ...(replaceQuery ? current : {}) } });
+    }
+  };
+
+  return (
+    <div className="mt-4">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-sm font-medium text-gray-500">Saved searches:</h3>
+        <Button
+          variant="outline"
+          size="sm"
+          className="flex items-center"
+          disabled={!query}
+          title={query ? undefined : "Run a search to save it"}
+          onClick={() => openEditor('new')}
+        >
+          <BookmarkPlus className="mr-1 h-4 w-4" />
+          Save this search
+        </Button>
+      </div>
+
+      {searches.length === 0 ? (
+        <p className="text-sm text-gray-400">Save a search to be alerted when new listings match it.</p>
+      ) : (
+        <div className="flex flex-wrap gap-2">
+          {searches.map(search => (
+            <div key={search.id} className="flex items-center bg-primary/10 text-primary text-sm rounded-full pl-3 pr-1 py-1">
+              <button type="button" onClick={() => onRun(search)} title={search.query} className="hover:underline">
+                {search.name}
+              </button>
+              <button
+                type="button"
+                className="ml-1 p-1 rounded-full hover:bg-primary/20"
+                aria-label={search.alertsEnabled ? "Turn alerts off" : "Turn alerts on"}
+                title={search.alertsEnabled ? "Alerts on" : "Alerts off"}
+                onClick={() => saveSearch({ id: search.id, changes: { alertsEnabled: !search.alertsEnabled } })}
+              >
+                {search.alertsEnabled ? <Bell className="h-3.5 w-3.5" /> : <BellOff className="h-3.5 w-3.5 text-gray-400" />}
+              </button>
+              <button
+                type="button"
+                className="p-1 rounded-full hover:bg-primary/20"
+                aria-label={`Edit ${search.name}`}
+                onClick={() => openEditor(search)}
+              >
+                <Pencil className="h-3.5 w-3.5" />
+              </button>
+              <button
+                type="button"
+                className="p-1 rounded-full hover:bg-primary/20"
+                aria-label={`Delete ${search.name}`}
+                onClick={() => deleteSearch(search.id)}
+              >
+                <X className="h-3.5 w-3.5" />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <Dialog open={editing !== null} onOpenChange={open => !open && setEditing(null)}>
+        <DialogContent className="sm:max-w-sm">
+          <DialogHeader>
+            <DialogTitle>{editing === 'new' ? 'Save this search' : 'Edit saved search'}</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={submit} className="space-y-4">
+            <div className="space-y-1">
+              <Label htmlFor="saved-search-name">Name</Label>
+              <Input
+                id="saved-search-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                maxLength={100}
+                required
+              />
+            </div>
+            <div className="flex items-center justify-between">
+              <Label htmlFor="saved-search-alerts">Alert me to new matches</Label>
+              <Switch id="saved-search-alerts" checked={alertsEnabled} onCheckedChange={setAlertsEnabled} />
+            </div>
+            {editing !== 'new' && editing && query && (
+              <div className="flex items-start gap-2">
+                <Checkbox
+                  id="saved-search-replace"
+                  checked={replaceQuery}
+                  onCheckedChange={checked => setReplaceQuery(checked === true)}
+                />
+                <Label htmlFor="saved-search-replace" className="font-normal leading-snug">
+                  Replace "{editing.query}" with the current search and filters
+                </Label>
+              </div>
+            )}
+            <DialogFooter>
+              <Button type="submit" disabled={isSaving}>
+                {editing === 'new' ? 'Save' : 'Update'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
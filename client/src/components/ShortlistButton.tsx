@@ -0,0 +1,152 @@
+import { useState, FormEvent, MouseEvent } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Shortlist } from "@/lib/types";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  DropdownMenu,
+  DropdownMenuCheckboxItem,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from "@/components/ui/dropdown-menu";
+import { Heart, Plus } from "lucide-react";
+
+export const SHORTLISTS_KEY = ['/api/shortlists'];
+
+// The list a first heart click creates
+const DEFAULT_SHORTLIST_NAME = "Favourites";
+
+interface ShortlistButtonProps {
+  propertyId: number;
+}
+
+/**
+ * Heart that adds a property to, or removes it from, the user's shortlists
+ * Hidden when nobody is logged in
+ */
+export function ShortlistButton({ propertyId }: ShortlistButtonProps) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [creating, setCreating] = useState(false);
+  const [name, setName] = useState("");
+
+  const { data: lists = [] } = useQuery<Shortlist[]>({
+    queryKey: [...SHORTLISTS_KEY, user?.id],
+    enabled: !!user
+  });
+
+  const onError = (error: Error) => {
+    toast({ title: "Couldn't update shortlist", description: error.message, variant: "destructive" });
+  };
+  const refresh = () => queryClient.invalidateQueries({ queryKey: SHORTLISTS_KEY });
+
+  const { mutate: toggle } = useMutation({
+    mutationFn: ({ listId, saved }: { listId: number; saved: boolean }) => saved
+      ? apiRequest(`/api/shortlists/${listId}/items/${propertyId}`, { method: 'DELETE' }, false)
+      : apiRequest(`/api/shortlists/${listId}/items`, { method: 'POST', body: { propertyId } }),
+    onSuccess: refresh,
+    onError
+  });
+
+  // Create a list and put this property on it
+  const { mutate: createList, isPending: isCreating } = useMutation({
+    mutationFn: async (listName: string) => {
+      const list = await apiRequest<Shortlist>('/api/shortlists', { method: 'POST', body: { name: listName } });
+      await apiRequest(`/api/shortlists/${list.id}/items`, { method: 'POST', body: { propertyId } });
+      return list;
+    },
+    onSuccess: (list) => {
+      refresh();
+      setCreating(false);
+      toast({ title: `Added to ${list.name}` });
+    },
+    onError
+  });
+
+  if (!user) return null;
+
+  const savedIn = new Set(
+    lists.filter(list => list.items.some(item => item.propertyId === propertyId)).map(list => list.id)
+  );
+
+  // Cards select their listing on click, which the heart shouldn't do; React bubbles
+  // events from the menu and dialog portals through this wrapper too
+  const stopPropagation = (event: MouseEvent) => event.stopPropagation();
+
+  const submit = (event: FormEvent) => {
+    event.preventDefault();
+    createList(name);
+  };
+
+  const heart = (
+    <Button
+      variant="ghost"
+      size="icon"
+      className="h-8 w-8 shrink-0"
+      aria-label={savedIn.size > 0 ? "On your shortlists" : "Add to a shortlist"}
+      onClick={lists.length === 0 ? () => createList(DEFAULT_SHORTLIST_NAME) : undefined}
+      disabled={isCreating}
+    >
+      <Heart className={`h-5 w-5 ${savedIn.size > 0 ? 'fill-red-500 text-red-500' : 'text-gray-500'}`} />
+    </Button>
+  );
+
+  return (
+    <div onClick={stopPropagation}>
+      {lists.length === 0 ? heart : (
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>{heart}</DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            <DropdownMenuLabel>Save to</DropdownMenuLabel>
+            {lists.map(list => (
+              <DropdownMenuCheckboxItem
+                key={list.id}
+                checked={savedIn.has(list.id)}
+                onCheckedChange={() => toggle({ listId: list.id, saved: savedIn.has(list.id) })}
+                onSelect={event => event.preventDefault()}
+              >
+                {list.name}
+              </DropdownMenuCheckboxItem>
+            ))}
+            <DropdownMenuSeparator />
+            <DropdownMenuItem onSelect={() => { setName(""); setCreating(true); }}>
+              <Plus className="mr-2 h-4 w-4" />
+              New list
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+      )}
+
+      <Dialog open={creating} onOpenChange={setCreating}>
+        <DialogContent className="sm:max-w-sm">
+          <DialogHeader>
+            <DialogTitle>New shortlist</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={submit} className="space-y-4">
+            <div className="space-y-1">
+              <Label htmlFor={`new-shortlist-${propertyId}`}>Name</Label>
+              <Input
+                id={`new-shortlist-${propertyId}`}
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                maxLength={100}
+                required
+              />
+            </div>
+            <DialogFooter>
+              <Button type="submit" disabled={isCreating}>Create and add</Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
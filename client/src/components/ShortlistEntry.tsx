@@ -0,0 +1,96 @@
+import { useState, useEffect } from "react";
+import { Link } from "wouter";
+import { ShortlistItem } from "@/lib/types";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Building, Hotel, MapPin, Star, Trash2 } from "lucide-react";
+
+const RATINGS = [1, 2, 3, 4, 5];
+
+interface ShortlistEntryProps {
+  item: ShortlistItem;
+  // Without these the entry is read-only, as on a shared list
+  onRate?: (rating: number | null) => void;
+  onNoteChange?: (note: string | null) => void;
+  onRemove?: () => void;
+}
+
+/**
+ * One property on a shortlist, with its rating and note
+ */
+export function ShortlistEntry({ item, onRate, onNoteChange, onRemove }: ShortlistEntryProps) {
+  const { property } = item;
+  const [note, setNote] = useState(item.note ?? "");
+
+  // Pick up the saved note when it changes elsewhere, e.g. after a refetch
+  useEffect(() => setNote(item.note ?? ""), [item.note]);
+
+  // Notes are saved when the field loses focus, not on every keystroke
+  const saveNote = () => {
+    const trimmed = note.trim();
+    if (trimmed !== (item.note ?? "")) onNoteChange?.(trimmed || null);
+  };
+
+  return (
+    <li className="py-4 flex flex-col sm:flex-row gap-4">
+      <div className="flex-1 min-w-0">
+        <div className="flex items-start justify-between gap-2">
+          <h4 className="font-semibold text-gray-800">
+            <Link href={`/property/${property.id}`} className="hover:underline">{property.title}</Link>
+          </h4>
+          <div className="text-lg font-semibold text-primary whitespace-nowrap">
+            £{property.price.toLocaleString('en-GB')}
+          </div>
+        </div>
+        <div className="mt-1 flex flex-wrap gap-x-4 gap-y-1 text-sm text-gray-600">
+          <span className="flex items-center"><MapPin className="mr-1 h-4 w-4" />{property.location}</span>
+          <span className="flex items-center"><Building className="mr-1 h-4 w-4" />{property.type}</span>
+          <span className="flex items-center">
+            <Hotel className="mr-1 h-4 w-4" />
+            {property.bedrooms} bed{property.bedrooms !== 1 ? 's' : ''}
+          </span>
+        </div>
+
+        <div className="mt-2 flex items-center gap-0.5" aria-label={item.rating ? `Rated ${item.rating} of 5` : "Not rated"}>
+          {RATINGS.map(value => {
+            const star = <Star className={`h-4 w-4 ${item.rating && value <= item.rating ? 'fill-amber-400 text-amber-400' : 'text-gray-300'}`} />;
+            return onRate ? (
+              <button
+                key={value}
+                type="button"
+                className="p-0.5"
+                aria-label={`Rate ${value} of 5`}
+                // Clicking the current rating clears it
+                onClick={() => onRate(item.rating === value ? null : value)}
+              >
+                {star}
+              </button>
+            ) : (
+              <span key={value} className="p-0.5">{star}</span>
+            );
+          })}
+        </div>
+
+        {onNoteChange ? (
+          <Textarea
+            className="mt-2 text-sm"
+            placeholder="Add a note, e.g. viewing on Saturday"
+            value={note}
+            onChange={(e) => setNote(e.target.value)}
+            onBlur={saveNote}
+            maxLength={2000}
+            rows={2}
+          />
+        ) : item.note && (
+          <p className="mt-2 text-sm text-gray-700 whitespace-pre-line">{item.note}</p>
+        )}
+      </div>
+
+      {onRemove && (
+        <Button variant="ghost" size="icon" className="self-start" aria-label={`Remove ${property.title}`} onClick={onRemove}>
+          <Trash2 className="h-4 w-4 text-gray-500" />
+        </Button>
+      )}
+    </li>
+  );
+}
@@ -0,0 +1,95 @@
+import { createContext, useContext, ReactNode } from "react";
+import { useQuery, useMutation, UseMutationResult } from "@tanstack/react-query";
+import { getQueryFn, queryClient } from "@/lib/queryClient";
+import { AuthUser, Credentials } from "@/lib/types";
+import { useToast } from "@/hooks/use-toast";
+
+export const AUTH_QUERY_KEY = ["/api/auth/me"];
+
+interface AuthContextValue {
+  user: AuthUser | null;
+  isLoading: boolean;
+  loginMutation: UseMutationResult<AuthUser, Error, Credentials>;
+  registerMutation: UseMutationResult<AuthUser, Error, Credentials>;
+  logoutMutation: UseMutationResult<void, Error, void>;
+}
+
+const AuthContext = createContext<AuthContextValue | null>(null);
+
+// POST to an auth endpoint, throwing the server's message on failure
+async function postAuth<T>(url: string, body?: Credentials): Promise<T> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: body ? { 'Content-Type': 'application/json' } : {},
+    body: body ? JSON.stringify(body) : undefined,
+    credentials: 'include'
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw new Error(errorData.message || response.statusText);
+  }
+  return response.status === 204 ? (undefined as T) : response.json();
+}
+
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const { toast } = useToast();
+
+  // A 401 means nobody is logged in, not an error
+  const { data: user, isLoading } = useQuery<AuthUser | null>({
+    queryKey: AUTH_QUERY_KEY,
+    queryFn: getQueryFn({ on401: "returnNull" })
+  });
+
+  const onAuthenticated = (user: AuthUser) => {
+    queryClient.setQueryData(AUTH_QUERY_KEY, user);
+  };
+
+  const loginMutation = useMutation({
+    mutationFn: (credentials: Credentials) => postAuth<AuthUser>('/api/auth/login', credentials),
+    onSuccess: onAuthenticated,
+    onError: (error: Error) => {
+      toast({ title: "Login failed", description: error.message, variant: "destructive" });
+    }
+  });
+
+  const registerMutation = useMutation({
+    mutationFn: (credentials: Credentials) => postAuth<AuthUser>('/api/auth/register', credentials),
+    onSuccess: onAuthenticated,
+    onError: (error: Error) => {
+      toast({ title: "Registration failed", description: error.message, variant: "destructive" });
+    }
+  });
+
+  const logoutMutation = useMutation({
+    mutationFn: () => postAuth<void>('/api/auth/logout'),
+    onSuccess: () => {
+      queryClient.setQueryData(AUTH_QUERY_KEY, null);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Logout failed", description: error.message, variant: "destructive" });
+    }
+  });
+
+  return (
+    <AuthContext.Provider
+      value={{
+        user: user ?? null,
+        isLoading,
+        loginMutation,
+        registerMutation,
+        logoutMutation
+      }}
+    >
+      {children}
+    </AuthContext.Provider>
+  );
+}
+
+export function useAuth() {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error("useAuth must be used within an AuthProvider");
+  }
+  return context;
+}
@@ -0,0 +1,105 @@
+import { createContext, useContext, useEffect, useState, ReactNode } from "react";
+
+// As many listings as the compare page lays out side by side
+export const MAX_COMPARED = 4;
+
+const STORAGE_KEY = "compare-tray";
+
+// A listing picked for comparison, with enough to show it in the tray
+export interface CompareEntry {
+  id: string;
+  title: string;
+}
+
+// The place the last search was near, which compared distances are measured from
+export interface CompareOrigin {
+  name: string;
+  coordinates: { lat: number; lng: number };
+}
+
+interface CompareState {
+  entries: CompareEntry[];
+  origin: CompareOrigin | null;
+}
+
+interface CompareContextValue extends CompareState {
+  isComparing: (id: string) => boolean;
+  isFull: boolean;
+  toggle: (entry: CompareEntry) => void;
+  remove: (id: string) => void;
+  clear: () => void;
+  setOrigin: (origin: CompareOrigin | null) => void;
+  compareUrl: () => string;
+}
+
+const CompareContext = createContext<CompareContextValue | null>(null);
+
+// Kept for the browser tab, so the tray survives opening the compare page and reloading
+function loadState(): CompareState {
+  try {
+    const saved = JSON.parse(sessionStorage.getItem(STORAGE_KEY) ?? "null");
+    if (saved && Array.isArray(saved.entries)) {
+      return { entries: saved.entries.slice(0, MAX_COMPARED), origin: saved.origin ?? null };
+    }
+  } catch {
+    // Unreadable or unavailable storage starts an empty tray
+  }
+  return { entries: [], origin: null };
+}
+
+export function CompareProvider({ children }: { children: ReactNode }) {
+  const [state, setState] = useState<CompareState>(loadState);
+
+  useEffect(() => {
+    try {
+      sessionStorage.setItem(STORAGE_KEY, JSON.stringify(state));
+    } catch {
+      // Storage may be full or disabled; the tray still works for this page
+    }
+  }, [state]);
+
+  const isComparing = (id: string) => state.entries.some(entry => entry.id === id);
+  const isFull = state.entries.length >= MAX_COMPARED;
+
+  const toggle = (entry: CompareEntry) => setState(current => {
+    if (current.entries.some(e => e.id === entry.id)) {
+      return { ...current, entries: current.entries.filter(e => e.id !== entry.id) };
+    }
+    if (current.entries.length >= MAX_COMPARED) return current;
+    return { ...current, entries: [...current.entries, entry] };
+  });
+
+  const remove = (id: string) => setState(current => ({
+    ...current,
+    entries: current.entries.filter(entry => entry.id !== id)
+  }));
+
+  const clear = () => setState(current => ({ ...current, entries: [] }));
+
+  const setOrigin = (origin: CompareOrigin | null) => setState(current => ({ ...current, origin }));
+
+  const compareUrl = () => {
+    const params = new URLSearchParams({ ids: state.entries.map(entry => entry.id).join(',') });
+    if (state.origin) {
+      params.set('near', `${state.origin.coordinates.lat},${state.origin.coordinates.lng}`);
+      params.set('place', state.origin.name);
+    }
+    return `/compare?${params}`;
+  };
+
+  return (
+    <CompareContext.Provider
+      value={{ ...state, isComparing, isFull, toggle, remove, clear, setOrigin, compareUrl }}
+    >
+      {children}
+    </CompareContext.Provider>
+  );
+}
+
+export function useCompare() {
+  const context = useContext(CompareContext);
+  if (!context) {
+    throw new Error("useCompare must be used within a CompareProvider");
+  }
+  return context;
+}
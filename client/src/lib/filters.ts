@@ -0,0 +1,44 @@
+import { FilterOptions, FilterState, SavedFilters } from "./types";
+
+const LIST_FILTERS = ['type', 'style', 'location', 'view', 'furnishing'] as const;
+const RANGE_FILTERS = ['bedrooms', 'bathrooms', 'price'] as const;
+
+/**
+ * Filters that let everything through: no values picked, ranges spanning all listings
+ */
+export function defaultFilters(options: FilterOptions): FilterState {
+  return {
+    type: [],
+    style: [],
+    location: [],
+    bedrooms: [options.bedrooms.min, options.bedrooms.max],
+    bathrooms: [options.bathrooms.min, options.bathrooms.max],
+    price: [options.price.min, options.price.max],
+    view: [],
+    furnishing: []
+  };
+}
+
+/**
+ * The filters that actually narrow a search: picked values, and ranges narrower than
+ * the current listings span. Saved searches store only these, so listings added later
+ * outside that span still match, and search requests send only these
+ */
+export function toSavedFilters(filters: FilterState, options: FilterOptions): SavedFilters {
+  const saved: SavedFilters = {};
+  for (const key of LIST_FILTERS) {
+    if (filters[key].length > 0) saved[key] = filters[key];
+  }
+  for (const key of RANGE_FILTERS) {
+    const [min, max] = filters[key];
+    if (min > options[key].min || max < options[key].max) saved[key] = [min, max];
+  }
+  return saved;
+}
+
+/**
+ * Filter state for a saved search, with defaults for whatever it didn't save
+ */
+export function fromSavedFilters(saved: SavedFilters | null, options: FilterOptions): FilterState {
+  return { ...defaultFilters(options), ...saved };
+}
@@ -0,0 +1,95 @@
+// Web Mercator helpers for the results map, in the same pixel space as XYZ tiles
+
+export const TILE_SIZE = 256;
+export const MIN_ZOOM = 5;
+export const MAX_ZOOM = 17;
+
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+// Mercator is undefined at the poles, so latitudes are clamped like every tile server does
+const MAX_LATITUDE = 85.05112878;
+
+/**
+ * Position of a coordinate in pixels across the whole world at a zoom level
+ */
+export function project({ lat, lng }: LatLng, zoom: number): Point {
+  const size = TILE_SIZE * Math.pow(2, zoom);
+  const clamped = Math.max(-MAX_LATITUDE, Math.min(MAX_LATITUDE, lat));
+  const sin = Math.sin(clamped * Math.PI / 180);
+  return {
+    x: (lng + 180) / 360 * size,
+    y: (0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI)) * size
+  };
+}
+
+/**
+ * Coordinate at a world pixel position, the inverse of project()
+ */
+export function unproject({ x, y }: Point, zoom: number): LatLng {
+  const size = TILE_SIZE * Math.pow(2, zoom);
+  const n = Math.PI - 2 * Math.PI * y / size;
+  return {
+    lat: 180 / Math.PI * Math.atan(Math.sinh(n)),
+    lng: x / size * 360 - 180
+  };
+}
+
+/**
+ * Centre and the largest whole zoom level showing every coordinate in a viewport
+ */
+export function fitBounds(points: LatLng[], width: number, height: number, padding = 40): { center: LatLng; zoom: number } {
+  const lats = points.map(p => p.lat);
+  const lngs = points.map(p => p.lng);
+  const southWest = { lat: Math.min(...lats), lng: Math.min(...lngs) };
+  const northEast = { lat: Math.max(...lats), lng: Math.max(...lngs) };
+  const center = unproject(midpoint(project(southWest, 0), project(northEast, 0)), 0);
+
+  let zoom = MAX_ZOOM;
+  while (zoom > MIN_ZOOM) {
+    const sw = project(southWest, zoom);
+    const ne = project(northEast, zoom);
+    if (ne.x - sw.x <= width - 2 * padding && sw.y - ne.y <= height - 2 * padding) break;
+    zoom--;
+  }
+  return { center, zoom };
+}
+
+export interface Cluster<T> {
+  items: T[];
+  position: Point; // World pixels at the zoom the cluster was built for
+}
+
+/**
+ * Group points falling in the same grid cell of cellSize screen pixels, placing
+ * each group at the mean position of its members
+ */
+export function clusterPoints<T>(items: T[], getCoordinates: (item: T) => LatLng, zoom: number, cellSize = 48): Cluster<T>[] {
+  const cells = new Map<string, { items: T[]; x: number; y: number }>();
+
+  items.forEach(item => {
+    const { x, y } = project(getCoordinates(item), zoom);
+    const key = `${Math.floor(x / cellSize)}:${Math.floor(y / cellSize)}`;
+    const cell = cells.get(key) ?? { items: [], x: 0, y: 0 };
+    cell.items.push(item);
+    cell.x += x;
+    cell.y += y;
+    cells.set(key, cell);
+  });
+
+  return Array.from(cells.values()).map(cell => ({
+    items: cell.items,
+    position: { x: cell.x / cell.items.length, y: cell.y / cell.items.length }
+  }));
+}
+
+function midpoint(a: Point, b: Point): Point {
+  return { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 };
+}
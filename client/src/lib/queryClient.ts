@@ -3,7 +3,14 @@ import { QueryClient, QueryFunction } from "@tanstack/react-query";
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
     const text = (await res.text()) || res.statusText;
-    throw new Error(`${res.status}: ${text}`);
+    // API errors are JSON with a message; show that rather than the raw body
+    let message = text;
+    try {
+      message = JSON.parse(text).message || text;
+    } catch {
+      // Not JSON, e.g. a proxy's error page
+    }
+    throw new Error(`${res.status}: ${message}`);
   }
 }
 
@@ -15,7 +22,7 @@ const getApiBaseUrl = () => {
 
 export async function apiRequest<T = any>(
   url: string,
-  options?: RequestInit,
+  options?: Omit<RequestInit, 'body'> & { body?: BodyInit | object }, // Objects are sent as JSON
   json: boolean = true
 ): Promise<T> {
   // Ensure URL is properly formatted with base URL
@@ -31,7 +38,7 @@ export async function apiRequest<T = any>(
       ...(data ? { "Content-Type": "application/json" } : {}),
       ...(options?.headers || {})
     },
-    body: data && typeof data !== 'string' ? JSON.stringify(data) : data,
+    body: (data && typeof data !== 'string' ? JSON.stringify(data) : data) as BodyInit | undefined,
     credentials: "include",
   });
 
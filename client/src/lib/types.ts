@@ -11,13 +11,48 @@ export interface PropertyListing {
   price: number;
   view: string;
   furnishing: string;
+  externalId?: string | null; // Listing id in the source feed
+  coordinates?: { lat: number; lng: number }; // Missing when the location couldn't be geocoded
+}
+
+// One boost considered when scoring a result
+export interface ScoreComponent {
+  key: string;
+  label: string;
+  value: number;   // Points earned
+  max: number;     // Points available
+  matched: boolean;
+}
+
+// How a result's score was built up
+export interface ScoreBreakdown {
+  retrieval: 'vector' | 'lexical' | 'hybrid';
+  similarity?: number;
+  lexicalScore?: number;
+  relevance: number;
+  components: ScoreComponent[];
+  total: number;
+  maxPossible: number;
+}
+
+// Closest station, school or park of a kind the query asked to be near
+export interface NearestPoi {
+  category: 'station' | 'school' | 'park';
+  label: string;         // What the query asked for, e.g. "tube station"
+  name: string;
+  distanceKm: number;
+  minutes: number;       // Travel time by the mode below
+  mode: 'walk' | 'cycle' | 'drive';
+  matched: boolean;      // Within the distance or time asked for
 }
 
 // Search result including match score
 export interface SearchResult extends PropertyListing {
-  score: number;
+  score: number; // Share of the available points earned, 0-100
   exactMatch?: boolean;
   distance?: number; // Distance in km from the search location
+  nearestPois?: NearestPoi[];
+  scoreBreakdown?: ScoreBreakdown;
 }
 
 // Filter state structure
@@ -44,7 +79,189 @@ export interface FilterOptions {
   furnishings: string[];
 }
 
+// Result orderings supported by the search API
+export type SortMode = 'relevance' | 'price_asc' | 'price_desc' | 'bedrooms' | 'distance' | 'newest';
+
+// Hard geographic constraints; listings without coordinates never match them
+export interface GeoFilter {
+  near?: { lat: number; lng: number; radiusKm: number }; // Results then report their distance from it
+  bbox?: [west: number, south: number, east: number, north: number];
+  polygon?: Array<[lng: number, lat: number]>;
+}
+
 // Search request payload
-export interface SearchRequest {
+export interface SearchRequest extends GeoFilter {
+  query: string;
+  filters?: Partial<FilterState>; // Only those narrowed from the defaults; applied server-side before results are truncated
+  limit?: number;        // Page size (default 20)
+  page?: number;         // 1-based page number
+  cursor?: string;       // nextCursor from a previous response, instead of page
+  sort?: SortMode;       // Default relevance; distance needs a location in the query or near
+  profile?: string;      // Ranking profile name (default "default")
+}
+
+// Inclusive numeric range parsed from a query
+export interface NumericRange {
+  min?: number;
+  max?: number;
+  target?: number;
+}
+
+// "Near a tube station", "10 minutes' walk from a school" and the like
+export interface PoiConstraint {
+  category: 'station' | 'school' | 'park';
+  label: string;
+  tags?: string[];
+  maxDistanceKm: number;
+  minutes?: number;
+  mode?: 'walk' | 'cycle' | 'drive';
+}
+
+// Constraints the server extracted from the query text
+export interface ParsedQuery {
+  query: string;
+  bedrooms?: NumericRange;
+  bathrooms?: NumericRange;
+  price?: NumericRange;
+  types: string[];
+  styles: string[];
+  views: string[];
+  furnishings: string[];
+  location?: {
+    name: string;
+    coordinates: { lat: number; lng: number };
+  };
+  pois: PoiConstraint[];
+  excluded: {
+    types: string[];
+    styles: string[];
+    views: string[];
+    furnishings: string[];
+  };
+}
+
+// How a search was answered; "fallback" means keyword matching only
+export type SearchMode = 'semantic' | 'fallback';
+
+// Search response payload
+export interface SearchResponse {
+  results: SearchResult[];
+  mode: SearchMode;
+  total: number;
+  page: number;
+  limit: number;
+  nextCursor: string | null;
+  constraints: {
+    parsed: ParsedQuery;
+    filters?: Partial<FilterState>;
+    geo?: GeoFilter;
+    sort: SortMode;
+    profile: string;
+  };
+}
+
+// Place label drawn on the results map
+export interface MapPlace {
+  name: string;
+  kind: string;
+  lat: number;
+  lng: number;
+}
+
+// Basemap for the results map from the API
+export interface MapBasemap {
+  places: MapPlace[];
+  tiles: { url: string; attribution: string; maxZoom: number } | null;
+}
+
+// The logged-in account, as returned by /api/auth/me
+export interface AuthUser {
+  id: number;
+  username: string;
+}
+
+// Username and password sent to log in or register
+export interface Credentials {
+  username: string;
+  password: string;
+}
+
+// Filters as saved with a search: only those narrower than the defaults
+export type SavedFilters = Partial<FilterState>;
+
+// A named query and filters the server re-runs against new listings
+export interface SavedSearch {
+  id: number;
+  name: string;
   query: string;
+  filters: SavedFilters | null;
+  alertsEnabled: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// A listing that newly matched one of the user's saved searches
+export interface SearchAlert {
+  id: number;
+  savedSearchId: number;
+  savedSearchName: string;
+  propertyId: number;
+  score: number;
+  createdAt: string;
+  readAt: string | null;
+  property: Pick<PropertyListing, 'title' | 'location' | 'price' | 'bedrooms' | 'type'> & { id: number };
+}
+
+// Alert inbox response
+export interface AlertInbox {
+  alerts: SearchAlert[];
+  unread: number;
+}
+
+// A listing as stored, with its numeric id, e.g. on a shortlist
+export type StoredListing = Omit<PropertyListing, 'id'> & { id: number };
+
+// A property on a shortlist, with the user's note and 1-5 rating
+export interface ShortlistItem {
+  id: number;
+  propertyId: number;
+  note: string | null;
+  rating: number | null;
+  createdAt: string;
+  updatedAt: string;
+  property: StoredListing;
+}
+
+// A named list of properties; shareToken is set while a read-only link is active
+export interface Shortlist {
+  id: number;
+  name: string;
+  shareToken: string | null;
+  createdAt: string;
+  updatedAt: string;
+  items: ShortlistItem[];
+}
+
+// A shortlist as seen through its share link
+export interface SharedShortlist {
+  name: string;
+  owner: string;
+  items: ShortlistItem[];
+}
+
+// A listing on the compare page, with figures worked out for the comparison
+export interface ComparedProperty extends StoredListing {
+  pricePerBedroom: number | null; // null for a listing with no bedrooms
+  distance?: number;              // km from the searched location, when one was given
+}
+
+// /api/property/compare response
+export interface PropertyComparison {
+  properties: ComparedProperty[];
+  similarity: number[][] | null; // Pairwise, 0-1; null when the listings couldn't be embedded
+}
+
+// A listing found like another from its embedding, for "more like this"
+export interface SimilarListing extends StoredListing {
+  similarity: number; // Cosine similarity, 0-1
 }
@@ -0,0 +1,214 @@
+import { useState, ReactNode } from "react";
+import { Link, useLocation, useSearch } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { ComparedProperty, PropertyComparison } from "@/lib/types";
+import { useCompare } from "@/hooks/use-compare";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
+import { ArrowLeft, X } from "lucide-react";
+
+// One attribute laid out across the compared listings
+interface CompareRow {
+  label: string;
+  value: (property: ComparedProperty) => string | number | null | undefined;
+  format?: (value: number) => string;
+  better?: 'lower' | 'higher'; // Numeric rows mark the best listing
+}
+
+const formatPrice = (value: number) => `£${value.toLocaleString('en-GB')}`;
+
+function buildRows(place: string | null, hasDistances: boolean): CompareRow[] {
+  const rows: CompareRow[] = [
+    { label: 'Price', value: p => p.price, format: formatPrice, better: 'lower' },
+    { label: 'Price per bedroom', value: p => p.pricePerBedroom, format: formatPrice, better: 'lower' },
+    { label: 'Bedrooms', value: p => p.bedrooms, better: 'higher' },
+    { label: 'Bathrooms', value: p => p.bathrooms, better: 'higher' },
+    { label: 'Type', value: p => p.type },
+    { label: 'Style', value: p => p.style },
+    { label: 'Location', value: p => p.location },
+    { label: 'View', value: p => p.view },
+    { label: 'Furnishing', value: p => p.furnishing }
+  ];
+  if (hasDistances) {
+    rows.push({
+      label: place ? `Distance to ${place}` : 'Distance',
+      value: p => p.distance,
+      format: km => `${km} km`,
+      better: 'lower'
+    });
+  }
+  return rows;
+}
+
+/**
+ * Listings from the compare tray side by side, with the rows where they differ highlighted
+ */
+export default function Compare() {
+  const search = new URLSearchParams(useSearch());
+  const [, navigate] = useLocation();
+  const { remove } = useCompare();
+  const [differencesOnly, setDifferencesOnly] = useState(false);
+
+  const ids = (search.get('ids') ?? '').split(',').filter(Boolean);
+  const near = search.get('near');
+  const place = search.get('place');
+
+  const params = new URLSearchParams({ ids: ids.join(',') });
+  if (near) params.set('near', near);
+
+  const { data, isLoading, error } = useQuery<PropertyComparison>({
+    queryKey: [`/api/property/compare?${params}`],
+    enabled: ids.length >= 2,
+    retry: false
+  });
+
+  // Drop a listing from both the page and the tray
+  const removeListing = (id: string) => {
+    remove(id);
+    const next = new URLSearchParams(search);
+    next.set('ids', ids.filter(other => other !== id).join(','));
+    navigate(`/compare?${next}`, { replace: true });
+  };
+
+  const properties = data?.properties ?? [];
+  const rows = buildRows(place, properties.some(p => p.distance !== undefined));
+
+  const renderRow = (row: CompareRow) => {
+    const values = properties.map(row.value);
+    const differs = new Set(values.map(String)).size > 1;
+    if (differencesOnly && !differs) return null;
+
+    const numbers = values.filter((v): v is number => typeof v === 'number');
+    const best = row.better && differs && numbers.length > 1
+      ? (row.better === 'lower' ? Math.min(...numbers) : Math.max(...numbers))
+      : undefined;
+
+    return (
+      <tr key={row.label} className={differs ? 'bg-amber-50' : undefined}>
+        <th scope="row" className="text-left font-medium text-gray-600 px-3 py-2 whitespace-nowrap">
+          {row.label}
+          {differs && <span className="ml-1 text-amber-600" title="These listings differ">•</span>}
+        </th>
+        {values.map((value, index) => {
+          let content: ReactNode = value ?? '—';
+          if (typeof value === 'number' && row.format) content = row.format(value);
+          return (
+            <td
+              key={properties[index].id}
+              className={`px-3 py-2 ${value === best ? 'font-semibold text-emerald-700' : 'text-gray-800'}`}
+            >
+              {content}
+            </td>
+          );
+        })}
+      </tr>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-4 md:p-6">
+      <div className="max-w-5xl mx-auto space-y-6">
+        <div className="flex flex-wrap justify-between items-center gap-2">
+          <div className="flex items-center gap-2">
+            <Link href="/" className="text-gray-500 hover:text-primary" aria-label="Back to search">
+              <ArrowLeft className="h-5 w-5" />
+            </Link>
+            <h1 className="font-heading text-xl md:text-2xl font-semibold text-gray-800">Compare listings</h1>
+          </div>
+          {properties.length > 0 && (
+            <div className="flex items-center gap-2">
+              <Switch id="differences-only" checked={differencesOnly} onCheckedChange={setDifferencesOnly} />
+              <Label htmlFor="differences-only">Only show differences</Label>
+            </div>
+          )}
+        </div>
+
+        {ids.length < 2 ? (
+          <p className="text-gray-500">Pick at least two listings from your search results to compare them.</p>
+        ) : isLoading ? null : error ? (
+          <p className="text-gray-500">{(error as Error).message.replace(/^\d+: /, '')}</p>
+        ) : (
+          <>
+            <section className="bg-white rounded-lg shadow-md overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="border-b">
+                    <th className="w-40" />
+                    {properties.map(property => (
+                      <th key={property.id} scope="col" className="text-left align-top px-3 py-3 min-w-[10rem]">
+                        <div className="flex items-start justify-between gap-1">
+                          <Link href={`/property/${property.id}`} className="font-heading font-semibold text-gray-800 hover:underline">
+                            {property.title}
+                          </Link>
+                          <button
+                            type="button"
+                            className="p-1 rounded-full hover:bg-gray-100 shrink-0"
+                            aria-label={`Stop comparing ${property.title}`}
+                            onClick={() => removeListing(property.id.toString())}
+                          >
+                            <X className="h-4 w-4 text-gray-500" />
+                          </button>
+                        </div>
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="divide-y">
+                  {rows.map(renderRow)}
+                  {!differencesOnly && (
+                    <tr>
+                      <th scope="row" className="text-left align-top font-medium text-gray-600 px-3 py-2">Description</th>
+                      {properties.map(property => (
+                        <td key={property.id} className="align-top px-3 py-2 text-gray-600">{property.description}</td>
+                      ))}
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            </section>
+
+            {data?.similarity && (
+              <section className="bg-white rounded-lg shadow-md p-5">
+                <h2 className="font-heading text-lg font-semibold text-gray-800">How alike they are</h2>
+                <p className="text-sm text-gray-500 mb-3">
+                  Semantic similarity of the listings' descriptions and attributes, from the search embeddings.
+                </p>
+                <table className="text-sm">
+                  <thead>
+                    <tr>
+                      <th />
+                      {properties.map((property, index) => (
+                        <th key={property.id} scope="col" className="px-3 py-1 font-medium text-gray-600" title={property.title}>
+                          {index + 1}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {properties.map((property, row) => (
+                      <tr key={property.id}>
+                        <th scope="row" className="text-left font-medium text-gray-600 pr-3 py-1 max-w-[16rem] truncate">
+                          {row + 1}. {property.title}
+                        </th>
+                        {data.similarity![row].map((score, column) => (
+                          <td
+                            key={column}
+                            className="px-3 py-1 text-center"
+                            // Darker for more alike pairs; a listing against itself is left blank
+                            style={row === column ? undefined : { backgroundColor: `rgba(16, 185, 129, ${Math.max(0, score) * 0.5})` }}
+                          >
+                            {row === column ? '—' : `${Math.round(score * 100)}%`}
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </section>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,9 +1,11 @@
 import { PropertySearch } from "@/components/PropertySearch";
+import { CompareTray } from "@/components/CompareTray";
 
 export default function Home() {
   return (
     <div className="min-h-screen bg-gray-50">
       <PropertySearch />
+      <CompareTray />
     </div>
   );
 }
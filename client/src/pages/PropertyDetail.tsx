@@ -0,0 +1,174 @@
+import { Link } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { SimilarListing, StoredListing } from "@/lib/types";
+import { useToast } from "@/hooks/use-toast";
+import { AccountMenu } from "@/components/AccountMenu";
+import { PropertyMap } from "@/components/PropertyMap";
+import { ShortlistButton } from "@/components/ShortlistButton";
+import { CompareButton } from "@/components/CompareButton";
+import { CompareTray } from "@/components/CompareTray";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { ArrowLeft, Brush, Building, CloudUpload, Hotel, ImageIcon, MapPin, Mountain, Sofa } from "lucide-react";
+
+interface PropertyDetailProps {
+  params: { id: string };
+}
+
+interface PropertyImage {
+  exists?: boolean;
+  filename: string | null;
+}
+
+const formatPrice = (price: number) => `£${price.toLocaleString('en-GB')}`;
+
+/**
+ * One listing in full, with its generated image, a map pin and listings like it
+ */
+export default function PropertyDetail({ params }: PropertyDetailProps) {
+  const { toast } = useToast();
+  const imageKey = [`/api/property/image/${params.id}`];
+
+  const { data: property, isLoading, error } = useQuery<StoredListing>({
+    queryKey: [`/api/property/${params.id}`],
+    retry: false
+  });
+
+  const { data: image } = useQuery<PropertyImage>({ queryKey: imageKey, enabled: !!property });
+
+  const { data: similar, isLoading: similarLoading } = useQuery<SimilarListing[]>({
+    queryKey: [`/api/property/${params.id}/similar`],
+    enabled: !!property,
+    retry: false
+  });
+
+  const { mutate: generateImage, isPending: isGenerating } = useMutation({
+    mutationFn: () => apiRequest<PropertyImage>(`/api/property/image/${params.id}`, { method: 'POST' }),
+    onSuccess: (generated) => queryClient.setQueryData(imageKey, generated),
+    onError: (error: Error) => {
+      toast({ title: "Couldn't generate an image", description: error.message, variant: "destructive" });
+    }
+  });
+
+  const header = (
+    <div className="flex justify-between items-center gap-2">
+      <Link href="/" className="flex items-center text-sm text-gray-500 hover:text-primary">
+        <ArrowLeft className="mr-1 h-4 w-4" />
+        Back to search
+      </Link>
+      <AccountMenu />
+    </div>
+  );
+
+  if (isLoading) {
+    return <div className="min-h-screen bg-gray-50 p-4 md:p-6"><div className="max-w-4xl mx-auto">{header}</div></div>;
+  }
+
+  if (error || !property) {
+    return (
+      <div className="min-h-screen bg-gray-50 p-4 md:p-6">
+        <div className="max-w-4xl mx-auto space-y-6">
+          {header}
+          <p className="text-gray-500">This listing doesn't exist, or has been removed.</p>
+        </div>
+      </div>
+    );
+  }
+
+  const id = property.id.toString();
+  const facts = [
+    { icon: MapPin, label: property.location },
+    { icon: Building, label: property.type },
+    { icon: Hotel, label: `${property.bedrooms} bed${property.bedrooms !== 1 ? 's' : ''}` },
+    { icon: CloudUpload, label: `${property.bathrooms} bath${property.bathrooms !== 1 ? 's' : ''}` },
+    { icon: Brush, label: property.style },
+    { icon: Mountain, label: `${property.view} view` },
+    { icon: Sofa, label: property.furnishing }
+  ];
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-4 md:p-6">
+      <div className="max-w-4xl mx-auto space-y-6">
+        {header}
+
+        <section className="bg-white rounded-lg shadow-md p-5 space-y-4">
+          <div className="flex flex-wrap justify-between items-start gap-2">
+            <div>
+              <h1 className="font-heading text-xl md:text-2xl font-semibold text-gray-800">{property.title}</h1>
+              <div className="text-2xl font-semibold text-primary mt-1">{formatPrice(property.price)}</div>
+            </div>
+            <div className="flex items-center gap-1">
+              <ShortlistButton propertyId={property.id} />
+              <CompareButton id={id} title={property.title} />
+            </div>
+          </div>
+
+          <div className="relative overflow-hidden rounded-lg bg-gray-100" style={{ height: '320px' }}>
+            {image?.filename ? (
+              <img src={`/generated-images/${image.filename}`} alt={property.title} className="w-full h-full object-cover" />
+            ) : (
+              <div className="w-full h-full flex flex-col items-center justify-center text-center">
+                <ImageIcon className="h-12 w-12 text-gray-400 mb-2" />
+                <span className="text-sm text-gray-500 mb-3">No image has been generated for this listing yet</span>
+                <Button variant="outline" size="sm" disabled={isGenerating} onClick={() => generateImage()}>
+                  {isGenerating ? 'Generating…' : 'Generate image'}
+                </Button>
+              </div>
+            )}
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            {facts.map(({ icon: Icon, label }) => (
+              <Badge key={label} variant="outline" className="bg-gray-100 text-gray-700 flex items-center gap-1">
+                <Icon className="h-3 w-3" />
+                {label}
+              </Badge>
+            ))}
+          </div>
+
+          <p className="text-gray-700 whitespace-pre-line">{property.description}</p>
+
+          {property.externalId && (
+            <p className="text-xs text-gray-400">Listing reference {property.externalId}</p>
+          )}
+        </section>
+
+        {property.coordinates ? (
+          <PropertyMap results={[{ ...property, id }]} />
+        ) : (
+          <p className="text-sm text-gray-500">This listing has no map location.</p>
+        )}
+
+        <section className="space-y-3">
+          <h2 className="font-heading text-lg font-semibold text-gray-800">More like this</h2>
+          {similarLoading ? null : !similar || similar.length === 0 ? (
+            <p className="text-sm text-gray-500">No similar listings found.</p>
+          ) : (
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+              {similar.map(listing => (
+                <Link
+                  key={listing.id}
+                  href={`/property/${listing.id}`}
+                  className="block bg-white rounded-lg shadow-md p-4 transition-all duration-200 hover:shadow-lg hover:-translate-y-1"
+                >
+                  <div className="flex justify-between items-start gap-2">
+                    <h3 className="font-semibold text-gray-800">{listing.title}</h3>
+                    <Badge variant="outline" className="bg-primary/10 text-primary border-primary/40 shrink-0">
+                      {Math.round(listing.similarity * 100)}%
+                    </Badge>
+                  </div>
+                  <div className="mt-1 text-sm text-gray-600">
+                    {listing.location} · {listing.bedrooms} bed {listing.type.toLowerCase()}
+                  </div>
+                  <div className="mt-2 font-semibold text-primary">{formatPrice(listing.price)}</div>
+                </Link>
+              ))}
+            </div>
+          )}
+        </section>
+      </div>
+      <CompareTray />
+    </div>
+  );
+}
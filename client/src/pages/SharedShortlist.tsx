@@ -0,0 +1,51 @@
+import { Link } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { SharedShortlist as SharedShortlistResponse } from "@/lib/types";
+import { ShortlistEntry } from "@/components/ShortlistEntry";
+import { ArrowLeft } from "lucide-react";
+
+interface SharedShortlistProps {
+  params: { token: string };
+}
+
+/**
+ * Read-only view of a shortlist opened from its share link; no login needed
+ */
+export default function SharedShortlist({ params }: SharedShortlistProps) {
+  const { data: list, isLoading, error } = useQuery<SharedShortlistResponse>({
+    queryKey: [`/api/shared/shortlists/${encodeURIComponent(params.token)}`],
+    retry: false
+  });
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-4 md:p-6">
+      <div className="max-w-4xl mx-auto space-y-6">
+        <div className="flex items-center gap-2">
+          <Link href="/" className="text-gray-500 hover:text-primary" aria-label="Back to search">
+            <ArrowLeft className="h-5 w-5" />
+          </Link>
+          <h1 className="font-heading text-xl md:text-2xl font-semibold text-gray-800">
+            {list ? list.name : 'Shared shortlist'}
+          </h1>
+        </div>
+
+        {isLoading ? null : error || !list ? (
+          <p className="text-gray-500">This shortlist isn't shared, or the link has been revoked.</p>
+        ) : (
+          <section className="bg-white rounded-lg shadow-md p-5">
+            <p className="text-sm text-gray-500 border-b pb-3">
+              Shared by {list.owner} · {list.items.length} propert{list.items.length === 1 ? 'y' : 'ies'}
+            </p>
+            {list.items.length === 0 ? (
+              <p className="pt-4 text-sm text-gray-400">Nothing on this list yet.</p>
+            ) : (
+              <ul className="divide-y">
+                {list.items.map(item => <ShortlistEntry key={item.id} item={item} />)}
+              </ul>
+            )}
+          </section>
+        )}
+      </div>
+    </div>
+  );
+}
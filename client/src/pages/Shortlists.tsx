@@ -0,0 +1,219 @@
+import { useState, FormEvent } from "react";
+import { Link } from "wouter";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Shortlist } from "@/lib/types";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { AccountMenu } from "@/components/AccountMenu";
+import { ShortlistEntry } from "@/components/ShortlistEntry";
+import { SHORTLISTS_KEY } from "@/components/ShortlistButton";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { ArrowLeft, Link2, Link2Off, Pencil, Plus, Trash2 } from "lucide-react";
+
+// Fields sent to change a shortlisted property
+interface ItemChanges {
+  note?: string | null;
+  rating?: number | null;
+}
+
+function shareUrl(token: string): string {
+  return `${window.location.origin}/shortlists/shared/${token}`;
+}
+
+export default function Shortlists() {
+  const { user, isLoading } = useAuth();
+  const { toast } = useToast();
+  // The list being renamed, or "new" while creating one
+  const [editing, setEditing] = useState<Shortlist | 'new' | null>(null);
+  const [name, setName] = useState("");
+
+  const { data: lists = [], isLoading: listsLoading } = useQuery<Shortlist[]>({
+    queryKey: [...SHORTLISTS_KEY, user?.id],
+    enabled: !!user
+  });
+
+  const onError = (error: Error) => {
+    toast({ title: "Couldn't update shortlist", description: error.message, variant: "destructive" });
+  };
+  const refresh = () => queryClient.invalidateQueries({ queryKey: SHORTLISTS_KEY });
+
+  const { mutate: saveList, isPending: isSaving } = useMutation({
+    mutationFn: ({ id, name }: { id?: number; name: string }) =>
+      apiRequest<Shortlist>(id ? `/api/shortlists/${id}` : '/api/shortlists', {
+        method: id ? 'PATCH' : 'POST',
+        body: { name }
+      }),
+    onSuccess: () => {
+      refresh();
+      setEditing(null);
+    },
+    onError
+  });
+
+  const { mutate: deleteList } = useMutation({
+    mutationFn: (id: number) => apiRequest(`/api/shortlists/${id}`, { method: 'DELETE' }, false),
+    onSuccess: refresh,
+    onError
+  });
+
+  const { mutate: updateItem } = useMutation({
+    mutationFn: ({ listId, propertyId, changes }: { listId: number; propertyId: number; changes: ItemChanges }) =>
+      apiRequest(`/api/shortlists/${listId}/items/${propertyId}`, { method: 'PATCH', body: changes }),
+    onSuccess: refresh,
+    onError
+  });
+
+  const { mutate: removeItem } = useMutation({
+    mutationFn: ({ listId, propertyId }: { listId: number; propertyId: number }) =>
+      apiRequest(`/api/shortlists/${listId}/items/${propertyId}`, { method: 'DELETE' }, false),
+    onSuccess: refresh,
+    onError
+  });
+
+  const { mutate: share } = useMutation({
+    mutationFn: (id: number) => apiRequest<{ shareToken: string }>(`/api/shortlists/${id}/share`, { method: 'POST' }),
+    onSuccess: async ({ shareToken }) => {
+      refresh();
+      await copyLink(shareToken);
+    },
+    onError
+  });
+
+  const { mutate: unshare } = useMutation({
+    mutationFn: (id: number) => apiRequest(`/api/shortlists/${id}/share`, { method: 'DELETE' }, false),
+    onSuccess: () => {
+      refresh();
+      toast({ title: "Share link revoked", description: "Anyone with the old link can no longer see this list." });
+    },
+    onError
+  });
+
+  const copyLink = async (token: string) => {
+    try {
+      await navigator.clipboard.writeText(shareUrl(token));
+      toast({ title: "Share link copied", description: "Anyone with the link can view this list, but not change it." });
+    } catch {
+      // Clipboard access can be refused; show the link instead
+      toast({ title: "Share link", description: shareUrl(token) });
+    }
+  };
+
+  const openEditor = (list: Shortlist | 'new') => {
+    setEditing(list);
+    setName(list === 'new' ? '' : list.name);
+  };
+
+  const submit = (event: FormEvent) => {
+    event.preventDefault();
+    if (!editing) return;
+    saveList({ id: editing === 'new' ? undefined : editing.id, name });
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 p-4 md:p-6">
+      <div className="max-w-4xl mx-auto space-y-6">
+        <div className="flex justify-between items-center gap-2">
+          <div className="flex items-center gap-2">
+            <Link href="/" className="text-gray-500 hover:text-primary" aria-label="Back to search">
+              <ArrowLeft className="h-5 w-5" />
+            </Link>
+            <h1 className="font-heading text-xl md:text-2xl font-semibold text-gray-800">My shortlists</h1>
+          </div>
+          <div className="flex items-center gap-2">
+            {user && (
+              <Button variant="outline" size="sm" className="flex items-center" onClick={() => openEditor('new')}>
+                <Plus className="mr-1 h-4 w-4" />
+                New list
+              </Button>
+            )}
+            <AccountMenu />
+          </div>
+        </div>
+
+        {!user ? (
+          !isLoading && <p className="text-gray-500">Log in to keep shortlists of the properties you like.</p>
+        ) : listsLoading ? null : lists.length === 0 ? (
+          <p className="text-gray-500">
+            No shortlists yet. Tap the heart on a search result to start one.
+          </p>
+        ) : (
+          lists.map(list => (
+            <section key={list.id} className="bg-white rounded-lg shadow-md p-5">
+              <div className="flex flex-wrap justify-between items-center gap-2 border-b pb-3">
+                <h2 className="font-heading text-lg font-semibold text-gray-800">
+                  {list.name}
+                  <span className="ml-2 text-sm font-normal text-gray-500">
+                    {list.items.length} propert{list.items.length === 1 ? 'y' : 'ies'}
+                  </span>
+                </h2>
+                <div className="flex items-center gap-1">
+                  <Button variant="ghost" size="sm" onClick={() => list.shareToken ? copyLink(list.shareToken) : share(list.id)}>
+                    <Link2 className="mr-1 h-4 w-4" />
+                    {list.shareToken ? 'Copy link' : 'Share'}
+                  </Button>
+                  {list.shareToken && (
+                    <Button variant="ghost" size="sm" onClick={() => unshare(list.id)}>
+                      <Link2Off className="mr-1 h-4 w-4" />
+                      Stop sharing
+                    </Button>
+                  )}
+                  <Button variant="ghost" size="icon" aria-label={`Rename ${list.name}`} onClick={() => openEditor(list)}>
+                    <Pencil className="h-4 w-4" />
+                  </Button>
+                  <Button variant="ghost" size="icon" aria-label={`Delete ${list.name}`} onClick={() => deleteList(list.id)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+
+              {list.items.length === 0 ? (
+                <p className="pt-4 text-sm text-gray-400">Nothing on this list yet.</p>
+              ) : (
+                <ul className="divide-y">
+                  {list.items.map(item => (
+                    <ShortlistEntry
+                      key={item.id}
+                      item={item}
+                      onRate={rating => updateItem({ listId: list.id, propertyId: item.propertyId, changes: { rating } })}
+                      onNoteChange={note => updateItem({ listId: list.id, propertyId: item.propertyId, changes: { note } })}
+                      onRemove={() => removeItem({ listId: list.id, propertyId: item.propertyId })}
+                    />
+                  ))}
+                </ul>
+              )}
+            </section>
+          ))
+        )}
+      </div>
+
+      <Dialog open={editing !== null} onOpenChange={open => !open && setEditing(null)}>
+        <DialogContent className="sm:max-w-sm">
+          <DialogHeader>
+            <DialogTitle>{editing === 'new' ? 'New shortlist' : 'Rename shortlist'}</DialogTitle>
+          </DialogHeader>
+          <form onSubmit={submit} className="space-y-4">
+            <div className="space-y-1">
+              <Label htmlFor="shortlist-name">Name</Label>
+              <Input
+                id="shortlist-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                maxLength={100}
+                required
+              />
+            </div>
+            <DialogFooter>
+              <Button type="submit" disabled={isSaving}>
+                {editing === 'new' ? 'Create' : 'Rename'}
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,32 @@
+CREATE TABLE "property_embeddings" (
+	"property_id" integer PRIMARY KEY NOT NULL,
+	"model" text NOT NULL,
+	"dimension" integer NOT NULL,
+	"embedding" real[] NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "property_listings" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"title" text NOT NULL,
+	"description" text NOT NULL,
+	"location" text NOT NULL,
+	"type" text NOT NULL,
+	"style" text NOT NULL,
+	"bedrooms" integer NOT NULL,
+	"bathrooms" integer NOT NULL,
+	"price" integer NOT NULL,
+	"view" text NOT NULL,
+	"furnishing" text NOT NULL,
+	"embedding" text,
+	"latitude" double precision,
+	"longitude" double precision
+);
+--> statement-breakpoint
+CREATE TABLE "users" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"username" text NOT NULL,
+	"password" text NOT NULL,
+	CONSTRAINT "users_username_unique" UNIQUE("username")
+);
+--> statement-breakpoint
+ALTER TABLE "property_embeddings" ADD CONSTRAINT "property_embeddings_property_id_property_listings_id_fk" FOREIGN KEY ("property_id") REFERENCES "public"."property_listings"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
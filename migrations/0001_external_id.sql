@@ -0,0 +1,2 @@
+ALTER TABLE "property_listings" ADD COLUMN "external_id" text;--> statement-breakpoint
+ALTER TABLE "property_listings" ADD CONSTRAINT "property_listings_external_id_unique" UNIQUE("external_id");
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE "property_embeddings" ADD COLUMN "text_hash" text;
\ No newline at end of file
@@ -0,0 +1,24 @@
+CREATE TABLE "shortlist_items" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"shortlist_id" integer NOT NULL,
+	"property_id" integer NOT NULL,
+	"note" text,
+	"rating" integer,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "shortlist_items_list_property_unique" UNIQUE("shortlist_id","property_id")
+);
+--> statement-breakpoint
+CREATE TABLE "shortlists" (
+	"id" serial PRIMARY KEY NOT NULL,
+	"user_id" integer NOT NULL,
+	"name" text NOT NULL,
+	"share_token" text,
+	"created_at" timestamp with time zone DEFAULT now() NOT NULL,
+	"updated_at" timestamp with time zone DEFAULT now() NOT NULL,
+	CONSTRAINT "shortlists_share_token_unique" UNIQUE("share_token")
+);
+--> statement-breakpoint
+ALTER TABLE "shortlist_items" ADD CONSTRAINT "shortlist_items_shortlist_id_shortlists_id_fk" FOREIGN KEY ("shortlist_id") REFERENCES "public"."shortlists"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "shortlist_items" ADD CONSTRAINT "shortlist_items_property_id_property_listings_id_fk" FOREIGN KEY ("property_id") REFERENCES "public"."property_listings"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "shortlists" ADD CONSTRAINT "shortlists_user_id_users_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
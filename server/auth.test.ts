@@ -0,0 +1,73 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import type { NextFunction, Request, Response } from 'express';
+import { hashPassword, requireAdmin, requireAuth, verifyPassword } from './auth';
+
+// A request with or without a logged-in user, and a response recording what was sent
+function call(guard: typeof requireAuth, username?: string) {
+  const req = {
+    isAuthenticated: () => username !== undefined,
+    user: username !== undefined ? { id: 1, username } : undefined
+  } as unknown as Request;
+  const res = {
+    statusCode: 200,
+    body: undefined as unknown,
+    status(code: number) {
+      this.statusCode = code;
+      return this;
+    },
+    json(body: unknown) {
+      this.body = body;
+      return this;
+    }
+  };
+  const next = vi.fn() as NextFunction;
+
+  guard(req, res as unknown as Response, next);
+  return { status: res.statusCode, body: res.body, passed: (next as ReturnType<typeof vi.fn>).mock.calls.length === 1 };
+}
+
+describe('requireAuth', () => {
+  it('rejects a request without a session', () => {
+    expect(call(requireAuth)).toMatchObject({ status: 401, passed: false });
+  });
+
+  it('passes any logged-in user', () => {
+    expect(call(requireAuth, 'buyer')).toMatchObject({ passed: true });
+  });
+});
+
+describe('requireAdmin', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('rejects a request without a session', () => {
+    vi.stubEnv('ADMIN_USERNAMES', 'alice');
+    expect(call(requireAdmin)).toMatchObject({ status: 401, passed: false });
+  });
+
+  it('rejects a logged-in user who is not an admin', () => {
+    vi.stubEnv('ADMIN_USERNAMES', 'alice, bob');
+    expect(call(requireAdmin, 'mallory')).toMatchObject({ status: 403, passed: false });
+  });
+
+  it('passes the users named in ADMIN_USERNAMES', () => {
+    vi.stubEnv('ADMIN_USERNAMES', 'alice, bob');
+    expect(call(requireAdmin, 'bob')).toMatchObject({ passed: true });
+  });
+
+  it('rejects everyone when no admins are configured', () => {
+    vi.stubEnv('ADMIN_USERNAMES', '');
+    expect(call(requireAdmin, 'alice')).toMatchObject({ status: 403, passed: false });
+  });
+});
+
+describe('password hashing', () => {
+  it('verifies the password it hashed and nothing else', async () => {
+    const stored = await hashPassword('correct horse');
+
+    expect(await verifyPassword('correct horse', stored)).toBe(true);
+    expect(await verifyPassword('wrong horse', stored)).toBe(false);
+    expect(await verifyPassword('correct horse', 'not-a-hash')).toBe(false);
+  });
+});
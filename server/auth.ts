@@ -0,0 +1,138 @@
+import { randomBytes, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+import type { Express, NextFunction, Request, Response } from "express";
+import session from "express-session";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import type { PublicUser, User as StoredUser } from "@shared/schema";
+import { storage } from "./storage";
+
+declare global {
+  namespace Express {
+    // What passport puts on req.user: the account without its password hash
+    interface User extends PublicUser {}
+  }
+}
+
+const scryptAsync = promisify(scrypt);
+
+const PASSWORD_KEY_LENGTH = 64;
+const SESSION_MAX_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+
+/**
+ * Hash a password with scrypt and a random salt, as "<hash>.<salt>" in hex
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const hash = (await scryptAsync(password, salt, PASSWORD_KEY_LENGTH)) as Buffer;
+  return `${hash.toString("hex")}.${salt}`;
+}
+
+/**
+ * Check a password against a stored hash in constant time
+ * Anything not in the hashPassword format never matches
+ */
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [hashHex, salt] = stored.split(".");
+  if (!hashHex || !salt) return false;
+
+  const expected = Buffer.from(hashHex, "hex");
+  if (expected.length !== PASSWORD_KEY_LENGTH) return false;
+
+  const actual = (await scryptAsync(password, salt, PASSWORD_KEY_LENGTH)) as Buffer;
+  return timingSafeEqual(expected, actual);
+}
+
+export function toPublicUser(user: StoredUser): PublicUser {
+  const { password: _password, ...publicUser } = user;
+  return publicUser;
+}
+
+/**
+ * Reject requests without a logged-in user
+ */
+export function requireAuth(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ message: "Log in to continue" });
+  }
+  next();
+}
+
+/**
+ * Usernames allowed to change listings and run admin jobs, from a comma-separated ADMIN_USERNAMES
+ */
+export function getAdminUsernames(): Set<string> {
+  return new Set((process.env.ADMIN_USERNAMES ?? "").split(",").map(name => name.trim()).filter(Boolean));
+}
+
+export function isAdmin(user: PublicUser): boolean {
+  return getAdminUsernames().has(user.username);
+}
+
+/**
+ * Reject requests unless the logged-in user is an admin
+ * Anyone can register, so a session alone doesn't allow changing listings
+ */
+export function requireAdmin(req: Request, res: Response, next: NextFunction) {
+  if (!req.isAuthenticated()) {
+    return res.status(401).json({ message: "Log in to continue" });
+  }
+  if (!isAdmin(req.user!)) {
+    return res.status(403).json({ message: "Only admins can do this" });
+  }
+  next();
+}
+
+/**
+ * Cookie sessions kept in the storage's session store, and passport with
+ * username and password login
+ */
+export function setupAuth(app: Express) {
+  const secret = process.env.SESSION_SECRET;
+  if (!secret) {
+    console.warn("SESSION_SECRET is not set; using a random secret, so sessions end when the server restarts");
+  }
+  if (getAdminUsernames().size === 0) {
+    console.warn("ADMIN_USERNAMES is not set; nobody can change listings or run imports and reindex jobs");
+  }
+
+  // Behind a proxy such as Replit's, trust it to say whether the request came over HTTPS
+  app.set("trust proxy", 1);
+  app.use(session({
+    secret: secret || randomBytes(32).toString("hex"),
+    store: storage.sessionStore,
+    resave: false,
+    saveUninitialized: false,
+    cookie: {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: "auto",
+      maxAge: SESSION_MAX_AGE_MS
+    }
+  }));
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.use(new LocalStrategy(async (username, password, done) => {
+    try {
+      const user = await storage.getUserByUsername(username.trim());
+      if (!user || !(await verifyPassword(password, user.password))) {
+        return done(null, false);
+      }
+      done(null, toPublicUser(user));
+    } catch (error) {
+      done(error);
+    }
+  }));
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: number, done) => {
+    try {
+      const user = await storage.getUser(id);
+      // A deleted account simply ends the session
+      done(null, user ? toPublicUser(user) : false);
+    } catch (error) {
+      done(error);
+    }
+  });
+}
@@ -0,0 +1,186 @@
+import fs from 'fs';
+import path from 'path';
+import pg from 'pg';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { PGlite } from '@electric-sql/pglite';
+import { PGLiteSocketServer } from '@electric-sql/pglite-socket';
+import { drizzle } from 'drizzle-orm/node-postgres';
+import { sql } from 'drizzle-orm';
+import * as schema from '@shared/schema';
+import type { InsertProperty } from '@shared/schema';
+import type { Database } from './db';
+import { DbStorage, seedPropertiesFromCsv } from './db-storage';
+import { PROPERTY_CSV_PATH } from './services/property-csv';
+
+const MIGRATIONS_DIR = path.resolve(__dirname, '../migrations');
+const TEST_PORT = 55432;
+
+// An in-process PostgreSQL, reached over a socket so DbStorage uses node-postgres as in production
+// It has a single session, so the pool holds one connection and transactions stay isolated
+let pglite: PGlite;
+let server: PGLiteSocketServer;
+let db: Database;
+
+beforeAll(async () => {
+  pglite = await PGlite.create();
+  for (const file of fs.readdirSync(MIGRATIONS_DIR).filter(name => name.endsWith('.sql')).sort()) {
+    await pglite.exec(fs.readFileSync(path.join(MIGRATIONS_DIR, file), 'utf8').replace(/--> statement-breakpoint/g, ''));
+  }
+
+  server = new PGLiteSocketServer({ db: pglite, port: TEST_PORT });
+  await server.start();
+  const pool = new pg.Pool({ connectionString: `postgres://postgres@127.0.0.1:${TEST_PORT}/postgres`, max: 1 });
+  db = drizzle(pool, { schema });
+}, 60_000);
+
+afterAll(async () => {
+  await db?.$client.end();
+  await server?.stop();
+  await pglite?.close();
+});
+
+function listing(overrides: Partial<InsertProperty> = {}): InsertProperty {
+  return {
+    title: 'Bright flat in Chelsea',
+    description: 'A modern flat with a park view',
+    type: 'Flat',
+    style: 'Modern',
+    location: 'Chelsea',
+    bedrooms: 2,
+    bathrooms: 1,
+    price: 650_000,
+    view: 'Park View',
+    furnishing: 'Furnished',
+    ...overrides
+  };
+}
+
+describe('DbStorage', () => {
+  let storage: DbStorage;
+
+  beforeEach(async () => {
+    await db.execute(sql`TRUNCATE users, property_listings RESTART IDENTITY CASCADE`);
+    storage = new DbStorage(db);
+  });
+
+  describe('listings', () => {
+    it('creates, reads, updates and deletes a listing', async () => {
+      const created = await storage.createProperty(listing({ externalId: 'feed-1' }));
+      expect(created.id).toBeGreaterThan(0);
+      expect(created.coordinates).toBeDefined();
+
+      expect(await storage.getPropertyById(created.id)).toMatchObject({ title: 'Bright flat in Chelsea', externalId: 'feed-1' });
+      expect((await storage.getPropertyByExternalId('feed-1'))?.id).toBe(created.id);
+
+      const updated = await storage.updateProperty(created.id, { price: 600_000 });
+      expect(updated).toMatchObject({ id: created.id, price: 600_000, coordinates: created.coordinates });
+      expect(await storage.updateProperty(created.id + 1, { price: 1 })).toBeUndefined();
+
+      expect(await storage.deleteProperty(created.id)).toBe(true);
+      expect(await storage.getPropertyById(created.id)).toBeUndefined();
+      expect(await storage.deleteProperty(created.id)).toBe(false);
+    });
+
+    it('geocodes a listing again only when its location changes', async () => {
+      const created = await storage.createProperty(listing({ coordinates: { lat: 51.5, lng: -0.1 } }));
+
+      expect((await storage.updateProperty(created.id, { price: 700_000 }))?.coordinates).toEqual({ lat: 51.5, lng: -0.1 });
+      expect((await storage.updateProperty(created.id, { location: 'Wimbledon' }))?.coordinates).not.toEqual({ lat: 51.5, lng: -0.1 });
+    });
+  });
+
+  describe('seeding', () => {
+    it('seeds an empty database from the bundled CSV once', async () => {
+      await storage.loadPropertyDataFromCSV();
+      const seeded = await storage.getAllProperties();
+      expect(seeded.length).toBeGreaterThan(0);
+
+      // Seeding again upserts the same rows by id
+      await seedPropertiesFromCsv(db, PROPERTY_CSV_PATH);
+      await new DbStorage(db).loadPropertyDataFromCSV();
+      expect(await storage.getAllProperties()).toHaveLength(seeded.length);
+    });
+
+    it('gives listings created after seeding ids past the seeded ones', async () => {
+      await seedPropertiesFromCsv(db, PROPERTY_CSV_PATH);
+      const maxId = Math.max(...(await storage.getAllProperties()).map(p => p.id));
+
+      expect((await storage.createProperty(listing())).id).toBeGreaterThan(maxId);
+    });
+  });
+
+  describe('imports', () => {
+    it('creates and updates listings together', async () => {
+      const existing = await storage.createProperty(listing({ externalId: 'feed-1' }));
+      const saved = await storage.importProperties([
+        { id: existing.id, property: listing({ externalId: 'feed-1', price: 1 }) },
+        { property: listing({ externalId: 'feed-2' }) }
+      ]);
+
+      expect(saved.map(p => p.externalId)).toEqual(['feed-1', 'feed-2']);
+      expect((await storage.getPropertyById(existing.id))?.price).toBe(1);
+    });
+
+    it('keeps none of the writes when one fails', async () => {
+      const existing = await storage.createProperty(listing({ externalId: 'feed-1' }));
+
+      await expect(storage.importProperties([
+        { id: existing.id, property: listing({ externalId: 'feed-1', price: 1 }) },
+        { property: listing({ externalId: 'feed-2' }) },
+        { property: listing({ externalId: 'feed-2' }) }
+      ])).rejects.toThrow();
+
+      expect((await storage.getPropertyById(existing.id))?.price).toBe(650_000);
+      expect(await storage.getPropertyByExternalId('feed-2')).toBeUndefined();
+    });
+  });
+
+  describe('deleting a listing', () => {
+    it('removes its embedding', async () => {
+      const property = await storage.createProperty(listing());
+      await storage.savePropertyEmbeddings([{ id: property.id.toString(), embedding: [0.1, 0.2], model: 'test', dimension: 2 }]);
+      expect(await storage.getPropertyEmbeddings([property.id.toString()])).toHaveLength(1);
+
+      await storage.deleteProperty(property.id);
+      expect(await storage.getPropertyEmbeddings([property.id.toString()])).toEqual([]);
+    });
+
+    it('removes it from shortlists and alert inboxes', async () => {
+      const user = await storage.createUser({ username: 'buyer', password: 'hash' });
+      const kept = await storage.createProperty(listing());
+      const withdrawn = await storage.createProperty(listing());
+
+      const list = await storage.createShortlist({ userId: user.id, name: 'Chelsea' });
+      await storage.saveShortlistItem({ shortlistId: list.id, propertyId: kept.id });
+      await storage.saveShortlistItem({ shortlistId: list.id, propertyId: withdrawn.id });
+
+      const search = await storage.createSavedSearch({ userId: user.id, name: 'Flats', query: 'flat in Chelsea', alertsEnabled: true });
+      await storage.addSearchAlerts([kept, withdrawn].map(p => ({ userId: user.id, savedSearchId: search.id, propertyId: p.id, score: 50 })));
+
+      await storage.deleteProperty(withdrawn.id);
+
+      expect((await storage.getShortlist(list.id))?.items.map(item => item.propertyId)).toEqual([kept.id]);
+      expect((await storage.getSearchAlerts(user.id)).map(alert => alert.propertyId)).toEqual([kept.id]);
+    });
+  });
+
+  describe('shortlists', () => {
+    it('creates, renames, fills and deletes a shortlist', async () => {
+      const user = await storage.createUser({ username: 'buyer', password: 'hash' });
+      const property = await storage.createProperty(listing());
+
+      const list = await storage.createShortlist({ userId: user.id, name: 'Chelsea' });
+      expect((await storage.updateShortlist(list.id, { name: 'Chelsea flats' }))?.name).toBe('Chelsea flats');
+
+      await storage.saveShortlistItem({ shortlistId: list.id, propertyId: property.id, note: 'Viewing Saturday' });
+      // Saving it again updates the note rather than adding a second item
+      await storage.saveShortlistItem({ shortlistId: list.id, propertyId: property.id, note: 'Viewing Sunday' });
+      expect((await storage.getShortlists(user.id))[0].items).toEqual([
+        expect.objectContaining({ propertyId: property.id, note: 'Viewing Sunday', property: expect.objectContaining({ id: property.id }) })
+      ]);
+
+      expect(await storage.deleteShortlist(list.id)).toBe(true);
+      expect(await storage.getShortlist(list.id)).toBeUndefined();
+    });
+  });
+});
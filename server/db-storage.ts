@@ -0,0 +1,670 @@
+import { and, count, desc, eq, inArray, isNull, max, min, sql } from 'drizzle-orm';
+import type { AnyPgColumn } from 'drizzle-orm/pg-core';
+import session from 'express-session';
+import connectPg from 'connect-pg-simple';
+import {
+  users,
+  propertyListings,
+  propertyEmbeddings,
+  savedSearches,
+  searchAlerts,
+  shortlists,
+  shortlistItems,
+  Property,
+  PropertyRow,
+  FilterOptions,
+  PropertyEmbedding,
+  User,
+  InsertUser,
+  InsertProperty,
+  PropertyWithCoordinates,
+  GeoFilter,
+  SavedSearch,
+  InsertSavedSearch,
+  SearchAlert,
+  InsertSearchAlert,
+  SearchAlertWithListing,
+  Shortlist,
+  InsertShortlist,
+  ShortlistItem,
+  InsertShortlistItem,
+  ShortlistItemUpdate,
+  ShortlistWithItems
+} from '@shared/schema';
+import type { Database } from './db';
+import type { IStorage, PropertyWrite, SearchAlertQuery } from './storage';
+import { embeddingProvider, getEmbedding } from './services/embeddings';
+import { OPENAI_EMBEDDING_MODEL } from './services/openai';
+import { vectorStore } from './services/vector-store';
+import { Bm25Index, type Bm25SearchResult } from './services/bm25';
+import { SpatialIndex } from './services/spatial-index';
+import { geocodeLocation } from './services/geocoding';
+import { PROPERTY_CSV_PATH, readPropertyCsv } from './services/property-csv';
+import { getPropertyEmbeddingText, getPropertyKeywordFields, getPropertyTextHash } from './services/property-text';
+
+const SEED_BATCH_SIZE = 100;
+
+const PostgresSessionStore = connectPg(session);
+
+/**
+ * PostgreSQL storage on the Drizzle tables in shared/schema.ts
+ * Listings and their embeddings are persisted; the keyword and spatial indexes
+ * are rebuilt in memory from the database when the server starts
+ */
+export class DbStorage implements IStorage {
+  sessionStore: session.Store;
+  private db: Database;
+  private keywordIndex: Bm25Index;
+  private spatialIndex: SpatialIndex;
+  private loaded: boolean;
+
+  constructor(db: Database) {
+    this.db = db;
+    // Sessions share the listings' connection pool; connect-pg-simple creates its "session" table on first use
+    this.sessionStore = new PostgresSessionStore({ pool: db.$client, createTableIfMissing: true });
+    this.keywordIndex = new Bm25Index();
+    this.spatialIndex = new SpatialIndex();
+    this.loaded = false;
+  }
+
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    return user;
+  }
+
+  async getSavedSearches(userId: number): Promise<SavedSearch[]> {
+    return this.db.select().from(savedSearches)
+      .where(eq(savedSearches.userId, userId))
+      .orderBy(savedSearches.id);
+  }
+
+  async getSavedSearch(id: number): Promise<SavedSearch | undefined> {
+    if (!Number.isInteger(id)) return undefined;
+    const [search] = await this.db.select().from(savedSearches).where(eq(savedSearches.id, id));
+    return search;
+  }
+
+  async getAlertingSavedSearches(): Promise<SavedSearch[]> {
+    return this.db.select().from(savedSearches).where(eq(savedSearches.alertsEnabled, true));
+  }
+
+  async createSavedSearch(search: InsertSavedSearch): Promise<SavedSearch> {
+    const [saved] = await this.db.insert(savedSearches).values(search).returning();
+    return saved;
+  }
+
+  async updateSavedSearch(id: number, updates: Partial<InsertSavedSearch>): Promise<SavedSearch | undefined> {
+    if (!Number.isInteger(id)) return undefined;
+    const [updated] = await this.db.update(savedSearches)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(savedSearches.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteSavedSearch(id: number): Promise<boolean> {
+    if (!Number.isInteger(id)) return false;
+
+    // Its alerts are removed by the foreign key cascade
+    const deleted = await this.db.delete(savedSearches)
+      .where(eq(savedSearches.id, id))
+      .returning({ id: savedSearches.id });
+    return deleted.length > 0;
+  }
+
+  async addSearchAlerts(alerts: InsertSearchAlert[]): Promise<SearchAlert[]> {
+    if (alerts.length === 0) return [];
+
+    // A listing that already alerted for a search stays a single inbox entry
+    return this.db.insert(searchAlerts)
+      .values(alerts)
+      .onConflictDoNothing({ target: [searchAlerts.savedSearchId, searchAlerts.propertyId] })
+      .returning();
+  }
+
+  async getSearchAlerts(userId: number, options: SearchAlertQuery = {}): Promise<SearchAlertWithListing[]> {
+    const conditions = [eq(searchAlerts.userId, userId)];
+    if (options.unreadOnly) conditions.push(isNull(searchAlerts.readAt));
+
+    const query = this.db
+      .select({
+        alert: searchAlerts,
+        savedSearchName: savedSearches.name,
+        property: {
+          id: propertyListings.id,
+          title: propertyListings.title,
+          location: propertyListings.location,
+          price: propertyListings.price,
+          bedrooms: propertyListings.bedrooms,
+          type: propertyListings.type
+        }
+      })
+      .from(searchAlerts)
+      .innerJoin(savedSearches, eq(searchAlerts.savedSearchId, savedSearches.id))
+      .innerJoin(propertyListings, eq(searchAlerts.propertyId, propertyListings.id))
+      .where(and(...conditions))
+      .orderBy(desc(searchAlerts.createdAt), desc(searchAlerts.id));
+
+    const rows = options.limit !== undefined ? await query.limit(options.limit) : await query;
+    return rows.map(({ alert, savedSearchName, property }) => ({ ...alert, savedSearchName, property }));
+  }
+
+  async markSearchAlertsRead(userId: number, ids?: number[]): Promise<number> {
+    const conditions = [eq(searchAlerts.userId, userId), isNull(searchAlerts.readAt)];
+    if (ids) {
+      if (ids.length === 0) return 0;
+      conditions.push(inArray(searchAlerts.id, ids));
+    }
+
+    const marked = await this.db.update(searchAlerts)
+      .set({ readAt: new Date() })
+      .where(and(...conditions))
+      .returning({ id: searchAlerts.id });
+    return marked.length;
+  }
+
+  async getShortlists(userId: number): Promise<ShortlistWithItems[]> {
+    const lists = await this.db.select().from(shortlists)
+      .where(eq(shortlists.userId, userId))
+      .orderBy(shortlists.id);
+    return this.withItems(lists);
+  }
+
+  async getShortlist(id: number): Promise<ShortlistWithItems | undefined> {
+    if (!Number.isInteger(id)) return undefined;
+    const [list] = await this.withItems(await this.db.select().from(shortlists).where(eq(shortlists.id, id)));
+    return list;
+  }
+
+  async getShortlistByShareToken(token: string): Promise<ShortlistWithItems | undefined> {
+    const [list] = await this.withItems(await this.db.select().from(shortlists).where(eq(shortlists.shareToken, token)));
+    return list;
+  }
+
+  async createShortlist(list: InsertShortlist): Promise<Shortlist> {
+    const [created] = await this.db.insert(shortlists).values(list).returning();
+    return created;
+  }
+
+  async updateShortlist(id: number, updates: Partial<InsertShortlist>): Promise<Shortlist | undefined> {
+    if (!Number.isInteger(id)) return undefined;
+    const [updated] = await this.db.update(shortlists)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(shortlists.id, id))
+      .returning();
+    return updated;
+  }
+
+  async deleteShortlist(id: number): Promise<boolean> {
+    if (!Number.isInteger(id)) return false;
+
+    // Its items are removed by the foreign key cascade
+    const deleted = await this.db.delete(shortlists)
+      .where(eq(shortlists.id, id))
+      .returning({ id: shortlists.id });
+    return deleted.length > 0;
+  }
+
+  async saveShortlistItem(item: InsertShortlistItem): Promise<ShortlistItem> {
+    // Adding a property that's already on the list only changes the note or rating given
+    const [saved] = await this.db.insert(shortlistItems)
+      .values(item)
+      .onConflictDoUpdate({
+        target: [shortlistItems.shortlistId, shortlistItems.propertyId],
+        set: { ...toItemChanges(item), updatedAt: new Date() }
+      })
+      .returning();
+    return saved;
+  }
+
+  async updateShortlistItem(shortlistId: number, propertyId: number, updates: ShortlistItemUpdate): Promise<ShortlistItem | undefined> {
+    if (!Number.isInteger(shortlistId) || !Number.isInteger(propertyId)) return undefined;
+    const [updated] = await this.db.update(shortlistItems)
+      .set({ ...toItemChanges(updates), updatedAt: new Date() })
+      .where(and(eq(shortlistItems.shortlistId, shortlistId), eq(shortlistItems.propertyId, propertyId)))
+      .returning();
+    return updated;
+  }
+
+  async deleteShortlistItem(shortlistId: number, propertyId: number): Promise<boolean> {
+    if (!Number.isInteger(shortlistId) || !Number.isInteger(propertyId)) return false;
+    const deleted = await this.db.delete(shortlistItems)
+      .where(and(eq(shortlistItems.shortlistId, shortlistId), eq(shortlistItems.propertyId, propertyId)))
+      .returning({ id: shortlistItems.id });
+    return deleted.length > 0;
+  }
+
+  /**
+   * Index the listings already in the database, seeding it from the CSV the first time
+   */
+  async loadPropertyDataFromCSV(): Promise<void> {
+    if (this.loaded) return;
+    this.loaded = true;
+
+    const [{ total }] = await this.db.select({ total: count() }).from(propertyListings);
+    if (total === 0) {
+      console.log(`Database has no listings, seeding from ${PROPERTY_CSV_PATH}`);
+      await seedPropertiesFromCsv(this.db, PROPERTY_CSV_PATH);
+    }
+
+    const rows = await this.db.select().from(propertyListings).orderBy(propertyListings.id);
+    const properties = rows.map(toProperty);
+    properties.forEach(property => this.indexProperty(property));
+    console.log(`Loaded ${properties.length} properties from the database`);
+  }
+
+  async getFilterOptions(): Promise<FilterOptions> {
+    const distinct = async (column: AnyPgColumn) => {
+      const rows = await this.db.selectDistinct({ value: column }).from(propertyListings);
+      return rows.map(row => String(row.value));
+    };
+
+    const [ranges] = await this.db.select({
+      minBedrooms: min(propertyListings.bedrooms),
+      maxBedrooms: max(propertyListings.bedrooms),
+      minBathrooms: min(propertyListings.bathrooms),
+      maxBathrooms: max(propertyListings.bathrooms),
+      minPrice: min(propertyListings.price),
+      maxPrice: max(propertyListings.price)
+    }).from(propertyListings);
+
+    return {
+      types: await distinct(propertyListings.type),
+      styles: await distinct(propertyListings.style),
+      locations: await distinct(propertyListings.location),
+      bedrooms: { min: ranges.minBedrooms ?? 0, max: ranges.maxBedrooms ?? 0 },
+      bathrooms: { min: ranges.minBathrooms ?? 0, max: ranges.maxBathrooms ?? 0 },
+      price: { min: ranges.minPrice ?? 0, max: ranges.maxPrice ?? 0 },
+      views: await distinct(propertyListings.view),
+      furnishings: await distinct(propertyListings.furnishing)
+    };
+  }
+
+  async getPropertyById(id: number): Promise<Property | undefined> {
+    if (!Number.isInteger(id)) return undefined;
+
+    const [row] = await this.db.select().from(propertyListings).where(eq(propertyListings.id, id));
+    return row ? toProperty(row) : undefined;
+  }
+
+  async getPropertyByExternalId(externalId: string): Promise<Property | undefined> {
+    const [row] = await this.db.select().from(propertyListings).where(eq(propertyListings.externalId, externalId));
+    return row ? toProperty(row) : undefined;
+  }
+
+  async getPropertiesByIds(ids: string[]): Promise<Property[]> {
+    const numericIds = ids.map(id => parseInt(id)).filter(id => Number.isInteger(id));
+    if (numericIds.length === 0) return [];
+
+    const rows = await this.db.select().from(propertyListings).where(inArray(propertyListings.id, numericIds));
+    const byId = new Map(rows.map(row => [row.id, toProperty(row)]));
+
+    // Keep the order of the requested ids, as search results depend on it
+    return numericIds
+      .map(id => byId.get(id))
+      .filter((p): p is PropertyWithCoordinates => p !== undefined);
+  }
+
+  async getAllProperties(): Promise<Property[]> {
+    const rows = await this.db.select().from(propertyListings).orderBy(propertyListings.id);
+    return rows.map(toProperty);
+  }
+
+  async searchPropertiesByKeywords(query: string, topK: number = 20): Promise<Bm25SearchResult[]> {
+    return this.keywordIndex.search(query, topK);
+  }
+
+  async searchPropertiesByArea(area: GeoFilter): Promise<string[]> {
+    return this.spatialIndex.search(area);
+  }
+
+  async createProperty(insertProperty: InsertProperty): Promise<PropertyWithCoordinates> {
+    const [row] = await this.db.insert(propertyListings)
+      .values(await toNewRow(insertProperty))
+      .returning();
+    const property = toProperty(row);
+
+    this.indexProperty(property);
+    await this.indexPropertyEmbedding(property);
+    return property;
+  }
+
+  async updateProperty(id: number, updates: Partial<InsertProperty>): Promise<PropertyWithCoordinates | undefined> {
+    const existing = await this.getPropertyById(id);
+    if (!existing) return undefined;
+
+    const [row] = await this.db.update(propertyListings)
+      .set(await toUpdatedRow(existing, updates))
+      .where(eq(propertyListings.id, id))
+      .returning();
+    const property = toProperty(row);
+
+    this.indexProperty(property);
+
+    // Only re-embed when the embedded text changed, e.g. not for a price change alone
+    if (getPropertyEmbeddingText(property) !== getPropertyEmbeddingText(existing)) {
+      await this.indexPropertyEmbedding(property);
+    }
+    return property;
+  }
+
+  /**
+   * Create or update listings in one transaction, so a failed write leaves
+   * none of them stored
+   * Locations are geocoded before it begins, and the in-memory indexes and
+   * embeddings only change once it has committed
+   */
+  async importProperties(writes: PropertyWrite[]): Promise<PropertyWithCoordinates[]> {
+    const existing = new Map((await this.getPropertiesByIds(
+      writes.flatMap(write => write.id !== undefined ? [write.id.toString()] : [])
+    )).map(property => [property.id, property]));
+
+    const rows: Array<ReturnType<typeof toRow>> = [];
+    for (const write of writes) {
+      const current = write.id !== undefined ? existing.get(write.id) : undefined;
+      if (write.id !== undefined && !current) {
+        throw new Error(`Listing ${write.id} no longer exists`);
+      }
+      rows.push(current ? await toUpdatedRow(current, write.property) : await toNewRow(write.property));
+    }
+
+    const saved = await this.db.transaction(async tx => {
+      const written: PropertyWithCoordinates[] = [];
+      for (let i = 0; i < writes.length; i++) {
+        const id = writes[i].id;
+        const [row] = id === undefined
+          ? await tx.insert(propertyListings).values(rows[i]).returning()
+          : await tx.update(propertyListings).set(rows[i]).where(eq(propertyListings.id, id)).returning();
+        if (!row) {
+          throw new Error(`Listing ${id} no longer exists`);
+        }
+        written.push(toProperty(row));
+      }
+      return written;
+    });
+
+    for (let i = 0; i < saved.length; i++) {
+      const property = saved[i];
+      const previous = writes[i].id !== undefined ? existing.get(property.id) : undefined;
+      this.indexProperty(property);
+      if (!previous || getPropertyEmbeddingText(property) !== getPropertyEmbeddingText(previous)) {
+        await this.indexPropertyEmbedding(property);
+      }
+    }
+    return saved;
+  }
+
+  async deleteProperty(id: number): Promise<boolean> {
+    if (!Number.isInteger(id)) return false;
+
+    // Stored embeddings are removed by the foreign key cascade
+    const deleted = await this.db.delete(propertyListings)
+      .where(eq(propertyListings.id, id))
+      .returning({ id: propertyListings.id });
+    if (deleted.length === 0) return false;
+
+    const key = id.toString();
+    this.keywordIndex.remove(key);
+    this.spatialIndex.remove(key);
+
+    if (vectorStore.isAvailable()) {
+      try {
+        await vectorStore.delete([key]);
+      } catch (error) {
+        console.error(`Error deleting vector for property ${id} from ${vectorStore.name} vector store:`, error);
+      }
+    }
+    return true;
+  }
+
+  async getPropertyEmbeddings(ids: string[]): Promise<PropertyEmbedding[]> {
+    const numericIds = ids.map(id => parseInt(id)).filter(id => Number.isInteger(id));
+    if (numericIds.length === 0) return [];
+
+    const rows = await this.db.select().from(propertyEmbeddings)
+      .where(inArray(propertyEmbeddings.propertyId, numericIds));
+    return rows.map(toPropertyEmbedding);
+  }
+
+  async savePropertyEmbeddings(embeddings: PropertyEmbedding[]): Promise<void> {
+    if (embeddings.length === 0) return;
+
+    await this.db.insert(propertyEmbeddings)
+      .values(embeddings.map(toEmbeddingRow))
+      .onConflictDoUpdate({
+        target: propertyEmbeddings.propertyId,
+        set: {
+          model: sql`excluded.model`,
+          dimension: sql`excluded.dimension`,
+          embedding: sql`excluded.embedding`,
+          textHash: sql`excluded.text_hash`
+        }
+      });
+  }
+
+  async countPropertyEmbeddings(model: string): Promise<number> {
+    const [{ total }] = await this.db.select({ total: count() }).from(propertyEmbeddings)
+      .where(eq(propertyEmbeddings.model, model));
+    return total;
+  }
+
+  /**
+   * Attach each list's items and their listings, in the order they were added
+   */
+  private async withItems(lists: Shortlist[]): Promise<ShortlistWithItems[]> {
+    if (lists.length === 0) return [];
+
+    const rows = await this.db
+      .select({ item: shortlistItems, property: propertyListings })
+      .from(shortlistItems)
+      .innerJoin(propertyListings, eq(shortlistItems.propertyId, propertyListings.id))
+      .where(inArray(shortlistItems.shortlistId, lists.map(list => list.id)))
+      .orderBy(shortlistItems.id);
+
+    return lists.map(list => ({
+      ...list,
+      items: rows
+        .filter(({ item }) => item.shortlistId === list.id)
+        .map(({ item, property }) => ({ ...item, property: toProperty(property) }))
+    }));
+  }
+
+  /**
+   * Index a property's text for keyword search and its coordinates for area search
+   */
+  private indexProperty(property: PropertyWithCoordinates): void {
+    this.keywordIndex.add(property.id.toString(), getPropertyKeywordFields(property));
+    this.spatialIndex.add(property.id.toString(), property.coordinates);
+  }
+
+  /**
+   * Generate an embedding for a property with the active provider
+   * It is stored once its vector is upserted, so a failed upsert leaves the
+   * property to the next reindex job
+   * Returns null instead of throwing so one failure doesn't abort a batch
+   */
+  private async embedProperty(property: Property): Promise<PropertyEmbedding | null> {
+    try {
+      const embedding = await getEmbedding(getPropertyEmbeddingText(property));
+      return {
+        id: property.id.toString(),
+        embedding,
+        model: embeddingProvider.model,
+        dimension: embedding.length,
+        textHash: getPropertyTextHash(property)
+      };
+    } catch (error) {
+      console.error(`Error generating embedding for property ${property.id}: ${error}`);
+      return null;
+    }
+  }
+
+  /**
+   * Embed a single property and upsert it into the vector store
+   * Failures are logged; the property stays searchable by keyword
+   */
+  private async indexPropertyEmbedding(property: Property): Promise<void> {
+    if (!vectorStore.isAvailable() || !embeddingProvider.isAvailable()) return;
+
+    const propertyEmbedding = await this.embedProperty(property);
+    if (!propertyEmbedding) return;
+
+    try {
+      await vectorStore.upsert([propertyEmbedding]);
+      await this.savePropertyEmbeddings([propertyEmbedding]);
+    } catch (error) {
+      console.error(`Error upserting vector for property ${property.id} into ${vectorStore.name} vector store:`, error);
+    }
+  }
+}
+
+/**
+ * Insert or update the listings from a CSV file, keeping their ids
+ * Embeddings in the CSV are stored as OpenAI embeddings, as with MemStorage
+ * Returns the number of listings written
+ */
+export async function seedPropertiesFromCsv(db: Database, csvFilePath: string): Promise<number> {
+  const properties = readPropertyCsv(csvFilePath);
+
+  for (let i = 0; i < properties.length; i += SEED_BATCH_SIZE) {
+    const batch = properties.slice(i, i + SEED_BATCH_SIZE);
+
+    await db.insert(propertyListings)
+      .values(batch.map(property => toRow(property)))
+      .onConflictDoUpdate({
+        target: propertyListings.id,
+        set: {
+          title: sql`excluded.title`,
+          description: sql`excluded.description`,
+          location: sql`excluded.location`,
+          type: sql`excluded.type`,
+          style: sql`excluded.style`,
+          bedrooms: sql`excluded.bedrooms`,
+          bathrooms: sql`excluded.bathrooms`,
+          price: sql`excluded.price`,
+          view: sql`excluded.view`,
+          furnishing: sql`excluded.furnishing`,
+          embedding: sql`excluded.embedding`,
+          latitude: sql`excluded.latitude`,
+          longitude: sql`excluded.longitude`,
+          externalId: sql`excluded.external_id`
+        }
+      });
+
+    for (const property of batch) {
+      if (!property.embedding) continue;
+
+      try {
+        // CSV embeddings were produced by the original OpenAI pipeline
+        const embedding: number[] = JSON.parse(property.embedding);
+        await saveEmbedding(db, {
+          id: property.id.toString(),
+          embedding,
+          model: OPENAI_EMBEDDING_MODEL,
+          dimension: embedding.length,
+          textHash: getPropertyTextHash(property)
+        });
+      } catch (error) {
+        console.error(`Error parsing embedding for property ${property.id}: ${error}`);
+      }
+    }
+  }
+
+  // Explicit ids don't advance the serial sequence, so move it past them
+  await db.execute(sql`
+    SELECT setval(pg_get_serial_sequence('property_listings', 'id'), COALESCE(MAX(id), 0) + 1, false)
+    FROM property_listings
+  `);
+
+  console.log(`Seeded ${properties.length} properties from ${csvFilePath}`);
+  return properties.length;
+}
+
+async function saveEmbedding(db: Database, propertyEmbedding: PropertyEmbedding): Promise<void> {
+  const values = toEmbeddingRow(propertyEmbedding);
+  await db.insert(propertyEmbeddings)
+    .values(values)
+    .onConflictDoUpdate({ target: propertyEmbeddings.propertyId, set: values });
+}
+
+function toProperty(row: PropertyRow): PropertyWithCoordinates {
+  const { latitude, longitude, ...property } = row;
+  return latitude !== null && longitude !== null
+    ? { ...property, coordinates: { lat: latitude, lng: longitude } }
+    : property;
+}
+
+/**
+ * The note and rating fields actually given, so an update leaves the others alone
+ */
+function toItemChanges(updates: ShortlistItemUpdate): ShortlistItemUpdate {
+  return {
+    ...(updates.note !== undefined ? { note: updates.note } : {}),
+    ...(updates.rating !== undefined ? { rating: updates.rating } : {})
+  };
+}
+
+/**
+ * Columns of a new listing, geocoding its location unless coordinates are given
+ */
+async function toNewRow(insertProperty: InsertProperty) {
+  return toRow({
+    ...insertProperty,
+    embedding: null,
+    externalId: insertProperty.externalId ?? null,
+    coordinates: insertProperty.coordinates ?? await geocodeLocation(insertProperty.location)
+  });
+}
+
+/**
+ * Columns of a listing after an update
+ * Explicit coordinates win; otherwise they're kept until the location changes
+ */
+async function toUpdatedRow(existing: Property, updates: Partial<InsertProperty>) {
+  const merged = { ...existing, ...updates, id: existing.id };
+  if (!updates.coordinates && merged.location !== existing.location) {
+    merged.coordinates = await geocodeLocation(merged.location);
+  }
+
+  // Any CSV embedding described the old text
+  return toRow({ ...merged, embedding: null });
+}
+
+function toRow(property: Omit<PropertyWithCoordinates, 'id'> & { id?: number }) {
+  const { coordinates, ...row } = property;
+  return {
+    ...row,
+    latitude: coordinates?.lat ?? null,
+    longitude: coordinates?.lng ?? null
+  };
+}
+
+function toPropertyEmbedding(row: typeof propertyEmbeddings.$inferSelect): PropertyEmbedding {
+  return {
+    id: row.propertyId.toString(),
+    embedding: row.embedding,
+    model: row.model,
+    dimension: row.dimension,
+    textHash: row.textHash ?? undefined
+  };
+}
+
+function toEmbeddingRow(propertyEmbedding: PropertyEmbedding): typeof propertyEmbeddings.$inferInsert {
+  return {
+    propertyId: parseInt(propertyEmbedding.id),
+    model: propertyEmbedding.model,
+    dimension: propertyEmbedding.dimension,
+    embedding: propertyEmbedding.embedding,
+    textHash: propertyEmbedding.textHash ?? null
+  };
+}
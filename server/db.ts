@@ -0,0 +1,14 @@
+import pg from "pg";
+import { drizzle, type NodePgDatabase } from "drizzle-orm/node-postgres";
+import * as schema from "@shared/schema";
+
+export type Database = NodePgDatabase<typeof schema> & { $client: pg.Pool };
+
+/**
+ * Connect to PostgreSQL with the node-postgres driver, which works against
+ * local servers as well as hosted ones
+ */
+export function createDatabase(connectionString: string): Database {
+  const pool = new pg.Pool({ connectionString });
+  return drizzle(pool, { schema });
+}
@@ -0,0 +1,77 @@
+import fs from "fs";
+import path from "path";
+import { listingFormats, type ListingFormat } from "@shared/schema";
+import { createDatabase } from "./db";
+import { DbStorage } from "./db-storage";
+import { detectListingFormat, getImportedIds, importListings } from "./services/listing-import";
+import { createSavedSearchMatcher } from "./services/saved-search-matcher";
+
+/**
+ * Import listings from a CSV, TSV or JSON Lines file into the database
+ * Usage: npm run import -- <file> [--format csv|tsv|jsonl] [--dry-run]
+ * Rows are upserted by external listing id; a dry run only prints the report
+ * A running server keeps its keyword and area indexes in memory, so it only
+ * finds these rows after a restart; POST /api/admin/import updates them at once
+ */
+const args = process.argv.slice(2);
+const dryRun = args.includes("--dry-run");
+const formatIndex = args.indexOf("--format");
+const formatArg = formatIndex >= 0 ? args[formatIndex + 1] : undefined;
+const file = args.find((arg, i) => !arg.startsWith("--") && i !== formatIndex + 1);
+
+if (!file) {
+  console.error("Usage: npm run import -- <file> [--format csv|tsv|jsonl] [--dry-run]");
+  console.error("A running server searches imported rows after it restarts; POST /api/admin/import updates it at once");
+  process.exit(1);
+}
+
+if (!process.env.DATABASE_URL) {
+  console.error("DATABASE_URL must be set to import listings");
+  process.exit(1);
+}
+
+const format = (formatArg ?? detectListingFormat(file)) as ListingFormat | undefined;
+if (!format || !listingFormats.includes(format)) {
+  console.error(`Unknown listing format, pass --format with one of: ${listingFormats.join(", ")}`);
+  process.exit(1);
+}
+
+const db = createDatabase(process.env.DATABASE_URL);
+
+(async () => {
+  try {
+    const content = fs.readFileSync(path.resolve(process.cwd(), file), "utf8");
+    const storage = new DbStorage(db);
+    const report = await importListings(storage, content, format, { dryRun });
+
+    for (const row of report.rows) {
+      const label = `Row ${row.row}${row.externalId ? ` (${row.externalId})` : ""}`;
+      console.log(row.status === "rejected"
+        ? `${label}: rejected - ${row.errors?.join("; ")}`
+        : `${label}: ${row.status}${row.id !== undefined ? ` as #${row.id}` : ""}`);
+    }
+
+    if (report.error) {
+      console.error(report.error);
+      process.exitCode = 1;
+      return;
+    }
+    console.log(
+      `${dryRun ? "Dry run: " : ""}${report.created} created, ${report.updated} updated, ` +
+      `${report.rejected} rejected of ${report.total} rows`
+    );
+
+    // The server only matches changes made through it, so match these against saved searches here
+    if (!dryRun) {
+      await storage.loadPropertyDataFromCSV();
+      const alerts = await createSavedSearchMatcher(storage).match(getImportedIds(report));
+      console.log(`${alerts.length} new saved search matches`);
+      console.log("Restart a running server for its searches to include these listings");
+    }
+  } catch (error) {
+    console.error("Error importing listings:", error);
+    process.exitCode = 1;
+  } finally {
+    await db.$client.end();
+  }
+})();
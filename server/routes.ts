@@ -1,12 +1,42 @@
-import express, { type Express, Request, Response } from "express";
+import express, { type Express, NextFunction, Request, Response } from "express";
 import { createServer, type Server } from "http";
+import { randomBytes } from "crypto";
 import { storage } from "./storage";
-import { getEmbedding } from "./services/openai";
-import { searchVectors } from "./services/pinecone";
+import { embeddingProvider, getEmbedding } from "./services/embeddings";
+import { type VectorSearchResult, vectorStore } from "./services/vector-store";
 import { generatePropertyImage, getExistingPropertyImage } from "./services/image-generation";
 import { z } from "zod";
-import { type Property } from "@shared/schema";
-import { calculateDistance, calculateProximityBoost, parseLocationQuery } from './services/geocoding';
+import passport from "passport";
+import { credentialsSchema, savedSearchInputSchema, type Property, type SearchResponse, insertPropertySchema, listingFormats, searchFiltersSchema, sortModes, type ExportFormat, type SearchFilters, exportFormats, reindexRequestSchema, geoFilterSchema, type GeoFilter, type ParsedQuery, type SavedSearch, shortlistInputSchema, shortlistItemInputSchema, shortlistItemUpdateSchema, type ShortlistWithItems, type SharedShortlist, MAX_COMPARED_PROPERTIES } from "@shared/schema";
+import { parseSearchQuery } from './services/query-parser';
+import { scoreResult } from './services/scoring';
+import { fuseResults } from './services/fusion';
+import { detectListingFormat, getImportedIds, importListings } from './services/listing-import';
+import { rankingProfiles } from './services/ranking-profiles';
+import { hasActiveFilters, matchesFilters, parseFilterQuery, parseGeoQuery, passesExclusions } from './services/search-filters';
+import { EXPORT_CONTENT_TYPES, writeListings } from './services/listing-export';
+import { DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE, MAX_SEARCH_CANDIDATES, SEARCH_CANDIDATES, decodeCursor, encodeCursor } from './services/pagination';
+import { sortResults } from './services/sorting';
+import { createReindexJobManager } from './services/reindex-jobs';
+import { getSearchStatus } from './services/search-status';
+import { calculateDistance } from './services/geocoding';
+import { LOCAL_TILES_PATH, getBasemap } from './services/basemap';
+import { createSavedSearchMatcher } from './services/saved-search-matcher';
+import { compareProperties } from './services/property-comparison';
+import { findSimilarListings } from './services/similar-listings';
+import { hashPassword, requireAdmin, requireAuth, setupAuth, toPublicUser } from './auth';
+
+const MAX_SAVED_SEARCHES = 50;
+const MAX_INBOX_ALERTS = 200;
+const MAX_SHORTLISTS = 50;
+const DEFAULT_SIMILAR_LISTINGS = 6;
+const MAX_SIMILAR_LISTINGS = 20;
+
+// Ids in paths are positive integers; anything else names nothing, so gets the route's 404
+const requirePropertyId = requireIdParam("Property not found");
+const requireSavedSearchId = requireIdParam("Saved search not found");
+const requireShortlistId = requireIdParam("Shortlist not found");
+const requireShortlistPropertyId = requireIdParam("Property is not on this shortlist", "propertyId");
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // API routes for property search
@@ -15,12 +45,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Create HTTP server first so it can start accepting connections quickly and pass health checks
   const server = createServer(app);
   
+  const reindexJobs = createReindexJobManager(storage);
+  const savedSearchMatcher = createSavedSearchMatcher(storage);
+  
+  // Sessions must be in place before any route reads req.user
+  setupAuth(app);
+  
   // Initialize data in the background without blocking server startup
   // This allows the server to respond to health checks immediately
   setTimeout(async () => {
     try {
       await storage.loadPropertyDataFromCSV();
       console.log("CSV data loaded successfully");
+      
+      // Embed new or changed listings, and load the stored embeddings of the rest into the vector store
+      await reindexJobs.start(reindexRequestSchema.parse({ restoreVectors: true }));
     } catch (error) {
       console.error("Error loading CSV data:", error);
     }
@@ -36,18 +75,113 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
+  // Export the listings a search would consider as CSV, JSON or GeoJSON: those passing its
+  // filters and geographic constraints, and none of the values its query (?q=) excludes
+  apiRouter.get("/property/export", async (req: Request, res: Response) => {
+    let format: ExportFormat;
+    let filters: SearchFilters;
+    let geo: GeoFilter | undefined;
+    let query: string | undefined;
+    try {
+      format = z.enum(exportFormats).default('csv').parse(req.query.format);
+      filters = parseFilterQuery(req.query);
+      geo = parseGeoQuery(req.query);
+      query = z.string().trim().max(500).optional().parse(req.query.q);
+    } catch (error: any) {
+      return res.status(400).json({ message: "Invalid export parameters", errors: error.errors });
+    }
+    
+    try {
+      const parsedQuery = query ? parseSearchQuery(query) : undefined;
+      const properties = await narrowListings(await storage.getAllProperties(), filters, geo, parsedQuery);
+      
+      res.setHeader('Content-Type', EXPORT_CONTENT_TYPES[format]);
+      res.setHeader('Content-Disposition', `attachment; filename="properties.${format}"`);
+      await writeListings(res, properties, format);
+      // A client that disconnected mid-export has already closed the response
+      if (!res.destroyed) {
+        res.end();
+      }
+    } catch (error: any) {
+      console.error("Export error:", error);
+      // Once streaming has started the status can't change, so just cut the response short
+      if (res.headersSent) {
+        return res.destroy(error);
+      }
+      res.status(500).json({ 
+        message: "An error occurred while exporting listings",
+        error: error.message
+      });
+    }
+  });
+  
+  // Compare 2-4 listings side by side: ?ids=1,2,3, with distances from ?near=lat,lng
+  apiRouter.get("/property/compare", async (req: Request, res: Response) => {
+    const compareSchema = z.object({
+      ids: z.array(z.number().int().positive()).min(2).max(MAX_COMPARED_PROPERTIES),
+      near: z.object({
+        lat: z.number().min(-90).max(90),
+        lng: z.number().min(-180).max(180)
+      }).optional()
+    });
+
+    let ids: number[];
+    let near: { lat: number; lng: number } | undefined;
+    try {
+      const [lat, lng] = req.query.near !== undefined ? String(req.query.near).split(',').map(Number) : [];
+      ({ ids, near } = compareSchema.parse({
+        ids: Array.from(new Set(String(req.query.ids ?? '').split(',').filter(Boolean).map(Number))),
+        near: req.query.near !== undefined ? { lat, lng } : undefined
+      }));
+    } catch (error: any) {
+      return res.status(400).json({ message: "Invalid comparison parameters", errors: error.errors });
+    }
+
+    try {
+      const properties = await Promise.all(ids.map(id => storage.getPropertyById(id)));
+      const missing = ids.filter((_, index) => !properties[index]);
+      if (missing.length > 0) {
+        return res.status(404).json({ message: `Property not found: ${missing.join(', ')}` });
+      }
+
+      res.json(await compareProperties(storage, properties.map(p => p!), near));
+    } catch (error: any) {
+      console.error("Comparison error:", error);
+      res.status(500).json({ message: "An error occurred while comparing listings", error: error.message });
+    }
+  });
+  
+  // List the ranking profiles a search can select
+  apiRouter.get("/property/ranking-profiles", (req: Request, res: Response) => {
+    res.json(rankingProfiles.list().map(({ name, description }) => ({ name, description })));
+  });
+  
+  // Debug endpoint: show the structured constraints extracted from a query
+  apiRouter.post("/property/parse", async (req: Request, res: Response) => {
+    try {
+      const parseSchema = z.object({
+        query: z.string().min(1),
+      });
+      
+      const { query } = parseSchema.parse(req.body);
+      res.json(parseSearchQuery(query));
+    } catch (error: any) {
+      res.status(400).json({ message: error.message });
+    }
+  });
+  
   // Search properties with embeddings
   apiRouter.post("/property/search", async (req: Request, res: Response) => {
     try {
-      // Check for API keys
-      if (!process.env.OPENAI_API_KEY) {
+      // Check the configured providers are usable
+      if (!embeddingProvider.isAvailable()) {
         return res.status(503).json({ 
           message: "OpenAI API key is missing. Please set the OPENAI_API_KEY environment variable.",
           missingKey: "OPENAI_API_KEY" 
         });
       }
       
-      if (!process.env.PINECONE_API_KEY) {
+      if (!vectorStore.isAvailable()) {
         return res.status(503).json({ 
           message: "Pinecone API key is missing. Please set the PINECONE_API_KEY environment variable.",
           missingKey: "PINECONE_API_KEY" 
@@ -56,129 +190,76 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       const searchSchema = z.object({
         query: z.string().min(1),
+        filters: searchFiltersSchema.optional(),
+        limit: z.number().int().min(1).max(MAX_PAGE_SIZE).optional(),
+        cursor: z.string().optional(),
+        page: z.number().int().min(1).optional(),
+        sort: z.enum(sortModes).optional(),
+        profile: z.string().optional(),
+        ...geoFilterSchema.shape,
       });
       
       const validatedData = searchSchema.parse(req.body);
-      const { query } = validatedData;
+      const { query, filters, near, bbox, polygon } = validatedData;
+      const sort = validatedData.sort ?? 'relevance';
+      const geo: GeoFilter | undefined = near || bbox || polygon ? { near, bbox, polygon } : undefined;
+      
+      // Ranking weights come from the named profile, re-read from disk when edited
+      const profile = rankingProfiles.get(validatedData.profile);
+      if (!profile) {
+        return res.status(400).json({ 
+          message: `Unknown ranking profile "${validatedData.profile}"`,
+          profiles: rankingProfiles.list().map(p => p.name)
+        });
+      }
+      
+      // Resolve the requested page; a cursor takes precedence over a page number
+      const limit = validatedData.limit ?? DEFAULT_PAGE_SIZE;
+      let offset = ((validatedData.page ?? 1) - 1) * limit;
+      if (validatedData.cursor) {
+        const cursorOffset = decodeCursor(validatedData.cursor);
+        if (cursorOffset === null) {
+          return res.status(400).json({ message: "Invalid cursor" });
+        }
+        offset = cursorOffset;
+      }
 
       try {
-        // Use the already imported geocoding utilities from the top of the file
-        
-        // Extract specific attributes from the query
-        const bedroomMatch = query.match(/(\d+)[\s-]bed/i);
-        const bathroomMatch = query.match(/(\d+)[\s-]bath/i);
-        const specificAttributes: Record<string, any> = {};
-        const priceRanges: {min?: number, max?: number, target?: number} = {};
-        
-        // Extract location proximity information
-        const locationQuery = parseLocationQuery(query);
-        let targetLocation = null;
-        if (locationQuery) {
-          // Import the getCoordinates function from the geocoding service
-          const { getCoordinates } = await import('./services/geocoding');
-          targetLocation = {
-            name: locationQuery,
-            coordinates: getCoordinates(locationQuery)
-          };
-          specificAttributes.targetLocation = targetLocation;
-        }
-        
-        // Extract bedrooms
-        if (bedroomMatch) {
-          specificAttributes.bedrooms = parseInt(bedroomMatch[1]);
-        }
-        
-        // Extract bathrooms
-        if (bathroomMatch) {
-          specificAttributes.bathrooms = parseInt(bathroomMatch[1]);
-        }
-        
-        // Advanced price matching (handles various formats and phrases)
-        // Match explicit price values with or without symbols (£500k, 500k, 500,000, £500,000, etc.)
-        const priceExactMatches = query.match(/(?:£|\$|€)?(\d[\d,]*(?:\.\d+)?)\s*(?:k|thousand|m|million)?/gi);
-        
-        // Match price range phrases
-        const underPriceMatch = query.match(/(?:under|below|less than|cheaper than|max|maximum)(?:\s+of)?\s+(?:£|\$|€)?(\d[\d,]*(?:\.\d+)?)\s*(?:k|thousand|m|million)?/i);
-        const overPriceMatch = query.match(/(?:over|above|more than|at least|min|minimum)(?:\s+of)?\s+(?:£|\$|€)?(\d[\d,]*(?:\.\d+)?)\s*(?:k|thousand|m|million)?/i);
-        const aroundPriceMatch = query.match(/(?:around|about|approximately|close to|near)(?:\s+a)?(?:\s+price(?:\s+of)?)?\s+(?:£|\$|€)?(\d[\d,]*(?:\.\d+)?)\s*(?:k|thousand|m|million)?/i);
-        
-        // Process price matches
-        if (underPriceMatch) {
-          const priceStr = underPriceMatch[1].replace(/,/g, '');
-          let price = parseFloat(priceStr);
-          // Handle k/thousand and m/million suffixes
-          if (underPriceMatch[0].toLowerCase().includes('k') || underPriceMatch[0].toLowerCase().includes('thousand')) {
-            price *= 1000;
-          } else if (underPriceMatch[0].toLowerCase().includes('m') || underPriceMatch[0].toLowerCase().includes('million')) {
-            price *= 1000000;
-          }
-          priceRanges.max = price;
-        }
-        
-        if (overPriceMatch) {
-          const priceStr = overPriceMatch[1].replace(/,/g, '');
-          let price = parseFloat(priceStr);
-          // Handle k/thousand and m/million suffixes
-          if (overPriceMatch[0].toLowerCase().includes('k') || overPriceMatch[0].toLowerCase().includes('thousand')) {
-            price *= 1000;
-          } else if (overPriceMatch[0].toLowerCase().includes('m') || overPriceMatch[0].toLowerCase().includes('million')) {
-            price *= 1000000;
-          }
-          priceRanges.min = price;
-        }
-        
-        if (aroundPriceMatch) {
-          const priceStr = aroundPriceMatch[1].replace(/,/g, '');
-          let price = parseFloat(priceStr);
-          // Handle k/thousand and m/million suffixes
-          if (aroundPriceMatch[0].toLowerCase().includes('k') || aroundPriceMatch[0].toLowerCase().includes('thousand')) {
-            price *= 1000;
-          } else if (aroundPriceMatch[0].toLowerCase().includes('m') || aroundPriceMatch[0].toLowerCase().includes('million')) {
-            price *= 1000000;
-          }
-          priceRanges.target = price;
-          
-          // For "around" queries, set a range of +/- 20%
-          const range = price * 0.2;
-          priceRanges.min = price - range;
-          priceRanges.max = price + range;
-        }
+        // Extract structured constraints (bedrooms, price, type, location...) from the query
+        const parsedQuery = parseSearchQuery(query);
         
-        // If we found at least one price range constraint, save it
-        if (Object.keys(priceRanges).length > 0) {
-          specificAttributes.priceRanges = priceRanges;
+        // Distances are only known relative to a location named in the query or a `near` centre
+        if (sort === 'distance' && !parsedQuery.location && !near) {
+          return res.status(400).json({ 
+            message: "Sorting by distance requires a location in the query, e.g. \"near Oxford\", or a near centre"
+          });
         }
         
-        // Type matching
-        const typeMatches: string[] = [];
-        ['House', 'Flat', 'Apartment', 'Studio', 'Cottage', 'Bungalow', 'Penthouse', 'Townhouse'].forEach(type => {
-          if (query.toLowerCase().includes(type.toLowerCase())) {
-            typeMatches.push(type);
-          }
-        });
+        // With explicit filters every listing is a candidate, so filtering can't starve the results
+        // Otherwise each retriever contributes a fixed number. Either way the candidate set doesn't
+        // depend on the page, so total and the cursors stay the same from page to page
+        const topK = hasActiveFilters(filters) || geo
+          ? Math.min(MAX_SEARCH_CANDIDATES, Math.max(SEARCH_CANDIDATES, (await storage.getAllProperties()).length))
+          : SEARCH_CANDIDATES;
         
-        if (typeMatches.length > 0) {
-          specificAttributes.type = typeMatches;
-        }
+        // Keyword retrieval always runs, so exact words like "Georgian" are never lost
+        const keywordResults = await storage.searchPropertiesByKeywords(query, topK);
         
         let queryEmbedding;
-        let searchResults: { id: string; score: number }[] = [];
+        let vectorResults: VectorSearchResult[] | null = null;
         
         try {
-          // Generate embedding for query
+          // Generate embedding for query and search the configured vector store
           queryEmbedding = await getEmbedding(query);
-          
-          // Search Pinecone
-          searchResults = await searchVectors(queryEmbedding, 50); // Increase to get more candidates
+          vectorResults = await vectorStore.search(queryEmbedding, embeddingProvider.model, topK);
         } catch (error: any) {
           console.error("Search error:", error);
           
-          // If we hit a rate limit or other API error, fall back to basic search
+          // If we hit a rate limit or other API error, fall back to keyword search alone
           if (error.status === 429 || !queryEmbedding) {
-            console.log("Falling back to basic search due to API limits");
+            console.log("Falling back to keyword search due to API limits");
             console.log("Query: ", query);
-            // We'll skip the vector search but still apply filters below
-            searchResults = [];
+            vectorResults = null;
           } else {
             // For other errors, return the error to the client
             return res.status(500).json({ 
@@ -188,237 +269,55 @@ export async function registerRoutes(app: Express): Promise<Server> {
           }
         }
         
-        let properties = [];
+        // Merge both result lists into candidates ranked by fused relevance
+        const candidates = fuseResults(vectorResults, keywordResults, embeddingProvider.model, profile);
+        const properties = await storage.getPropertiesByIds(candidates.map(c => c.id));
+        const propertiesById = new Map(properties.map(p => [p.id.toString(), p]));
         
-        if (searchResults.length > 0) {
-          // Get full property details from search results
-          properties = await storage.getPropertiesByIds(searchResults.map(r => r.id));
-          console.log(`Got ${properties.length} properties from search results`);
-        } else {
-          // Fallback: Get all properties when we can't use vector search
-          // We'll filter these based on text query and attributes later
-          properties = await storage.getAllProperties();
-          console.log(`Fallback: Got ${properties.length} properties from getAllProperties`);
-        }
+        let candidateProperties = candidates
+          .filter(candidate => propertiesById.has(candidate.id))
+          .map(candidate => ({ candidate, property: propertiesById.get(candidate.id)! }));
         
-        // Combine search results with property data and apply attribute filters
-        let results: any[] = [];
+        // Apply the explicit filters, the requested area and the query's exclusions before anything is truncated
+        const kept = new Set(await narrowListings(candidateProperties.map(({ property }) => property), filters, geo, parsedQuery));
+        candidateProperties = candidateProperties.filter(({ property }) => kept.has(property));
         
-        if (searchResults.length > 0) {
-          // If we have search results from vector search, use those
-          results = searchResults.map(result => {
-            const property = properties.find((p: Property) => p.id.toString() === result.id);
-            if (!property) return null;
-            
-            return {
-              ...property,
-              score: result.score
-            };
-          }).filter(item => item !== null) as any[];
-        } else {
-          // If we're using fallback search mode, convert all properties to results
-          // We'll assign base scores for now and rerank them below
-          results = properties.map((property: Property) => ({
-            ...property,
-            score: 0.5 // Default middle score, will be adjusted based on matches
-          }));
-          
-          // Apply basic text search if there's a query
-          if (query.trim()) {
-            const normalizedQuery = query.toLowerCase();
-            
-            // Enhanced text matching for fallback mode with scoring
-            results = results.filter(property => {
-              // Check if property matches any part of the query
-              const titleMatch = property.title.toLowerCase().includes(normalizedQuery);
-              const descMatch = property.description.toLowerCase().includes(normalizedQuery);
-              const locationMatch = property.location.toLowerCase().includes(normalizedQuery);
-              const typeMatch = property.type.toLowerCase().includes(normalizedQuery);
-              const styleMatch = property.style.toLowerCase().includes(normalizedQuery);
-              const viewMatch = property.view.toLowerCase().includes(normalizedQuery);
-              const furnishingMatch = property.furnishing.toLowerCase().includes(normalizedQuery);
-              
-              // Check for individual terms in query (like "modern penthouse river")
-              const queryTerms = normalizedQuery.split(/\s+/);
-              const termMatches = queryTerms.filter(term => 
-                property.title.toLowerCase().includes(term) ||
-                property.description.toLowerCase().includes(term) ||
-                property.location.toLowerCase().includes(term) ||
-                property.type.toLowerCase().includes(term) ||
-                property.style.toLowerCase().includes(term) ||
-                property.view.toLowerCase().includes(term) ||
-                property.furnishing.toLowerCase().includes(term)
-              );
-              
-              // Set score based on how well it matches
-              if (titleMatch) property.score += 0.25;
-              if (typeMatch) property.score += 0.20;
-              if (styleMatch) property.score += 0.15;
-              if (viewMatch) property.score += 0.15;
-              if (locationMatch) property.score += 0.10;
-              if (furnishingMatch) property.score += 0.10;
-              if (descMatch) property.score += 0.05;
-              
-              // Bonus for matching multiple terms
-              if (termMatches.length > 0) {
-                property.score += 0.1 * (termMatches.length / queryTerms.length);
-              }
-              
-              // For keyword matches (complete words only), boost the score further
-              queryTerms.forEach(term => {
-                if (term.length <= 3) return; // Skip short words
-                
-                const termRegex = new RegExp(`\\b${term}\\b`, 'i');
-                if (termRegex.test(property.title)) property.score += 0.15;
-                if (termRegex.test(property.type)) property.score += 0.15;
-                if (termRegex.test(property.style)) property.score += 0.10;
-                if (termRegex.test(property.view)) property.score += 0.10;
-              });
-              
-              // Keep properties that match at least one term or have a direct match
-              return termMatches.length > 0 || titleMatch || descMatch || locationMatch || 
-                     typeMatch || styleMatch || viewMatch || furnishingMatch;
-            });
-            
-            // Sort by score (highest first)
-            results.sort((a, b) => b.score - a.score);
-          }
-        }
+        // Score each candidate against the parsed query on an absolute 0-100 scale
+        const results = candidateProperties.map(({ candidate, property }) =>
+          scoreResult(property, parsedQuery, candidate, profile)
+        );
         
-        // Apply exact attribute matching and boost scores for matches
-        if (Object.keys(specificAttributes).length > 0) {
-          results = results.map(result => {
-            let matchBoost = 0;
-            let isExactMatch = true;
-            
-            // Check each specific attribute
-            for (const [attr, value] of Object.entries(specificAttributes)) {
-              if (attr === 'type' && Array.isArray(value)) {
-                // For type, check if any of the specified types match
-                const typeMatch = value.some(type => result.type === type);
-                if (typeMatch) {
-                  matchBoost += 0.2; // Boost score for type match
-                } else {
-                  isExactMatch = false;
-                }
-              } else if (attr === 'priceRanges') {
-                // Handle price range filtering
-                const ranges = value as {min?: number, max?: number, target?: number};
-                const price = result.price;
-                
-                if (ranges.min && price < ranges.min) {
-                  // Price is below minimum
-                  isExactMatch = false;
-                } else if (ranges.min && price >= ranges.min) {
-                  // Price is above or equal to minimum (good)
-                  matchBoost += 0.2;
-                }
-                
-                if (ranges.max && price > ranges.max) {
-                  // Price is above maximum
-                  isExactMatch = false;
-                } else if (ranges.max && price <= ranges.max) {
-                  // Price is below or equal to maximum (good)
-                  matchBoost += 0.2;
-                }
-                
-                if (ranges.target) {
-                  // If target is specified, boost score based on how close the price is to the target
-                  const percentDiff = Math.abs(price - ranges.target) / ranges.target;
-                  if (percentDiff <= 0.05) { // Within 5% of target
-                    matchBoost += 0.35;
-                  } else if (percentDiff <= 0.1) { // Within 10% of target
-                    matchBoost += 0.25;
-                  } else if (percentDiff <= 0.2) { // Within 20% of target
-                    matchBoost += 0.15;
-                  } else {
-                    isExactMatch = false;
-                  }
-                }
-              } else if (attr === 'targetLocation') {
-                // Handle location proximity
-                const targetLoc = value as { name: string, coordinates: { lat: number, lng: number } };
-                
-                // Check if property has coordinates
-                if (result.coordinates) {
-                  // Calculate distance between property and target location
-                  const distance = calculateDistance(targetLoc.coordinates, result.coordinates);
-                  result.distance = Math.round(distance * 10) / 10; // Round to 1 decimal place
-                  
-                  // Apply proximity boost based on distance
-                  const proximityBoost = calculateProximityBoost(distance);
-                  matchBoost += proximityBoost;
-                  
-                  // Consider it an exact match if it's very close (within 2km)
-                  if (distance <= 2) {
-                    matchBoost += 0.2; // Additional boost for very close properties
-                  } else {
-                    isExactMatch = false;
-                  }
-                } else {
-                  // If no coordinates, check if the location name matches
-                  if (result.location.toLowerCase().includes(targetLoc.name.toLowerCase()) || 
-                      targetLoc.name.toLowerCase().includes(result.location.toLowerCase())) {
-                    matchBoost += 0.15;
-                  } else {
-                    isExactMatch = false;
-                  }
-                }
-              } else if (result[attr] === value) {
-                matchBoost += 0.3; // Boost score for exact match (bedrooms, bathrooms)
-              } else {
-                isExactMatch = false;
-              }
-            }
-            
-            // Apply boost to exact matches
-            if (isExactMatch) {
-              matchBoost += 0.5;
+        // A near centre is what distances are measured from, rather than a location in the query
+        if (near) {
+          results.forEach(result => {
+            if (result.coordinates) {
+              result.distance = Math.round(calculateDistance(near, result.coordinates) * 10) / 10;
             }
-            
-            return {
-              ...result,
-              score: result.score + matchBoost, // Boost score
-              exactMatch: isExactMatch
-            };
           });
-          
-          // If we have exact matches, prioritize them
-          const exactMatches = results.filter(r => r.exactMatch);
-          if (exactMatches.length > 0) {
-            results = [...exactMatches, ...results.filter(r => !r.exactMatch)];
-          }
         }
         
-        // Sort by score
-        results.sort((a, b) => b.score - a.score);
+        // Order by the requested sort mode, falling back to relevance for ties
+        sortResults(results, sort);
         
-        // Normalize scores to 0-100 range
-        const topResults = results.slice(0, 20);
-        if (topResults.length > 0) {
-          // Find max and min scores
-          const maxScore = Math.max(...topResults.map(r => r.score));
-          const minScore = Math.min(...topResults.map(r => r.score));
-          const scoreRange = maxScore - minScore;
-          
-          // Normalize scores
-          if (scoreRange > 0) {
-            topResults.forEach(result => {
-              // Convert to 0-100 scale and round to 2 decimal places
-              result.score = Math.min(100, Math.max(0, 
-                Math.round(((result.score - minScore) / scoreRange) * 100 * 100) / 100
-              ));
-            });
-          } else {
-            // If all scores are the same
-            topResults.forEach(result => {
-              result.score = 100;
-            });
+        // Return the requested page
+        const nextOffset = offset + limit;
+        const response: SearchResponse = {
+          results: results.slice(offset, nextOffset),
+          // An empty vector index answers nothing, which is as degraded as a failed embedding call
+          mode: vectorResults && vectorResults.length > 0 ? 'semantic' : 'fallback',
+          total: results.length,
+          page: Math.floor(offset / limit) + 1,
+          limit,
+          nextCursor: nextOffset < results.length ? encodeCursor(nextOffset) : null,
+          constraints: {
+            parsed: parsedQuery,
+            filters,
+            geo,
+            sort,
+            profile: profile.name
           }
-        }
-        
-        // Return top 20 results with normalized scores
-        res.json(topResults);
+        };
+        res.json(response);
       } catch (error: any) {
         // Handle specific API errors
         const errorMessage = error.message || "";
@@ -443,6 +342,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         throw error;
       }
     } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid search request", errors: error.errors });
+      }
+
       console.error("Search error:", error);
       res.status(500).json({ 
         message: "An error occurred during search. Please try again later.",
@@ -452,7 +355,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Check if a property image exists
-  apiRouter.get("/property/image/:id", async (req: Request, res: Response) => {
+  apiRouter.get("/property/image/:id", requirePropertyId, async (req: Request, res: Response) => {
     try {
       const propertyId = parseInt(req.params.id);
       const existingImage = getExistingPropertyImage(propertyId);
@@ -471,7 +374,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Generate property image endpoint
-  apiRouter.post("/property/image/:id", async (req: Request, res: Response) => {
+  apiRouter.post("/property/image/:id", requirePropertyId, async (req: Request, res: Response) => {
     try {
       // Check for OpenAI API key
       if (!process.env.OPENAI_API_KEY) {
@@ -514,17 +417,655 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Get a single property
+  apiRouter.get("/property/:id", requirePropertyId, async (req: Request, res: Response) => {
+    try {
+      const property = await storage.getPropertyById(parseInt(req.params.id));
+      if (!property) {
+        return res.status(404).json({ message: "Property not found" });
+      }
+      res.json(property);
+    } catch (error: any) {
+      console.error("Error fetching property:", error);
+      res.status(500).json({ message: "Failed to fetch property", error: error.message });
+    }
+  });
+  
+  // Listings most like this one, found by querying the vector index with its own embedding
+  apiRouter.get("/property/:id/similar", requirePropertyId, async (req: Request, res: Response) => {
+    let limit: number;
+    try {
+      limit = z.coerce.number().int().min(1).max(MAX_SIMILAR_LISTINGS).default(DEFAULT_SIMILAR_LISTINGS).parse(req.query.limit);
+    } catch (error: any) {
+      return res.status(400).json({ message: "Invalid limit", errors: error.errors });
+    }
+
+    try {
+      if (!vectorStore.isAvailable()) {
+        return res.status(503).json({
+          message: "Pinecone API key is missing. Please set the PINECONE_API_KEY environment variable.",
+          missingKey: "PINECONE_API_KEY"
+        });
+      }
+
+      const property = await storage.getPropertyById(parseInt(req.params.id));
+      if (!property) {
+        return res.status(404).json({ message: "Property not found" });
+      }
+
+      res.json(await findSimilarListings(storage, property, limit));
+    } catch (error: any) {
+      console.error("Error finding similar listings:", error);
+      res.status(500).json({ message: "An error occurred while finding similar listings", error: error.message });
+    }
+  });
+  
+  // Add a listing; it is geocoded, embedded and indexed before the response
+  apiRouter.post("/property", requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const data = insertPropertySchema.parse(req.body);
+      if (await isExternalIdTaken(data.externalId)) {
+        return res.status(409).json({ message: `External id "${data.externalId}" belongs to another listing` });
+      }
+      
+      const property = await storage.createProperty(data);
+      savedSearchMatcher.listingsChanged([property.id]);
+      res.status(201).json(property);
+    } catch (error: any) {
+      sendPropertyWriteError(res, error);
+    }
+  });
+  
+  // Replace every field of a listing
+  apiRouter.put("/property/:id", requireAdmin, requirePropertyId, async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const data = insertPropertySchema.parse(req.body);
+      if (await isExternalIdTaken(data.externalId, id)) {
+        return res.status(409).json({ message: `External id "${data.externalId}" belongs to another listing` });
+      }
+      
+      const property = await storage.updateProperty(id, data);
+      if (!property) {
+        return res.status(404).json({ message: "Property not found" });
+      }
+      savedSearchMatcher.listingsChanged([property.id]);
+      res.json(property);
+    } catch (error: any) {
+      sendPropertyWriteError(res, error);
+    }
+  });
+  
+  // Change some fields of a listing
+  apiRouter.patch("/property/:id", requireAdmin, requirePropertyId, async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const data = insertPropertySchema.partial().parse(req.body);
+      if (await isExternalIdTaken(data.externalId, id)) {
+        return res.status(409).json({ message: `External id "${data.externalId}" belongs to another listing` });
+      }
+      
+      const property = await storage.updateProperty(id, data);
+      if (!property) {
+        return res.status(404).json({ message: "Property not found" });
+      }
+      savedSearchMatcher.listingsChanged([property.id]);
+      res.json(property);
+    } catch (error: any) {
+      sendPropertyWriteError(res, error);
+    }
+  });
+  
+  // Withdraw a listing and remove it from the search indexes
+  apiRouter.delete("/property/:id", requireAdmin, requirePropertyId, async (req: Request, res: Response) => {
+    try {
+      const deleted = await storage.deleteProperty(parseInt(req.params.id));
+      if (!deleted) {
+        return res.status(404).json({ message: "Property not found" });
+      }
+      res.status(204).end();
+    } catch (error: any) {
+      sendPropertyWriteError(res, error);
+    }
+  });
+
+  // Bulk import listings from CSV, TSV or JSON Lines sent as the request body
+  // Rows are upserted by external listing id; ?dryRun=true returns the report without writing
+  apiRouter.post("/admin/import", requireAdmin, express.text({ type: () => true, limit: "20mb" }), async (req: Request, res: Response) => {
+    try {
+      if (typeof req.body !== 'string' || !req.body.trim()) {
+        return res.status(400).json({ 
+          message: "Send the listings file as the request body with a text content type, e.g. text/csv"
+        });
+      }
+      
+      // ?format= wins over the content type
+      const querySchema = z.object({
+        format: z.enum(listingFormats).optional(),
+        dryRun: z.enum(['true', 'false', '1', '0']).optional(),
+      });
+      const params = querySchema.parse(req.query);
+      const format = params.format ?? detectListingFormat(req.get('content-type') || '');
+      if (!format) {
+        return res.status(400).json({ 
+          message: `Unknown listing format, pass ?format= with one of: ${listingFormats.join(', ')}`
+        });
+      }
+      
+      const dryRun = params.dryRun === 'true' || params.dryRun === '1';
+      const report = await importListings(storage, req.body, format, { dryRun });
+      if (!dryRun && !report.error) {
+        savedSearchMatcher.listingsChanged(getImportedIds(report));
+      }
+      res.status(report.rolledBack ? 500 : report.error ? 400 : 200).json(report);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid import parameters", errors: error.errors });
+      }
+      
+      console.error("Import error:", error);
+      res.status(500).json({ 
+        message: "An error occurred while importing listings",
+        error: error.message
+      });
+    }
+  });
+
+  // Start a reindex job; it runs in the background and is polled with GET /admin/jobs/:id
+  apiRouter.post("/admin/reindex", requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const options = reindexRequestSchema.parse(req.body ?? {});
+      
+      const running = reindexJobs.getRunning();
+      if (running) {
+        return res.status(409).json({ message: "A reindex job is already running", job: running });
+      }
+      
+      const job = await reindexJobs.start(options);
+      res.status(202).location(`/api/admin/jobs/${job.id}`).json(job);
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid reindex options", errors: error.errors });
+      }
+      
+      console.error("Reindex error:", error);
+      res.status(500).json({ 
+        message: "An error occurred while starting the reindex job",
+        error: error.message
+      });
+    }
+  });
+  
+  // List recent reindex jobs, newest first
+  apiRouter.get("/admin/jobs", requireAdmin, (req: Request, res: Response) => {
+    res.json(reindexJobs.list());
+  });
+  
+  // Get the progress of a reindex job
+  apiRouter.get("/admin/jobs/:id", requireAdmin, (req: Request, res: Response) => {
+    const job = reindexJobs.get(req.params.id);
+    if (!job) {
+      return res.status(404).json({ message: "Job not found" });
+    }
+    res.json(job);
+  });
+  
+  // Continue an interrupted or failed reindex job from its last checkpoint
+  apiRouter.post("/admin/jobs/:id/resume", requireAdmin, (req: Request, res: Response) => {
+    const job = reindexJobs.get(req.params.id);
+    if (!job) {
+      return res.status(404).json({ message: "Job not found" });
+    }
+    if (job.status !== 'interrupted' && job.status !== 'failed') {
+      return res.status(409).json({ message: `Only interrupted or failed jobs can be resumed, this one is ${job.status}`, job });
+    }
+    
+    const running = reindexJobs.getRunning();
+    if (running) {
+      return res.status(409).json({ message: "A reindex job is already running", job: running });
+    }
+    
+    res.status(202).json(reindexJobs.resume(job.id));
+  });
+
   // Create a basic health check endpoint for Replit
   apiRouter.get("/healthcheck", (req: Request, res: Response) => {
     res.status(200).json({ status: 'ok', message: 'Server is running' });
   });
+  
+  // Report whether searches are ready to run semantically, unlike the liveness check above
+  apiRouter.get("/status", async (req: Request, res: Response) => {
+    try {
+      res.json(await getSearchStatus(storage, reindexJobs));
+    } catch (error: any) {
+      console.error("Status error:", error);
+      res.status(500).json({ 
+        message: "An error occurred while checking search status",
+        error: error.message
+      });
+    }
+  });
+
+  // Basemap for the results map: place labels and the tile layer, if any
+  apiRouter.get("/map/basemap", (req: Request, res: Response) => {
+    res.json(getBasemap());
+  });
+
+  // Create an account and log in as it
+  apiRouter.post("/auth/register", async (req: Request, res: Response) => {
+    try {
+      const { username, password } = credentialsSchema.parse(req.body);
+      if (await storage.getUserByUsername(username)) {
+        return res.status(409).json({ message: "Username is already taken" });
+      }
+
+      const user = toPublicUser(await storage.createUser({ username, password: await hashPassword(password) }));
+      req.login(user, error => {
+        if (error) {
+          console.error("Error starting session:", error);
+          return res.status(500).json({ message: "Account created, but logging in failed", error: error.message });
+        }
+        res.status(201).json(user);
+      });
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid username or password", errors: error.errors });
+      }
+      console.error("Registration error:", error);
+      res.status(500).json({ message: "An error occurred while creating the account", error: error.message });
+    }
+  });
+
+  // Log in with a username and password
+  apiRouter.post("/auth/login", (req: Request, res: Response) => {
+    passport.authenticate("local", (error: any, user: Express.User | false) => {
+      if (error) {
+        console.error("Login error:", error);
+        return res.status(500).json({ message: "An error occurred while logging in", error: error.message });
+      }
+      if (!user) {
+        return res.status(401).json({ message: "Incorrect username or password" });
+      }
+
+      req.login(user, loginError => {
+        if (loginError) {
+          console.error("Error starting session:", loginError);
+          return res.status(500).json({ message: "An error occurred while logging in", error: loginError.message });
+        }
+        res.json(user);
+      });
+    })(req, res);
+  });
+
+  // End the session
+  apiRouter.post("/auth/logout", (req: Request, res: Response) => {
+    req.logout(error => {
+      if (error) {
+        console.error("Logout error:", error);
+        return res.status(500).json({ message: "An error occurred while logging out", error: error.message });
+      }
+      req.session.destroy(() => {
+        res.clearCookie("connect.sid");
+        res.status(204).end();
+      });
+    });
+  });
+
+  // The logged-in user, or 401 when there is none
+  apiRouter.get("/auth/me", (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Not logged in" });
+    }
+    res.json(req.user);
+  });
+
+  // Saved searches of the logged-in user
+  apiRouter.get("/saved-searches", requireAuth, async (req: Request, res: Response) => {
+    try {
+      res.json(await storage.getSavedSearches(req.user!.id));
+    } catch (error: any) {
+      console.error("Error listing saved searches:", error);
+      res.status(500).json({ message: "An error occurred while listing saved searches", error: error.message });
+    }
+  });
+
+  // Save a query and filters; with alerts on, listings added or changed from now on are matched against it
+  apiRouter.post("/saved-searches", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const input = savedSearchInputSchema.parse(req.body);
+      const existing = await storage.getSavedSearches(req.user!.id);
+      if (existing.length >= MAX_SAVED_SEARCHES) {
+        return res.status(409).json({ message: `You can save up to ${MAX_SAVED_SEARCHES} searches; delete one first` });
+      }
+
+      const search = await storage.createSavedSearch({ ...input, userId: req.user!.id });
+      res.status(201).json(search);
+    } catch (error: any) {
+      sendSavedSearchError(res, error);
+    }
+  });
+
+  // Rename a saved search, change its query or filters, or turn its alerts on or off
+  apiRouter.patch("/saved-searches/:id", requireAuth, requireSavedSearchId, async (req: Request, res: Response) => {
+    try {
+      const input = savedSearchInputSchema.partial().parse(req.body);
+      const search = await getOwnSavedSearch(req);
+      if (!search) {
+        return res.status(404).json({ message: "Saved search not found" });
+      }
+
+      res.json(await storage.updateSavedSearch(search.id, input));
+    } catch (error: any) {
+      sendSavedSearchError(res, error);
+    }
+  });
+
+  // Delete a saved search and its alerts
+  apiRouter.delete("/saved-searches/:id", requireAuth, requireSavedSearchId, async (req: Request, res: Response) => {
+    try {
+      const search = await getOwnSavedSearch(req);
+      if (!search) {
+        return res.status(404).json({ message: "Saved search not found" });
+      }
+
+      await storage.deleteSavedSearch(search.id);
+      res.status(204).end();
+    } catch (error: any) {
+      sendSavedSearchError(res, error);
+    }
+  });
+
+  // Inbox of listings that newly matched the user's saved searches, newest first
+  apiRouter.get("/alerts", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const unreadOnly = req.query.unread === 'true' || req.query.unread === '1';
+      const alerts = await storage.getSearchAlerts(req.user!.id, { unreadOnly, limit: MAX_INBOX_ALERTS });
+      const unread = unreadOnly
+        ? alerts.length
+        : (await storage.getSearchAlerts(req.user!.id, { unreadOnly: true, limit: MAX_INBOX_ALERTS })).length;
+      res.json({ alerts, unread });
+    } catch (error: any) {
+      console.error("Error listing alerts:", error);
+      res.status(500).json({ message: "An error occurred while listing alerts", error: error.message });
+    }
+  });
+
+  // Mark alerts read: those in `ids`, or all of them
+  apiRouter.post("/alerts/read", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const { ids } = z.object({ ids: z.array(z.number().int()).optional() }).parse(req.body ?? {});
+      res.json({ marked: await storage.markSearchAlertsRead(req.user!.id, ids) });
+    } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid alert ids", errors: error.errors });
+      }
+      console.error("Error marking alerts read:", error);
+      res.status(500).json({ message: "An error occurred while updating alerts", error: error.message });
+    }
+  });
+
+  // Shortlists of the logged-in user, each with its properties, notes and ratings
+  apiRouter.get("/shortlists", requireAuth, async (req: Request, res: Response) => {
+    try {
+      res.json(await storage.getShortlists(req.user!.id));
+    } catch (error: any) {
+      sendShortlistError(res, error);
+    }
+  });
+
+  apiRouter.post("/shortlists", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const input = shortlistInputSchema.parse(req.body);
+      const existing = await storage.getShortlists(req.user!.id);
+      if (existing.length >= MAX_SHORTLISTS) {
+        return res.status(409).json({ message: `You can keep up to ${MAX_SHORTLISTS} shortlists; delete one first` });
+      }
+
+      const list = await storage.createShortlist({ ...input, userId: req.user!.id });
+      res.status(201).json({ ...list, items: [] });
+    } catch (error: any) {
+      sendShortlistError(res, error);
+    }
+  });
+
+  // Rename a shortlist
+  apiRouter.patch("/shortlists/:id", requireAuth, requireShortlistId, async (req: Request, res: Response) => {
+    try {
+      const input = shortlistInputSchema.parse(req.body);
+      const list = await getOwnShortlist(req);
+      if (!list) {
+        return res.status(404).json({ message: "Shortlist not found" });
+      }
+
+      await storage.updateShortlist(list.id, input);
+      res.json(await storage.getShortlist(list.id));
+    } catch (error: any) {
+      sendShortlistError(res, error);
+    }
+  });
+
+  apiRouter.delete("/shortlists/:id", requireAuth, requireShortlistId, async (req: Request, res: Response) => {
+    try {
+      const list = await getOwnShortlist(req);
+      if (!list) {
+        return res.status(404).json({ message: "Shortlist not found" });
+      }
+
+      await storage.deleteShortlist(list.id);
+      res.status(204).end();
+    } catch (error: any) {
+      sendShortlistError(res, error);
+    }
+  });
+
+  // Add a property to a shortlist; adding one that's already there updates its note or rating
+  apiRouter.post("/shortlists/:id/items", requireAuth, requireShortlistId, async (req: Request, res: Response) => {
+    try {
+      const input = shortlistItemInputSchema.parse(req.body);
+      const list = await getOwnShortlist(req);
+      if (!list) {
+        return res.status(404).json({ message: "Shortlist not found" });
+      }
+      if (!(await storage.getPropertyById(input.propertyId))) {
+        return res.status(404).json({ message: "Property not found" });
+      }
+
+      const item = await storage.saveShortlistItem({ ...input, shortlistId: list.id });
+      res.status(201).json(item);
+    } catch (error: any) {
+      sendShortlistError(res, error);
+    }
+  });
+
+  // Change the note or rating on a shortlisted property
+  apiRouter.patch("/shortlists/:id/items/:propertyId", requireAuth, requireShortlistId, requireShortlistPropertyId, async (req: Request, res: Response) => {
+    try {
+      const input = shortlistItemUpdateSchema.parse(req.body);
+      const list = await getOwnShortlist(req);
+      const item = list && await storage.updateShortlistItem(list.id, parseInt(req.params.propertyId), input);
+      if (!item) {
+        return res.status(404).json({ message: "Property is not on this shortlist" });
+      }
+
+      res.json(item);
+    } catch (error: any) {
+      sendShortlistError(res, error);
+    }
+  });
+
+  apiRouter.delete("/shortlists/:id/items/:propertyId", requireAuth, requireShortlistId, requireShortlistPropertyId, async (req: Request, res: Response) => {
+    try {
+      const list = await getOwnShortlist(req);
+      if (!list || !(await storage.deleteShortlistItem(list.id, parseInt(req.params.propertyId)))) {
+        return res.status(404).json({ message: "Property is not on this shortlist" });
+      }
+
+      res.status(204).end();
+    } catch (error: any) {
+      sendShortlistError(res, error);
+    }
+  });
+
+  // Create a read-only share link for a shortlist, keeping the existing one if it's already shared
+  apiRouter.post("/shortlists/:id/share", requireAuth, requireShortlistId, async (req: Request, res: Response) => {
+    try {
+      const list = await getOwnShortlist(req);
+      if (!list) {
+        return res.status(404).json({ message: "Shortlist not found" });
+      }
+
+      const shareToken = list.shareToken ?? randomBytes(16).toString("base64url");
+      if (!list.shareToken) {
+        await storage.updateShortlist(list.id, { shareToken });
+      }
+      res.json({ shareToken });
+    } catch (error: any) {
+      sendShortlistError(res, error);
+    }
+  });
+
+  // Revoke the share link; the old link stops working
+  apiRouter.delete("/shortlists/:id/share", requireAuth, requireShortlistId, async (req: Request, res: Response) => {
+    try {
+      const list = await getOwnShortlist(req);
+      if (!list) {
+        return res.status(404).json({ message: "Shortlist not found" });
+      }
+
+      await storage.updateShortlist(list.id, { shareToken: null });
+      res.status(204).end();
+    } catch (error: any) {
+      sendShortlistError(res, error);
+    }
+  });
+
+  // A shared shortlist, readable by anyone with the link
+  apiRouter.get("/shared/shortlists/:token", async (req: Request, res: Response) => {
+    try {
+      const list = await storage.getShortlistByShareToken(req.params.token);
+      const owner = list && await storage.getUser(list.userId);
+      if (!list || !owner) {
+        return res.status(404).json({ message: "This shortlist isn't shared, or the link has been revoked" });
+      }
+
+      const shared: SharedShortlist = { name: list.name, owner: owner.username, items: list.items };
+      res.json(shared);
+    } catch (error: any) {
+      sendShortlistError(res, error);
+    }
+  });
 
   // Serve generated images statically
   app.use("/generated-images", express.static("client/public/generated-images"));
 
+  // Serve map tiles from a local directory, so the map works offline
+  if (process.env.MAP_TILES_DIR) {
+    app.use(LOCAL_TILES_PATH, express.static(process.env.MAP_TILES_DIR));
+  }
+
   // Use the API router with prefix
   app.use("/api", apiRouter);
 
   // Return the HTTP server that was created at the beginning of this function
   return server;
 }
+
+/**
+ * Respond 404 with the route's not-found message unless a path parameter is a positive integer
+ * small enough for an integer column, so handlers can parseInt it safely
+ */
+function requireIdParam(notFoundMessage: string, param = "id") {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!/^[1-9]\d{0,8}$/.test(req.params[param])) {
+      return res.status(404).json({ message: notFoundMessage });
+    }
+    next();
+  };
+}
+
+/**
+ * The saved search named in the path, if it belongs to the logged-in user
+ */
+async function getOwnSavedSearch(req: Request): Promise<SavedSearch | undefined> {
+  const search = await storage.getSavedSearch(parseInt(req.params.id));
+  return search && search.userId === req.user!.id ? search : undefined;
+}
+
+/**
+ * Report a failed saved-search request, distinguishing invalid input from server errors
+ */
+function sendSavedSearchError(res: Response, error: any) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ message: "Invalid saved search", errors: error.errors });
+  }
+
+  console.error("Error saving search:", error);
+  res.status(500).json({ message: "An error occurred while saving the search", error: error.message });
+}
+
+/**
+ * The shortlist named in the path, if it belongs to the logged-in user
+ */
+async function getOwnShortlist(req: Request): Promise<ShortlistWithItems | undefined> {
+  const list = await storage.getShortlist(parseInt(req.params.id));
+  return list && list.userId === req.user!.id ? list : undefined;
+}
+
+/**
+ * Report a failed shortlist request, distinguishing invalid input from server errors
+ */
+function sendShortlistError(res: Response, error: any) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ message: "Invalid shortlist", errors: error.errors });
+  }
+
+  console.error("Error updating shortlist:", error);
+  res.status(500).json({ message: "An error occurred while updating the shortlist", error: error.message });
+}
+
+/**
+ * The listings, in the order given, that pass a search's explicit filters and lie
+ * inside its area, looked up in the spatial index, and that have none of the
+ * attribute values its parsed query excluded
+ */
+async function narrowListings<T extends Property>(
+  properties: T[],
+  filters: SearchFilters | undefined,
+  geo: GeoFilter | undefined,
+  parsedQuery: ParsedQuery | undefined
+): Promise<T[]> {
+  const inArea = geo ? new Set(await storage.searchPropertiesByArea(geo)) : null;
+  return properties.filter(property =>
+    (!hasActiveFilters(filters) || matchesFilters(property, filters)) &&
+    (!inArea || inArea.has(property.id.toString())) &&
+    (!parsedQuery || passesExclusions(property, parsedQuery.excluded))
+  );
+}
+
+/**
+ * Whether an external listing id is already used by a listing other than this one
+ */
+async function isExternalIdTaken(externalId: string | null | undefined, id?: number): Promise<boolean> {
+  if (!externalId) return false;
+  
+  const existing = await storage.getPropertyByExternalId(externalId);
+  return !!existing && existing.id !== id;
+}
+
+/**
+ * Report a failed property write, distinguishing invalid input from server errors
+ */
+function sendPropertyWriteError(res: Response, error: any) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ 
+      message: "Invalid property",
+      errors: error.errors
+    });
+  }
+  
+  console.error("Error saving property:", error);
+  res.status(500).json({ 
+    message: "An error occurred while saving the property",
+    error: error.message
+  });
+}
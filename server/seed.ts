@@ -0,0 +1,28 @@
+import path from "path";
+import { createDatabase } from "./db";
+import { seedPropertiesFromCsv } from "./db-storage";
+import { PROPERTY_CSV_PATH } from "./services/property-csv";
+
+/**
+ * Import listings from a CSV file into the database
+ * Usage: npm run db:seed [-- path/to/listings.csv]
+ * Existing listings with the same ids are updated, so it is safe to re-run
+ */
+if (!process.env.DATABASE_URL) {
+  console.error("DATABASE_URL must be set to seed the database");
+  process.exit(1);
+}
+
+const csvFilePath = path.resolve(process.cwd(), process.argv[2] || PROPERTY_CSV_PATH);
+const db = createDatabase(process.env.DATABASE_URL);
+
+(async () => {
+  try {
+    await seedPropertiesFromCsv(db, csvFilePath);
+  } catch (error) {
+    console.error("Error seeding the database:", error);
+    process.exitCode = 1;
+  } finally {
+    await db.$client.end();
+  }
+})();
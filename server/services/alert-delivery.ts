@@ -0,0 +1,76 @@
+import type { PublicUser, SearchAlertWithListing } from "@shared/schema";
+import { OutboxAlertDelivery } from "./alert-outbox";
+import { WebhookAlertDelivery } from "./alert-webhook";
+
+// The new matches for one user from one matching run, with a plain-text summary
+export interface AlertNotification {
+  user: PublicUser;
+  alerts: SearchAlertWithListing[];
+  subject: string;
+  text: string;
+}
+
+/**
+ * Common interface for the ways users are told about new saved-search matches
+ * The inbox is the record of matches; delivery is a best-effort nudge on top
+ */
+export interface AlertDelivery {
+  readonly name: string;
+  deliver(notification: AlertNotification): Promise<void>;
+}
+
+export type AlertDeliveryKind = "outbox" | "webhook" | "none";
+
+// Matches are only recorded in the inbox
+const inboxOnly: AlertDelivery = { name: "none", deliver: async () => {} };
+
+/**
+ * Resolve how alerts are delivered from the environment
+ * ALERT_DELIVERY wins when set; otherwise a webhook is used only if it has a URL
+ */
+export function resolveAlertDeliveryKind(): AlertDeliveryKind {
+  const configured = process.env.ALERT_DELIVERY?.toLowerCase();
+  if (configured === "outbox" || configured === "webhook" || configured === "none") {
+    return configured;
+  }
+  if (configured) {
+    console.warn(`Unknown ALERT_DELIVERY "${configured}", falling back to automatic selection`);
+  }
+
+  return process.env.ALERT_WEBHOOK_URL ? "webhook" : "outbox";
+}
+
+/**
+ * Create an alert delivery for the given kind
+ */
+export function createAlertDelivery(kind: AlertDeliveryKind = resolveAlertDeliveryKind()): AlertDelivery {
+  if (kind === "webhook") {
+    if (process.env.ALERT_WEBHOOK_URL) {
+      return new WebhookAlertDelivery({ url: process.env.ALERT_WEBHOOK_URL });
+    }
+    console.warn("ALERT_DELIVERY is webhook but ALERT_WEBHOOK_URL is not set; alerts go to the inbox only");
+    return inboxOnly;
+  }
+  if (kind === "none") {
+    return inboxOnly;
+  }
+
+  return new OutboxAlertDelivery({ dir: process.env.ALERT_OUTBOX_DIR });
+}
+
+export const alertDelivery = createAlertDelivery();
+console.log(`Using ${alertDelivery.name} alert delivery`);
+
+/**
+ * Notification of a user's new matches, summarised for whichever adapter delivers it
+ */
+export function createAlertNotification(user: PublicUser, alerts: SearchAlertWithListing[]): AlertNotification {
+  const subject = alerts.length === 1
+    ? `New match for "${alerts[0].savedSearchName}"`
+    : `${alerts.length} new matches for your saved searches`;
+
+  const lines = alerts.map(({ property, savedSearchName }) =>
+    `- ${property.title}, ${property.location}: £${property.price.toLocaleString("en-GB")} (${savedSearchName})`
+  );
+  return { user, alerts, subject, text: `${subject}\n\n${lines.join("\n")}\n` };
+}
@@ -0,0 +1,41 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, describe, expect, it } from 'vitest';
+import type { SearchAlertWithListing } from '@shared/schema';
+import { createAlertNotification } from './alert-delivery';
+import { OutboxAlertDelivery } from './alert-outbox';
+
+function alert(savedSearchName: string): SearchAlertWithListing {
+  return {
+    id: 1,
+    userId: 7,
+    savedSearchId: 3,
+    propertyId: 12,
+    score: 80,
+    createdAt: new Date(),
+    readAt: null,
+    savedSearchName,
+    property: { id: 12, title: 'Georgian house', location: 'Chelsea', price: 900_000, bedrooms: 3, type: 'House' }
+  };
+}
+
+describe('OutboxAlertDelivery', () => {
+  let dir: string | undefined;
+
+  afterEach(() => {
+    if (dir) fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('keeps line breaks in a saved search name out of the headers', async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'outbox-'));
+    const outbox = new OutboxAlertDelivery({ dir });
+
+    await outbox.deliver(createAlertNotification({ id: 7, username: 'buyer' }, [alert('Flats\r\nBcc: victim@example.com')]));
+
+    const [file] = fs.readdirSync(dir);
+    const headers = fs.readFileSync(path.join(dir, file), 'utf8').split('\r\n\r\n')[0].split('\r\n');
+    expect(headers).toContain('Subject: New match for "Flats Bcc: victim@example.com"');
+    expect(headers.filter(header => header.startsWith('Bcc:'))).toEqual([]);
+  });
+});
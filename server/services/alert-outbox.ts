@@ -0,0 +1,50 @@
+import fs from "fs";
+import path from "path";
+import type { AlertDelivery, AlertNotification } from "./alert-delivery";
+
+const DEFAULT_OUTBOX_DIR = ".cache/outbox";
+const SENDER = "alerts@property-search.local";
+
+interface OutboxAlertDeliveryOptions {
+  dir?: string;
+}
+
+/**
+ * Stand-in for an SMTP relay: each notification is written as an .eml message
+ * to a local outbox directory, where it can be inspected or picked up by a mailer
+ * Accounts have no email address, so messages are addressed to the username
+ */
+export class OutboxAlertDelivery implements AlertDelivery {
+  readonly name = "outbox";
+  private dir: string;
+
+  constructor(options: OutboxAlertDeliveryOptions = {}) {
+    this.dir = path.resolve(process.cwd(), options.dir || DEFAULT_OUTBOX_DIR);
+  }
+
+  async deliver(notification: AlertNotification): Promise<void> {
+    const { subject, text } = notification;
+    const sentAt = new Date();
+    const message = [
+      `From: Property Search <${SENDER}>`,
+      `To: ${toHeaderValue(notification.user.username)}`,
+      `Subject: ${toHeaderValue(subject)}`,
+      `Date: ${sentAt.toUTCString()}`,
+      "Content-Type: text/plain; charset=utf-8",
+      "",
+      text
+    ].join("\r\n");
+
+    await fs.promises.mkdir(this.dir, { recursive: true });
+    const fileName = `${sentAt.getTime()}-${notification.user.id}-${notification.alerts[0]?.id ?? 0}.eml`;
+    await fs.promises.writeFile(path.join(this.dir, fileName), message, "utf8");
+  }
+}
+
+/**
+ * Fold line breaks into spaces, so user-supplied text such as a saved search's
+ * name can't end a header early and add headers of its own
+ */
+function toHeaderValue(value: string): string {
+  return value.replace(/[\r\n]+/g, " ");
+}
@@ -0,0 +1,33 @@
+import type { AlertDelivery, AlertNotification } from "./alert-delivery";
+
+const REQUEST_TIMEOUT_MS = 10000;
+
+interface WebhookAlertDeliveryOptions {
+  url: string;
+}
+
+/**
+ * POSTs each notification as JSON to a webhook, e.g. a chat integration or a
+ * mail service's API, with the user, the new matches and a plain-text summary
+ */
+export class WebhookAlertDelivery implements AlertDelivery {
+  readonly name = "webhook";
+  private url: string;
+
+  constructor(options: WebhookAlertDeliveryOptions) {
+    this.url = options.url;
+  }
+
+  async deliver(notification: AlertNotification): Promise<void> {
+    const response = await fetch(this.url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(notification),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+    });
+
+    if (!response.ok) {
+      throw new Error(`Webhook responded ${response.status} ${response.statusText}`);
+    }
+  }
+}
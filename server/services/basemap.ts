@@ -0,0 +1,31 @@
+import type { MapBasemap } from "@shared/schema";
+import { gazetteer } from "./geocoding";
+
+// Where MAP_TILES_DIR is served from
+export const LOCAL_TILES_PATH = "/map-tiles";
+const DEFAULT_MAX_ZOOM = 18;
+
+/**
+ * The results map's basemap: labels for every gazetteer place, which need no
+ * network, and raster tiles when configured
+ * MAP_TILE_URL names any XYZ tile server; otherwise MAP_TILES_DIR is a local
+ * {z}/{x}/{y}.png tree served by this server
+ */
+export function getBasemap(): MapBasemap {
+  return {
+    places: gazetteer.places().map(({ name, kind, lat, lng }) => ({ name, kind, lat, lng })),
+    tiles: resolveTiles()
+  };
+}
+
+function resolveTiles(): MapBasemap["tiles"] {
+  const url = process.env.MAP_TILE_URL || (process.env.MAP_TILES_DIR ? `${LOCAL_TILES_PATH}/{z}/{x}/{y}.png` : "");
+  if (!url) return null;
+
+  const maxZoom = parseInt(process.env.MAP_TILE_MAX_ZOOM || "", 10);
+  return {
+    url,
+    attribution: process.env.MAP_TILE_ATTRIBUTION || "",
+    maxZoom: Number.isInteger(maxZoom) && maxZoom > 0 ? maxZoom : DEFAULT_MAX_ZOOM
+  };
+}
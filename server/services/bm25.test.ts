@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { Bm25Index, tokenize } from './bm25';
+
+describe('tokenize', () => {
+  it('drops stop words and folds simple plurals', () => {
+    expect(tokenize('Looking for a flat with gardens and glass')).toEqual(['flat', 'garden', 'glass']);
+  });
+});
+
+describe('Bm25Index', () => {
+  function index() {
+    const bm25 = new Bm25Index();
+    bm25.add('1', [{ text: 'Georgian house' }, { text: 'A Georgian terrace with a garden in Wimbledon' }]);
+    bm25.add('2', [{ text: 'Modern flat' }, { text: 'A flat with a garden in Chelsea' }]);
+    bm25.add('3', [{ text: 'Victorian house' }, { text: 'A house near the common in Clapham' }]);
+    return bm25;
+  }
+
+  it('ranks documents matching more of the query first', () => {
+    const results = index().search('Georgian house with a garden');
+
+    expect(results.map(r => r.id)).toEqual(['1', '3', '2']);
+    expect(results[0]).toMatchObject({ coverage: 1, matchedTerms: ['georgian', 'house', 'garden'] });
+    expect(results[1].coverage).toBeGreaterThan(0);
+    expect(results[1].coverage).toBeLessThan(1);
+  });
+
+  it('counts a term more in a heavier field', () => {
+    const bm25 = new Bm25Index();
+    bm25.add('title', [{ text: 'Penthouse', weight: 3 }, { text: 'A flat' }]);
+    bm25.add('description', [{ text: 'Flat', weight: 3 }, { text: 'A penthouse' }]);
+
+    expect(bm25.search('penthouse').map(r => r.id)).toEqual(['title', 'description']);
+  });
+
+  it('forgets removed and replaced documents', () => {
+    const bm25 = index();
+    bm25.remove('1');
+    bm25.add('3', [{ text: 'Modern flat' }]);
+
+    expect(bm25.size).toBe(2);
+    expect(bm25.search('Georgian')).toEqual([]);
+    expect(bm25.search('Clapham')).toEqual([]);
+  });
+
+  it('finds nothing for a query of stop words', () => {
+    expect(index().search('show me some of the')).toEqual([]);
+  });
+});
@@ -0,0 +1,154 @@
+// Standard BM25 parameters: term frequency saturation and document length normalization
+const K1 = 1.2;
+const B = 0.75;
+
+// Words too common in queries and listings to say anything about a property
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'has', 'have', 'in',
+  'is', 'it', 'its', 'me', 'my', 'near', 'of', 'on', 'or', 'the', 'this', 'to', 'with',
+  'want', 'looking', 'find', 'show', 'some', 'any'
+]);
+
+export interface Bm25Field {
+  text: string;
+  weight?: number; // Term frequency multiplier, default 1
+}
+
+export interface Bm25SearchResult {
+  id: string;
+  score: number;
+  // Share of the query's idf mass found in the document, 0-1
+  coverage: number;
+  matchedTerms: string[];
+}
+
+interface IndexedDocument {
+  termFrequencies: Map<string, number>;
+  length: number;
+}
+
+/**
+ * Split text into lowercase terms, dropping stop words and folding simple plurals
+ */
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[a-z0-9]+/g) || [])
+    .filter(term => !STOP_WORDS.has(term))
+    .map(term => term.length > 3 && term.endsWith('s') && !term.endsWith('ss') ? term.slice(0, -1) : term);
+}
+
+/**
+ * In-memory BM25 inverted index
+ * Fields are flattened into one bag of words, with weights scaling their term frequencies
+ */
+export class Bm25Index {
+  private documents: Map<string, IndexedDocument>;
+  private postings: Map<string, Set<string>>;
+  private totalLength: number;
+
+  constructor() {
+    this.documents = new Map();
+    this.postings = new Map();
+    this.totalLength = 0;
+  }
+
+  get size(): number {
+    return this.documents.size;
+  }
+
+  /**
+   * Index a document, replacing any previous version with the same id
+   */
+  add(id: string, fields: Bm25Field[]): void {
+    this.remove(id);
+
+    const termFrequencies = new Map<string, number>();
+    let length = 0;
+    for (const field of fields) {
+      const weight = field.weight ?? 1;
+      for (const term of tokenize(field.text)) {
+        termFrequencies.set(term, (termFrequencies.get(term) ?? 0) + weight);
+        length += weight;
+      }
+    }
+
+    termFrequencies.forEach((_, term) => {
+      let ids = this.postings.get(term);
+      if (!ids) {
+        ids = new Set();
+        this.postings.set(term, ids);
+      }
+      ids.add(id);
+    });
+
+    this.documents.set(id, { termFrequencies, length });
+    this.totalLength += length;
+  }
+
+  remove(id: string): void {
+    const document = this.documents.get(id);
+    if (!document) return;
+
+    document.termFrequencies.forEach((_, term) => {
+      const ids = this.postings.get(term);
+      ids?.delete(id);
+      if (ids && ids.size === 0) this.postings.delete(term);
+    });
+
+    this.documents.delete(id);
+    this.totalLength -= document.length;
+  }
+
+  /**
+   * Rank documents containing at least one query term, highest score first
+   */
+  search(query: string, topK: number = 20): Bm25SearchResult[] {
+    const terms = Array.from(new Set(tokenize(query)));
+    if (terms.length === 0 || this.documents.size === 0) return [];
+
+    const averageLength = this.totalLength / this.documents.size;
+    const idfs = new Map(terms.map(term => [term, this.idf(term)]));
+    const totalIdf = Array.from(idfs.values()).reduce((sum, idf) => sum + idf, 0);
+
+    // Only documents sharing a term with the query can score above zero
+    const candidates = new Set<string>();
+    for (const term of terms) {
+      this.postings.get(term)?.forEach(id => candidates.add(id));
+    }
+
+    const results: Bm25SearchResult[] = [];
+    candidates.forEach(id => {
+      const document = this.documents.get(id)!;
+      let score = 0;
+      let matchedIdf = 0;
+      const matchedTerms: string[] = [];
+
+      for (const term of terms) {
+        const frequency = document.termFrequencies.get(term);
+        if (!frequency) continue;
+
+        const idf = idfs.get(term)!;
+        const normalization = K1 * (1 - B + B * (document.length / averageLength));
+        score += idf * (frequency * (K1 + 1)) / (frequency + normalization);
+        matchedIdf += idf;
+        matchedTerms.push(term);
+      }
+
+      results.push({
+        id,
+        score,
+        coverage: totalIdf > 0 ? matchedIdf / totalIdf : 0,
+        matchedTerms
+      });
+    });
+
+    return results.sort((a, b) => b.score - a.score).slice(0, topK);
+  }
+
+  /**
+   * Inverse document frequency, smoothed so it stays positive for very common terms
+   */
+  private idf(term: string): number {
+    const documentFrequency = this.postings.get(term)?.size ?? 0;
+    return Math.log(1 + (this.documents.size - documentFrequency + 0.5) / (documentFrequency + 0.5));
+  }
+}
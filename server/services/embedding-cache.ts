@@ -0,0 +1,169 @@
+import fs from "fs";
+import path from "path";
+import crypto from "crypto";
+
+const DEFAULT_CACHE_PATH = ".cache/embeddings.json";
+const DEFAULT_MAX_ENTRIES = 5000;
+const PERSIST_DELAY_MS = 1000;
+
+interface EmbeddingCacheOptions {
+  // JSON file the cache is persisted to; null keeps it in memory only
+  filePath?: string | null;
+  // Least recently used entries are evicted beyond this size
+  maxEntries?: number;
+}
+
+export interface EmbeddingCacheStats {
+  size: number;
+  maxEntries: number;
+  hits: number;
+  misses: number;
+  evictions: number;
+  hitRate: number;
+}
+
+/**
+ * Disk-backed LRU cache of embeddings keyed by content hash and model
+ * Entries live in a Map, whose insertion order doubles as recency order
+ */
+export class EmbeddingCache {
+  private entries: Map<string, number[]>;
+  private filePath: string | null;
+  private maxEntries: number;
+  private loaded: boolean;
+  private persistTimer: NodeJS.Timeout | null;
+  private hits: number;
+  private misses: number;
+  private evictions: number;
+
+  constructor(options: EmbeddingCacheOptions = {}) {
+    this.entries = new Map();
+    this.filePath = options.filePath ? path.resolve(process.cwd(), options.filePath) : null;
+    this.maxEntries = options.maxEntries ?? DEFAULT_MAX_ENTRIES;
+    this.loaded = false;
+    this.persistTimer = null;
+    this.hits = 0;
+    this.misses = 0;
+    this.evictions = 0;
+  }
+
+  /**
+   * Look up the embedding of a text for a model, counting the hit or miss
+   */
+  get(text: string, model: string): number[] | undefined {
+    this.ensureLoaded();
+
+    const key = cacheKey(text, model);
+    const embedding = this.entries.get(key);
+    if (!embedding) {
+      this.misses++;
+      return undefined;
+    }
+
+    // Move to the end so it becomes the most recently used entry
+    this.entries.delete(key);
+    this.entries.set(key, embedding);
+    this.hits++;
+    return embedding;
+  }
+
+  /**
+   * Store the embedding of a text for a model
+   */
+  set(text: string, model: string, embedding: number[]): void {
+    this.ensureLoaded();
+
+    const key = cacheKey(text, model);
+    this.entries.delete(key);
+    this.entries.set(key, embedding);
+    this.evictOverflow();
+    this.schedulePersist();
+  }
+
+  getStats(): EmbeddingCacheStats {
+    const lookups = this.hits + this.misses;
+    return {
+      size: this.entries.size,
+      maxEntries: this.maxEntries,
+      hits: this.hits,
+      misses: this.misses,
+      evictions: this.evictions,
+      hitRate: lookups > 0 ? this.hits / lookups : 0
+    };
+  }
+
+  /**
+   * Drop the least recently used entries until the cache fits its limit
+   */
+  private evictOverflow(): void {
+    while (this.entries.size > this.maxEntries) {
+      const oldestKey = this.entries.keys().next().value as string;
+      this.entries.delete(oldestKey);
+      this.evictions++;
+    }
+  }
+
+  /**
+   * Load persisted entries from disk the first time the cache is used
+   */
+  private ensureLoaded(): void {
+    if (this.loaded) return;
+    this.loaded = true;
+
+    if (!this.filePath || !fs.existsSync(this.filePath)) return;
+
+    try {
+      const data = JSON.parse(fs.readFileSync(this.filePath, "utf8")) as Array<[string, number[]]>;
+      data.forEach(([key, embedding]) => this.entries.set(key, embedding));
+      this.evictOverflow();
+      console.log(`Loaded ${this.entries.size} cached embeddings from ${this.filePath}`);
+    } catch (error) {
+      console.error(`Error reading embedding cache ${this.filePath}:`, error);
+    }
+  }
+
+  /**
+   * Batch writes so a burst of new embeddings results in a single file write
+   */
+  private schedulePersist(): void {
+    if (!this.filePath || this.persistTimer) return;
+
+    this.persistTimer = setTimeout(() => {
+      this.persistTimer = null;
+      this.persist().catch(error => {
+        console.error(`Error writing embedding cache ${this.filePath}:`, error);
+      });
+    }, PERSIST_DELAY_MS);
+    this.persistTimer.unref();
+  }
+
+  private async persist(): Promise<void> {
+    if (!this.filePath) return;
+
+    await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.promises.writeFile(this.filePath, JSON.stringify(Array.from(this.entries.entries())));
+  }
+}
+
+/**
+ * Hash the model and text together so keys stay short and never collide across models
+ */
+function cacheKey(text: string, model: string): string {
+  return crypto.createHash("sha256").update(model).update("\0").update(text).digest("hex");
+}
+
+/**
+ * Create the embedding cache from the environment
+ * EMBEDDING_CACHE=off keeps it in memory only
+ */
+export function createEmbeddingCache(): EmbeddingCache {
+  const disabled = process.env.EMBEDDING_CACHE?.toLowerCase() === "off";
+  const maxEntries = parseInt(process.env.EMBEDDING_CACHE_MAX_ENTRIES || '');
+
+  return new EmbeddingCache({
+    filePath: disabled ? null : (process.env.EMBEDDING_CACHE_PATH || DEFAULT_CACHE_PATH),
+    maxEntries: maxEntries > 0 ? maxEntries : undefined
+  });
+}
+
+export const embeddingCache = createEmbeddingCache();
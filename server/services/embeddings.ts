@@ -0,0 +1,61 @@
+import { OpenAIEmbeddingProvider } from "./openai";
+import { LocalEmbeddingProvider } from "./local-embedding";
+import { embeddingCache } from "./embedding-cache";
+
+/**
+ * Common interface for the models used to turn text into vectors
+ */
+export interface EmbeddingProvider {
+  readonly model: string;
+  readonly dimension: number;
+  isAvailable(): boolean;
+  embed(text: string): Promise<number[]>;
+}
+
+export type EmbeddingProviderKind = "openai" | "local";
+
+/**
+ * Resolve which embedding provider to use from the environment
+ * EMBEDDING_PROVIDER wins when set; otherwise OpenAI is used only if it has an API key
+ */
+export function resolveEmbeddingProviderKind(): EmbeddingProviderKind {
+  const configured = process.env.EMBEDDING_PROVIDER?.toLowerCase();
+  if (configured === "openai" || configured === "local") {
+    return configured;
+  }
+  if (configured) {
+    console.warn(`Unknown EMBEDDING_PROVIDER "${configured}", falling back to automatic selection`);
+  }
+
+  return process.env.OPENAI_API_KEY ? "openai" : "local";
+}
+
+/**
+ * Create an embedding provider for the given kind
+ */
+export function createEmbeddingProvider(kind: EmbeddingProviderKind = resolveEmbeddingProviderKind()): EmbeddingProvider {
+  if (kind === "openai") {
+    return new OpenAIEmbeddingProvider();
+  }
+
+  const dimension = parseInt(process.env.LOCAL_EMBEDDING_DIMENSION || '');
+  return new LocalEmbeddingProvider(dimension > 0 ? dimension : undefined);
+}
+
+export const embeddingProvider = createEmbeddingProvider();
+console.log(`Using ${embeddingProvider.model} embeddings (${embeddingProvider.dimension} dimensions)`);
+
+/**
+ * Generate an embedding for the given text with the active provider
+ * Consults the embedding cache first so repeated texts are only embedded once
+ */
+export async function getEmbedding(text: string): Promise<number[]> {
+  const cached = embeddingCache.get(text, embeddingProvider.model);
+  if (cached) {
+    return cached;
+  }
+
+  const embedding = await embeddingProvider.embed(text);
+  embeddingCache.set(text, embeddingProvider.model, embedding);
+  return embedding;
+}
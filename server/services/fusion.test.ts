@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import type { Bm25SearchResult } from './bm25';
+import { calibrateSimilarity, fuseResults } from './fusion';
+import { BUILT_IN_PROFILE, type RankingProfile } from './ranking-profiles';
+
+const MODEL = 'text-embedding-ada-002';
+
+function lexical(id: string, coverage: number): Bm25SearchResult {
+  return { id, score: coverage * 10, coverage, matchedTerms: [] };
+}
+
+function withFusion(fusion: Partial<RankingProfile['fusion']>): RankingProfile {
+  return { ...BUILT_IN_PROFILE, fusion: { ...BUILT_IN_PROFILE.fusion, ...fusion } };
+}
+
+describe('calibrateSimilarity', () => {
+  it('rescales similarity from the model\'s floor', () => {
+    expect(calibrateSimilarity(0.85, MODEL, BUILT_IN_PROFILE)).toBeCloseTo(0.5);
+    expect(calibrateSimilarity(0.6, MODEL, BUILT_IN_PROFILE)).toBe(0);
+    expect(calibrateSimilarity(0.6, 'local-hash-ngram-256', BUILT_IN_PROFILE)).toBeCloseTo(0.6);
+  });
+});
+
+describe('fuseResults', () => {
+  it('averages calibrated similarity and keyword coverage by default', () => {
+    const fused = fuseResults(
+      [{ id: '1', score: 0.85 }, { id: '2', score: 0.76 }],
+      [lexical('2', 1)],
+      MODEL,
+      BUILT_IN_PROFILE
+    );
+
+    expect(fused.map(c => c.id)).toEqual(['2', '1']);
+    expect(fused[0].relevance).toBeCloseTo((0.2 + 1) / 2);
+    expect(fused[1].relevance).toBeCloseTo(0.5 / 2);
+  });
+
+  it('keeps a weak match weak even when it ranks first', () => {
+    const [top] = fuseResults([{ id: '1', score: 0.73 }], [], MODEL, BUILT_IN_PROFILE);
+
+    expect(top.relevance).toBeCloseTo(0.1 / 2);
+  });
+
+  it('counts only keywords when vector retrieval could not run', () => {
+    const fused = fuseResults(null, [lexical('1', 0.5)], MODEL, BUILT_IN_PROFILE);
+
+    expect(fused).toEqual([expect.objectContaining({ id: '1', relevance: 0.5 })]);
+    expect(fused[0].vector).toBeUndefined();
+  });
+
+  it('scores ranking first in every list as 1 with reciprocal rank fusion', () => {
+    const fused = fuseResults(
+      [{ id: '1', score: 0.8 }, { id: '2', score: 0.75 }],
+      [lexical('1', 0.2)],
+      MODEL,
+      withFusion({ method: 'rrf' })
+    );
+
+    expect(fused[0]).toMatchObject({ id: '1', relevance: 1 });
+    expect(fused[1].relevance).toBeCloseTo((1 / 62) / (2 / 61));
+  });
+});
@@ -0,0 +1,80 @@
+import type { Bm25SearchResult } from "./bm25";
+import type { RankingProfile } from "./ranking-profiles";
+import type { VectorSearchResult } from "./vector-store";
+
+/**
+ * A candidate found by vector retrieval, keyword retrieval or both
+ * Ranks are 1-based positions in each retriever's result list
+ */
+export interface FusedCandidate {
+  id: string;
+  relevance: number; // Fused retrieval relevance, 0-1
+  vector?: { similarity: number; rank: number; model: string };
+  lexical?: { score: number; coverage: number; rank: number; matchedTerms: string[] };
+}
+
+/**
+ * Rescale a raw cosine similarity to 0-1 for the model that produced it
+ */
+export function calibrateSimilarity(similarity: number, model: string, profile: RankingProfile): number {
+  const floor = profile.similarityFloors[model] ?? 0;
+  return Math.min(1, Math.max(0, (similarity - floor) / (1 - floor)));
+}
+
+/**
+ * Merge vector and BM25 results into one list, highest relevance first
+ * vectorResults is null when vector retrieval could not run, so only keyword
+ * relevance counts; a retriever that ran but missed a candidate counts as zero
+ */
+export function fuseResults(
+  vectorResults: VectorSearchResult[] | null,
+  lexicalResults: Bm25SearchResult[],
+  model: string,
+  profile: RankingProfile
+): FusedCandidate[] {
+  const candidates = new Map<string, FusedCandidate>();
+  const candidate = (id: string) => {
+    let entry = candidates.get(id);
+    if (!entry) {
+      entry = { id, relevance: 0 };
+      candidates.set(id, entry);
+    }
+    return entry;
+  };
+
+  vectorResults?.forEach((result, index) => {
+    candidate(result.id).vector = { similarity: result.score, rank: index + 1, model };
+  });
+  lexicalResults.forEach((result, index) => {
+    candidate(result.id).lexical = {
+      score: result.score,
+      coverage: result.coverage,
+      rank: index + 1,
+      matchedTerms: result.matchedTerms
+    };
+  });
+
+  const { method, k, vectorWeight, lexicalWeight } = profile.fusion;
+  const vectorShare = vectorResults ? vectorWeight : 0;
+  const totalWeight = vectorShare + lexicalWeight;
+
+  candidates.forEach(entry => {
+    if (totalWeight <= 0) return;
+
+    if (method === 'rrf') {
+      // Reciprocal rank fusion, scaled so ranking first in every list scores 1
+      const fused =
+        (entry.vector ? vectorShare / (k + entry.vector.rank) : 0) +
+        (entry.lexical ? lexicalWeight / (k + entry.lexical.rank) : 0);
+      entry.relevance = fused / (totalWeight / (k + 1));
+    } else {
+      // Weighted sum of calibrated similarity and the share of query keywords matched
+      const fused =
+        (entry.vector ? vectorShare * calibrateSimilarity(entry.vector.similarity, model, profile) : 0) +
+        (entry.lexical ? lexicalWeight * entry.lexical.coverage : 0);
+      entry.relevance = fused / totalWeight;
+    }
+  });
+
+  return Array.from(candidates.values()).sort((a, b) => b.relevance - a.relevance);
+}
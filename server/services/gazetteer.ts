@@ -0,0 +1,222 @@
+import fs from "fs";
+import path from "path";
+import type { Coordinates } from "@shared/schema";
+import type { Geocoder } from "./geocoding";
+
+export type GazetteerKind = "postcode" | "neighbourhood" | "borough" | "city" | "area";
+
+export interface GazetteerEntry {
+  name: string;
+  kind: GazetteerKind;
+  lat: number;
+  lng: number;
+  aliases?: string[];
+}
+
+export interface GazetteerMatch {
+  entry: GazetteerEntry;
+  coordinates: Coordinates;
+  match: "exact" | "postcode" | "contained" | "fuzzy";
+}
+
+// When several places match, the most specific one wins
+const KIND_PRIORITY: Record<GazetteerKind, number> = {
+  postcode: 0,
+  neighbourhood: 1,
+  borough: 2,
+  city: 3,
+  area: 4
+};
+
+// Full postcodes ("SW19 5AE") and outward codes ("SW19", "SW1A")
+const POSTCODE_PATTERN = /\b([a-z]{1,2}\d[a-z\d]?)(?:\s*\d[a-z]{2})?\b/g;
+
+// Names shorter than this are only matched exactly, so "Bow" doesn't match "bay"
+const MIN_FUZZY_LENGTH = 5;
+
+/**
+ * Offline geocoder over a bundled list of places: UK cities, London boroughs
+ * and neighbourhoods, and postcode districts
+ * Lookups try exact names and aliases, then postcodes, then place names
+ * contained in a longer location ("Flat 2, Chelsea, London"), then names
+ * within a small edit distance of the location ("Wimbeldon")
+ */
+export class Gazetteer implements Geocoder {
+  readonly name = "gazetteer";
+  private entries: GazetteerEntry[];
+  private byName: Map<string, GazetteerEntry>;
+
+  constructor(entries: GazetteerEntry[]) {
+    this.entries = entries;
+    this.byName = new Map();
+
+    // Most specific entries first, so they win a shared name
+    [...entries]
+      .sort((a, b) => KIND_PRIORITY[a.kind] - KIND_PRIORITY[b.kind])
+      .forEach(entry => {
+        [entry.name, ...(entry.aliases ?? [])].forEach(name => {
+          const key = normalizePlaceName(name);
+          if (!this.byName.has(key)) this.byName.set(key, entry);
+        });
+      });
+  }
+
+  /**
+   * Load entries from a JSON file; a missing or unreadable file gives an empty gazetteer
+   */
+  static fromFile(filePath: string): Gazetteer {
+    const resolved = path.resolve(process.cwd(), filePath);
+    try {
+      const entries = JSON.parse(fs.readFileSync(resolved, "utf8")) as GazetteerEntry[];
+      return new Gazetteer(entries);
+    } catch (error) {
+      console.error(`Error reading gazetteer ${resolved}, locations won't be geocoded:`, error);
+      return new Gazetteer([]);
+    }
+  }
+
+  get size(): number {
+    return this.entries.length;
+  }
+
+  isAvailable(): boolean {
+    return this.entries.length > 0;
+  }
+
+  /**
+   * Named places, leaving out postcode districts
+   */
+  places(): GazetteerEntry[] {
+    return this.entries.filter(entry => entry.kind !== "postcode");
+  }
+
+  async geocode(location: string): Promise<Coordinates | undefined> {
+    return this.lookup(location)?.coordinates;
+  }
+
+  /**
+   * Resolve a listing location, however loosely written
+   */
+  lookup(location: string): GazetteerMatch | undefined {
+    return this.match(location) ?? this.findContained(location) ?? this.findFuzzy(location);
+  }
+
+  /**
+   * Resolve a place name on its own: exact names, aliases and postcodes, with
+   * fuzzy matching only when asked for, as a query phrase like "in good order"
+   * must not be read as a place
+   */
+  match(name: string, options: { fuzzy?: boolean } = {}): GazetteerMatch | undefined {
+    const key = normalizePlaceName(name);
+    if (!key) return undefined;
+
+    const entry = this.byName.get(key);
+    if (entry) return toMatch(entry, "exact");
+
+    const postcode = this.findPostcode(key, true);
+    if (postcode) return postcode;
+
+    return options.fuzzy ? this.findFuzzy(name) : undefined;
+  }
+
+  /**
+   * Find a postcode district in the text; a sub-district like "SW1A" falls back to "SW1"
+   * With `whole` set, the text must be nothing but the postcode
+   */
+  private findPostcode(key: string, whole = false): GazetteerMatch | undefined {
+    for (const [text, outward] of Array.from(key.matchAll(POSTCODE_PATTERN), m => [m[0], m[1]])) {
+      if (whole && text !== key) continue;
+
+      const entry = this.byName.get(outward) ?? this.byName.get(outward.replace(/[a-z]$/, ""));
+      if (entry?.kind === "postcode") return toMatch(entry, "postcode");
+    }
+    return undefined;
+  }
+
+  /**
+   * Find the most specific place named as whole words inside a longer location
+   */
+  private findContained(location: string): GazetteerMatch | undefined {
+    const key = normalizePlaceName(location);
+    if (!key) return undefined;
+
+    const postcode = this.findPostcode(key);
+    if (postcode) return postcode;
+
+    let best: { entry: GazetteerEntry; length: number } | undefined;
+    const padded = ` ${key} `;
+    this.byName.forEach((entry, name) => {
+      if (entry.kind === "postcode" || !padded.includes(` ${name} `)) return;
+
+      const better = !best ||
+        KIND_PRIORITY[entry.kind] < KIND_PRIORITY[best.entry.kind] ||
+        (KIND_PRIORITY[entry.kind] === KIND_PRIORITY[best.entry.kind] && name.length > best.length);
+      if (better) best = { entry, length: name.length };
+    });
+
+    return best ? toMatch(best.entry, "contained") : undefined;
+  }
+
+  /**
+   * Find the place name closest in spelling to the location, or to one of its
+   * comma-separated parts, allowing one edit for short names and two for long ones
+   */
+  private findFuzzy(location: string): GazetteerMatch | undefined {
+    const parts = location.split(",").map(normalizePlaceName).filter(part => part.length >= MIN_FUZZY_LENGTH);
+
+    let best: { entry: GazetteerEntry; distance: number } | undefined;
+    for (const part of parts) {
+      this.byName.forEach((entry, name) => {
+        if (entry.kind === "postcode" || name.length < MIN_FUZZY_LENGTH) return;
+
+        const allowed = name.length <= 6 ? 1 : 2;
+        if (Math.abs(name.length - part.length) > allowed) return;
+
+        const distance = editDistance(part, name);
+        if (distance > allowed) return;
+
+        const better = !best || distance < best.distance ||
+          (distance === best.distance && KIND_PRIORITY[entry.kind] < KIND_PRIORITY[best.entry.kind]);
+        if (better) best = { entry, distance };
+      });
+    }
+
+    return best ? toMatch(best.entry, "fuzzy") : undefined;
+  }
+}
+
+/**
+ * Lower-case a place name and drop punctuation, so "Earl's Court" matches "earls court"
+ * and "Hammersmith & Fulham" matches "Hammersmith and Fulham"
+ */
+export function normalizePlaceName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .replace(/['’.]/g, "")
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+function toMatch(entry: GazetteerEntry, match: GazetteerMatch["match"]): GazetteerMatch {
+  return { entry, coordinates: { lat: entry.lat, lng: entry.lng }, match };
+}
+
+/**
+ * Damerau-Levenshtein distance (optimal string alignment), so a swapped pair of letters counts as one edit
+ */
+function editDistance(a: string, b: string): number {
+  const d: number[][] = Array.from({ length: a.length + 1 }, (_, i) => [i]);
+  for (let j = 1; j <= b.length; j++) d[0][j] = j;
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return d[a.length][b.length];
+}
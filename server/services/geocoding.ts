@@ -1,60 +1,82 @@
-// Geocoding service to convert location names to coordinates
-// Uses a simple mapping for demonstration purposes instead of external API
+import type { Coordinates } from "@shared/schema";
+import { Gazetteer } from "./gazetteer";
+import { NominatimGeocoder } from "./nominatim";
 
-interface Coordinates {
-  lat: number;
-  lng: number;
+// Places bundled with the app, relative to the working directory
+const DEFAULT_GAZETTEER_PATH = "data/gazetteer.json";
+
+// Words after "near", "in"... tried as a place name, e.g. "Kensington and Chelsea"
+const MAX_PLACE_WORDS = 4;
+
+/**
+ * Common interface for services that turn a location name or address into coordinates
+ */
+export interface Geocoder {
+  readonly name: string;
+  isAvailable(): boolean;
+  geocode(location: string): Promise<Coordinates | undefined>;
 }
 
-// UK cities/regions with approximate coordinates
-const locationCoordinates: Record<string, Coordinates> = {
-  "London": { lat: 51.5074, lng: -0.1278 },
-  "Manchester": { lat: 53.4808, lng: -2.2426 },
-  "Birmingham": { lat: 52.4862, lng: -1.8904 },
-  "Liverpool": { lat: 53.4084, lng: -2.9916 },
-  "Edinburgh": { lat: 55.9533, lng: -3.1883 },
-  "Glasgow": { lat: 55.8642, lng: -4.2518 },
-  "Leeds": { lat: 53.8008, lng: -1.5491 },
-  "Sheffield": { lat: 53.3811, lng: -1.4701 },
-  "Bristol": { lat: 51.4545, lng: -2.5879 },
-  "Newcastle": { lat: 54.9783, lng: -1.6178 },
-  "Nottingham": { lat: 52.9548, lng: -1.1581 },
-  "Cambridge": { lat: 52.2053, lng: 0.1218 },
-  "Oxford": { lat: 51.7520, lng: -1.2577 },
-  "Brighton": { lat: 50.8229, lng: -0.1363 },
-  "York": { lat: 53.9600, lng: -1.0873 },
-  "Bath": { lat: 51.3751, lng: -2.3617 },
-  "Cardiff": { lat: 51.4816, lng: -3.1791 },
-  "Belfast": { lat: 54.5973, lng: -5.9301 },
-  "Leicester": { lat: 52.6369, lng: -1.1398 },
-  "Coventry": { lat: 52.4068, lng: -1.5197 },
-  // Generic areas
-  "City Centre": { lat: 51.5074, lng: -0.1278 }, // Using London as default
-  "Suburb": { lat: 51.5249, lng: -0.2332 }, // West London example
-  "Countryside": { lat: 51.7608, lng: -1.2550 }, // Oxfordshire countryside
-  "Coastal": { lat: 50.8229, lng: -0.1363 }, // Brighton as an example
-  "Downtown": { lat: 51.5113, lng: -0.1162 } // Central London
-};
+export type GeocoderKind = "gazetteer" | "nominatim";
 
 /**
- * Get coordinates for a location name
- * Falls back to approximate coordinates for unknown locations
+ * Resolve which geocoder to use from the environment
+ * GEOCODER wins when set; otherwise the bundled gazetteer is used, which needs no network
  */
-export function getCoordinates(location: string): Coordinates {
-  // Try to find exact match first
-  if (locationCoordinates[location]) {
-    return locationCoordinates[location];
+export function resolveGeocoderKind(): GeocoderKind {
+  const configured = process.env.GEOCODER?.toLowerCase();
+  if (configured === "gazetteer" || configured === "nominatim") {
+    return configured;
   }
-  
-  // Try to find partial matches
-  for (const [key, coords] of Object.entries(locationCoordinates)) {
-    if (location.includes(key) || key.includes(location)) {
-      return coords;
+  if (configured) {
+    console.warn(`Unknown GEOCODER "${configured}", falling back to the gazetteer`);
+  }
+
+  return "gazetteer";
+}
+
+export const gazetteer = Gazetteer.fromFile(process.env.GAZETTEER_PATH || DEFAULT_GAZETTEER_PATH);
+
+/**
+ * Create a geocoder for the given kind
+ */
+export function createGeocoder(kind: GeocoderKind = resolveGeocoderKind()): Geocoder {
+  if (kind === "nominatim") {
+    return new NominatimGeocoder({
+      baseUrl: process.env.NOMINATIM_URL,
+      userAgent: process.env.GEOCODER_USER_AGENT
+    });
+  }
+
+  return gazetteer;
+}
+
+export const geocoder = createGeocoder();
+console.log(`Using ${geocoder.name} geocoder (${gazetteer.size} gazetteer places)`);
+
+/**
+ * Get coordinates for a location name from the gazetteer
+ * Returns undefined for places it doesn't know rather than guessing
+ */
+export function getCoordinates(location: string): Coordinates | undefined {
+  return gazetteer.lookup(location)?.coordinates;
+}
+
+/**
+ * Geocode a listing location with the configured geocoder, falling back to
+ * the gazetteer when an online geocoder fails or finds nothing
+ */
+export async function geocodeLocation(location: string): Promise<Coordinates | undefined> {
+  if (geocoder !== gazetteer && geocoder.isAvailable()) {
+    try {
+      const coordinates = await geocoder.geocode(location);
+      if (coordinates) return coordinates;
+    } catch (error) {
+      console.error(`Error geocoding "${location}" with ${geocoder.name}:`, error);
     }
   }
-  
-  // Default to London if no match is found
-  return locationCoordinates["London"];
+
+  return getCoordinates(location);
 }
 
 /**
@@ -85,34 +107,42 @@ function toRad(degrees: number): number {
 }
 
 /**
- * Parse a location from a query string
- * Looks for patterns like "near London", "close to Oxford", etc.
+ * Find a place named in a query string
+ * Looks for phrases like "near Wimbledon", "in SW19" or "close to Canary Wharf",
+ * preferring the longest run of words that names a place exactly, then
+ * allowing for typos ("near Wimbeldon")
  */
-export function parseLocationQuery(query: string): string | null {
-  // Look for common location phrases
-  const nearMatch = query.match(/(?:near|close to|in|by|around|next to)\s+([A-Za-z\s]+(?:City Centre|Suburb|Countryside|Coastal|Downtown|London|Manchester|Birmingham|Liverpool|Edinburgh|Glasgow|Leeds|Sheffield|Bristol|Newcastle|Nottingham|Cambridge|Oxford|Brighton|York|Bath|Cardiff|Belfast|Leicester|Coventry))/i);
-  
-  if (nearMatch && nearMatch[1]) {
-    return nearMatch[1].trim();
+export function parseLocationQuery(query: string): { name: string; coordinates: Coordinates } | null {
+  // The phrase is captured in a lookahead so "near a park in Chelsea" still finds "in Chelsea"
+  const phrases = Array.from(
+    query.matchAll(/\b(?:near(?: to)?|close to|in|by|around|next to)\s+(?:the\s+)?(?=([^,.;!?]+))/gi),
+    m => m[1]
+  );
+
+  for (const phrase of phrases) {
+    const words = phrase.trim().split(/\s+/).slice(0, MAX_PLACE_WORDS);
+
+    for (const fuzzy of [false, true]) {
+      for (let count = words.length; count > 0; count--) {
+        const found = gazetteer.match(words.slice(0, count).join(" "), { fuzzy });
+        if (found) {
+          return { name: found.entry.name, coordinates: found.coordinates };
+        }
+      }
+    }
   }
-  
+
   return null;
 }
 
 /**
  * Calculate proximity score boost based on distance
- * Returns a value between 0 and 0.4, with 0.4 being for very close locations
+ * Returns the boost of the first tier the distance is strictly within, or 0 beyond all of them
  */
-export function calculateProximityBoost(distance: number): number {
-  if (distance < 1) {
-    return 0.4; // Very close (less than 1km)
-  } else if (distance < 5) {
-    return 0.3; // Close (less than 5km)
-  } else if (distance < 20) {
-    return 0.2; // Somewhat close (less than 20km)
-  } else if (distance < 50) {
-    return 0.1; // Nearby (less than 50km)
-  } else {
-    return 0; // Not close enough for a boost
-  }
-}
\ No newline at end of file
+export function calculateProximityBoost(
+  distance: number,
+  tiers: Array<{ within: number; boost: number }>
+): number {
+  const tier = tiers.find(t => distance < t.within);
+  return tier ? tier.boost : 0;
+}
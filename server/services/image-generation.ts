@@ -3,8 +3,15 @@ import { Property } from "@shared/schema";
 import path from "path";
 import fs from "fs";
 
-// Initialize OpenAI client
-const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+// OpenAI client, created on first use so the server can start without an API key
+let openai: OpenAI | null = null;
+
+function getOpenAIClient(): OpenAI {
+  if (!openai) {
+    openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+  }
+  return openai;
+}
 
 // Ensure the images directory exists
 const imagesDir = path.join(process.cwd(), "client", "public", "generated-images");
@@ -25,7 +32,7 @@ export async function generatePropertyImage(property: Property): Promise<{ filen
     // Generate the image using DALL-E
     let imageUrl;
     try {
-      const response = await openai.images.generate({
+      const response = await getOpenAIClient().images.generate({
         model: "dall-e-3", // The newest OpenAI image model is "dall-e-3" which was released after the knowledge cutoff
         prompt: prompt,
         n: 1, // Generate 1 image
@@ -0,0 +1,72 @@
+import { Writable } from 'stream';
+import { describe, expect, it } from 'vitest';
+import type { PropertyWithCoordinates } from '@shared/schema';
+import { writeListings } from './listing-export';
+
+function listing(id: number): PropertyWithCoordinates {
+  return {
+    id,
+    externalId: null,
+    title: `Listing ${id}`,
+    description: 'A flat',
+    type: 'Flat',
+    style: 'Modern',
+    location: 'Chelsea',
+    bedrooms: 2,
+    bathrooms: 1,
+    price: 500_000,
+    view: 'No View',
+    furnishing: 'Unfurnished',
+    embedding: null,
+    coordinates: { lat: 51.49, lng: -0.17 }
+  };
+}
+
+// A stream that is saturated by every write and never drains, like a stalled client
+function stalledStream() {
+  const chunks: string[] = [];
+  const out = new Writable({
+    highWaterMark: 1,
+    write(chunk, _encoding, _callback) {
+      chunks.push(chunk.toString());
+    }
+  });
+  return { out, chunks };
+}
+
+describe('writeListings', () => {
+  it('writes a GeoJSON feature collection', async () => {
+    let text = '';
+    const out = new Writable({
+      write(chunk, _encoding, callback) {
+        text += chunk.toString();
+        callback();
+      }
+    });
+
+    await writeListings(out, [listing(1), listing(2)], 'geojson');
+
+    const collection = JSON.parse(text);
+    expect(collection.features.map((feature: { id: number }) => feature.id)).toEqual([1, 2]);
+    expect(collection.features[0].geometry).toEqual({ type: 'Point', coordinates: [-0.17, 51.49] });
+  });
+
+  it('stops writing once the client disconnects', async () => {
+    const { out, chunks } = stalledStream();
+    const written = writeListings(out, [listing(1), listing(2), listing(3)], 'csv');
+
+    out.destroy();
+
+    await expect(written).resolves.toBeUndefined();
+    expect(chunks).toHaveLength(1);
+  });
+
+  it('rejects when the stream fails', async () => {
+    const { out } = stalledStream();
+    const written = writeListings(out, [listing(1)], 'json');
+
+    out.destroy(new Error('socket hang up'));
+
+    await expect(written).rejects.toThrow('socket hang up');
+  });
+});
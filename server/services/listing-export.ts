@@ -0,0 +1,130 @@
+import type { Writable } from 'stream';
+import type { ExportFormat, PropertyWithCoordinates } from '@shared/schema';
+
+// Columns of a CSV export, matching those the bulk import reads
+const CSV_COLUMNS = [
+  'id', 'external_id', 'title', 'description', 'type', 'style', 'location',
+  'bedrooms', 'bathrooms', 'price', 'view', 'furnishing', 'latitude', 'longitude'
+] as const;
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+  geojson: 'application/geo+json; charset=utf-8'
+};
+
+/**
+ * Write listings to a stream one at a time, waiting whenever the stream is
+ * saturated so large exports never build the whole document in memory.
+ * Stops early if the stream closes, e.g. when the client disconnects
+ */
+export async function writeListings(
+  out: Writable,
+  properties: PropertyWithCoordinates[],
+  format: ExportFormat
+): Promise<void> {
+  // False once the stream can take no more
+  const write = async (chunk: string) => {
+    if (out.destroyed) return false;
+    if (!out.write(chunk)) {
+      await waitForDrain(out);
+    }
+    return !out.destroyed;
+  };
+
+  const [open, close] = {
+    csv: [CSV_COLUMNS.join(',') + '\n', ''],
+    json: ['[', '\n]\n'],
+    geojson: ['{"type":"FeatureCollection","features":[', '\n]}\n']
+  }[format];
+
+  if (!await write(open)) return;
+  for (let i = 0; i < properties.length; i++) {
+    const separator = format === 'csv' ? '' : (i === 0 ? '\n' : ',\n');
+    if (!await write(separator + formatListing(properties[i], format))) return;
+  }
+  await write(close);
+}
+
+/**
+ * Wait until a saturated stream drains or closes, so a stream that never
+ * drains again can't leave the export waiting forever
+ */
+function waitForDrain(out: Writable): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (out.destroyed) return resolve();
+
+    const done = (error?: Error) => {
+      out.off('drain', onDrain);
+      out.off('close', onDrain);
+      out.off('error', done);
+      if (error) reject(error);
+      else resolve();
+    };
+    const onDrain = () => done();
+
+    out.on('drain', onDrain);
+    out.on('close', onDrain);
+    out.on('error', done);
+  });
+}
+
+function formatListing(property: PropertyWithCoordinates, format: ExportFormat): string {
+  const listing = toExportedListing(property);
+
+  if (format === 'csv') {
+    return CSV_COLUMNS.map(column => escapeCsv(listing[column])).join(',') + '\n';
+  }
+
+  if (format === 'json') {
+    return JSON.stringify(listing);
+  }
+
+  // GeoJSON positions are [longitude, latitude]; listings that couldn't be geocoded keep a null geometry
+  const { latitude, longitude, ...properties } = listing;
+  return JSON.stringify({
+    type: 'Feature',
+    id: property.id,
+    geometry: latitude !== null && longitude !== null
+      ? { type: 'Point', coordinates: [longitude, latitude] }
+      : null,
+    properties
+  });
+}
+
+/**
+ * A stable external id for a listing that came without one, e.g. from the
+ * bundled CSV, so every exported row can be imported again
+ */
+function getDerivedExternalId(id: number): string {
+  return `listing-${id}`;
+}
+
+/**
+ * Flatten a listing for export, dropping the stored embedding
+ */
+function toExportedListing(property: PropertyWithCoordinates) {
+  return {
+    id: property.id,
+    external_id: property.externalId ?? getDerivedExternalId(property.id),
+    title: property.title,
+    description: property.description,
+    type: property.type,
+    style: property.style,
+    location: property.location,
+    bedrooms: property.bedrooms,
+    bathrooms: property.bathrooms,
+    price: property.price,
+    view: property.view,
+    furnishing: property.furnishing,
+    latitude: property.coordinates?.lat ?? null,
+    longitude: property.coordinates?.lng ?? null
+  };
+}
+
+function escapeCsv(value: string | number | null): string {
+  if (value === null) return '';
+
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
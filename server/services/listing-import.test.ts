@@ -0,0 +1,104 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { Property, PropertyWithCoordinates } from '@shared/schema';
+import type { IStorage, PropertyWrite } from '../storage';
+import { importListings } from './listing-import';
+
+const HEADER = 'id,external_id,title,description,type,style,location,bedrooms,bathrooms,price,view,furnishing';
+
+function listing(id: number, externalId: string | null): Property {
+  return {
+    id,
+    externalId,
+    title: `Listing ${id}`,
+    description: 'A flat',
+    type: 'Flat',
+    style: 'Modern',
+    location: 'Chelsea',
+    bedrooms: 2,
+    bathrooms: 1,
+    price: 500_000,
+    view: 'No View',
+    furnishing: 'Unfurnished',
+    embedding: null
+  };
+}
+
+function row(id: number | '', externalId: string, extra = ''): string {
+  return `${id},${externalId},Flat ${externalId},A flat,Flat,Modern,Chelsea,2,1,500000,No View,Unfurnished${extra}`;
+}
+
+// Just the storage methods an import uses, over a fixed set of listings
+function fakeStorage(
+  listings: Property[],
+  importProperties: (writes: PropertyWrite[]) => Promise<PropertyWithCoordinates[]> = async writes =>
+    writes.map((write, index) => ({ ...listing(write.id ?? 100 + index, write.property.externalId ?? null) }))
+) {
+  return {
+    getPropertyById: async (id: number) => listings.find(l => l.id === id),
+    getPropertyByExternalId: async (externalId: string) => listings.find(l => l.externalId === externalId),
+    importProperties: vi.fn(importProperties)
+  } as unknown as IStorage & { importProperties: ReturnType<typeof vi.fn> };
+}
+
+describe('importListings', () => {
+  it('creates new listings and updates those matched by external id', async () => {
+    const storage = fakeStorage([listing(1, 'a')]);
+    const report = await importListings(storage, [HEADER, row('', 'a'), row('', 'b')].join('\n'), 'csv');
+
+    expect(report.rows).toMatchObject([
+      { row: 1, externalId: 'a', status: 'updated', id: 1 },
+      { row: 2, externalId: 'b', status: 'created', id: 101 }
+    ]);
+    expect(storage.importProperties).toHaveBeenCalledTimes(1);
+    expect(storage.importProperties.mock.calls[0][0].map((w: PropertyWrite) => w.id)).toEqual([1, undefined]);
+  });
+
+  it('updates the listing named by id, giving it the row\'s external id', async () => {
+    const storage = fakeStorage([listing(7, null)]);
+    const report = await importListings(storage, [HEADER, row(7, 'listing-7')].join('\n'), 'csv');
+
+    expect(report.rows).toMatchObject([{ status: 'updated', id: 7 }]);
+    expect(report.error).toBeUndefined();
+  });
+
+  it.each([
+    ['an unknown id', [listing(1, 'a')], row(2, 'b'), 'id: No listing 2; leave id out to create one'],
+    ['an external id owned by another listing', [listing(1, 'a'), listing(2, 'b')], row(2, 'a'), 'id: External id "a" belongs to listing 1'],
+    ['an id whose listing has another external id', [listing(3, 'c')], row(3, 'd'), 'id: Listing 3 has external id "c"']
+  ])('rejects a row with %s', async (_description, listings, line, error) => {
+    const report = await importListings(fakeStorage(listings), [HEADER, line].join('\n'), 'csv');
+
+    expect(report.rows).toEqual([expect.objectContaining({ status: 'rejected', errors: [error] })]);
+  });
+
+  it('ignores an embedding column, as in an export', async () => {
+    const storage = fakeStorage([]);
+    const report = await importListings(storage, [HEADER + ',embedding', row('', 'a', ',"[0.1,0.2]"')].join('\n'), 'csv');
+
+    expect(report.rows).toMatchObject([{ status: 'created' }]);
+    expect(storage.importProperties.mock.calls[0][0][0].property).not.toHaveProperty('embedding');
+  });
+
+  it('reports every row as rejected when writing them fails', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const storage = fakeStorage([listing(1, 'a')], async () => {
+      throw new Error('connection lost');
+    });
+    const report = await importListings(storage, [HEADER, row('', 'a'), row('', 'b'), row('', '')].join('\n'), 'csv');
+
+    expect(report).toMatchObject({ created: 0, updated: 0, rejected: 3, rolledBack: true });
+    expect(report.error).toContain('connection lost');
+    expect(report.rows.slice(0, 2)).toEqual([
+      { row: 1, externalId: 'a', status: 'rejected', errors: ['Not written: connection lost'] },
+      { row: 2, externalId: 'b', status: 'rejected', errors: ['Not written: connection lost'] }
+    ]);
+  });
+
+  it('writes nothing on a dry run', async () => {
+    const storage = fakeStorage([]);
+    const report = await importListings(storage, [HEADER, row('', 'a')].join('\n'), 'csv', { dryRun: true });
+
+    expect(report.rows).toMatchObject([{ status: 'created' }]);
+    expect(storage.importProperties).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,263 @@
+import { parse } from 'csv-parse/sync';
+import {
+  insertPropertySchema,
+  type InsertProperty,
+  type ImportReport,
+  type ImportRowResult,
+  type ListingFormat,
+  type Property
+} from '@shared/schema';
+import type { IStorage } from '../storage';
+
+// Columns read as numbers from delimited text
+const NUMERIC_FIELDS = ['id', 'bedrooms', 'bathrooms', 'price', 'latitude', 'longitude'];
+// Alternative column names accepted for the external listing id
+const EXTERNAL_ID_FIELDS = ['externalId', 'external_id', 'listing_id', 'listingId'];
+
+export interface ListingRecord {
+  row: number; // 1-based data row, not counting a header
+  values?: Record<string, unknown>;
+  error?: string; // Set when the row itself could not be parsed
+}
+
+export type ListingValidation =
+  | { property: InsertProperty; id?: number; externalId?: string; embedding?: string }
+  | { errors: string[] };
+
+/**
+ * Guess the format from a file name or content type
+ */
+export function detectListingFormat(nameOrType: string): ListingFormat | undefined {
+  const value = nameOrType.toLowerCase();
+  if (/\.(jsonl|ndjson)$|ndjson|jsonl|json-lines/.test(value)) return 'jsonl';
+  if (/\.tsv$|tab-separated/.test(value)) return 'tsv';
+  if (/\.csv$|csv/.test(value)) return 'csv';
+  return undefined;
+}
+
+/**
+ * Split a listing file into records without validating them
+ * Delimited formats need a header row; JSON Lines has one object per line
+ */
+export function parseListingRecords(content: string, format: ListingFormat): ListingRecord[] {
+  if (format === 'jsonl') {
+    const records: ListingRecord[] = [];
+    content.split(/\r?\n/).forEach(line => {
+      if (!line.trim()) return;
+
+      const row = records.length + 1;
+      try {
+        const values = JSON.parse(line);
+        records.push(values && typeof values === 'object' && !Array.isArray(values)
+          ? { row, values }
+          : { row, error: 'Line is not a JSON object' });
+      } catch (error: any) {
+        records.push({ row, error: `Invalid JSON: ${error.message}` });
+      }
+    });
+    return records;
+  }
+
+  const rows: Array<Record<string, string>> = parse(content, {
+    columns: (header: string[]) => header.map(column => column.trim()),
+    delimiter: format === 'tsv' ? '\t' : ',',
+    skip_empty_lines: true,
+    trim: true,
+    bom: true,
+    // Report short or long rows as rejected instead of failing the whole file
+    relax_column_count: true
+  });
+
+  return rows.map((values, index) => ({ row: index + 1, values }));
+}
+
+/**
+ * Check a record against insertPropertySchema
+ * Numeric columns from delimited text are converted first; a missing view or
+ * furnishing defaults to "No View" / "Unfurnished" as in the bundled CSV
+ * latitude and longitude columns, given together, override geocoding
+ */
+export function validateListingRecord(values: Record<string, unknown>): ListingValidation {
+  const record: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(values)) {
+    if (value === '' || value === null || value === undefined) continue;
+    record[key] = NUMERIC_FIELDS.includes(key) && typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value))
+      ? Number(value)
+      : value;
+  }
+
+  if ((record.latitude === undefined) !== (record.longitude === undefined)) {
+    return { errors: ['coordinates: latitude and longitude must be given together'] };
+  }
+  const coordinates = record.latitude !== undefined
+    ? { lat: record.latitude, lng: record.longitude }
+    : record.coordinates;
+
+  const externalIdField = EXTERNAL_ID_FIELDS.find(field => record[field] !== undefined);
+  const externalId = externalIdField ? String(record[externalIdField]) : undefined;
+
+  const result = insertPropertySchema.safeParse({
+    ...record,
+    view: record.view ?? 'No View',
+    furnishing: record.furnishing ?? 'Unfurnished',
+    externalId,
+    coordinates
+  });
+
+  if (!result.success) {
+    return {
+      errors: result.error.errors.map(issue => issue.path.length > 0
+        ? `${issue.path.join('.')}: ${issue.message}`
+        : issue.message)
+    };
+  }
+
+  const id = record.id;
+  if (id !== undefined && (typeof id !== 'number' || !Number.isInteger(id) || id < 1)) {
+    return { errors: ['id: Expected a positive integer'] };
+  }
+
+  return {
+    property: result.data,
+    id: id as number | undefined,
+    externalId,
+    embedding: typeof record.embedding === 'string' ? record.embedding : undefined
+  };
+}
+
+/**
+ * Validate every row of a listing file, then upsert the valid ones by external id
+ * A row with an id, as in an export, updates that listing instead, and may not
+ * move an external id between listings; an embedding column is ignored, since
+ * listings are embedded when they're written
+ * The report is complete before anything is written; a dry run stops there
+ * The rows are written together, and if that fails none are kept and each is
+ * reported as rejected with the reason
+ */
+export async function importListings(
+  storage: IStorage,
+  content: string,
+  format: ListingFormat,
+  options: { dryRun?: boolean } = {}
+): Promise<ImportReport> {
+  const dryRun = options.dryRun ?? false;
+  const rows: ImportRowResult[] = [];
+  const accepted: Array<{ result: ImportRowResult; property: InsertProperty }> = [];
+  const firstRowByExternalId = new Map<string, number>();
+
+  let records: ListingRecord[];
+  try {
+    records = parseListingRecords(content, format);
+  } catch (error: any) {
+    // A malformed delimited file can't be split into rows at all
+    return emptyReport(format, dryRun, `Could not parse ${format.toUpperCase()}: ${error.message}`);
+  }
+
+  for (const record of records) {
+    if (!record.values) {
+      rows.push({ row: record.row, status: 'rejected', errors: [record.error ?? 'Unreadable row'] });
+      continue;
+    }
+
+    const validation = validateListingRecord(record.values);
+    if ('errors' in validation) {
+      rows.push({ row: record.row, status: 'rejected', errors: validation.errors });
+      continue;
+    }
+
+    const { property, id, externalId } = validation;
+    if (!externalId) {
+      rows.push({ row: record.row, status: 'rejected', errors: ['externalId: Required to match existing listings'] });
+      continue;
+    }
+
+    const firstRow = firstRowByExternalId.get(externalId);
+    if (firstRow !== undefined) {
+      rows.push({ row: record.row, externalId, status: 'rejected', errors: [`externalId: Duplicate of row ${firstRow}`] });
+      continue;
+    }
+    firstRowByExternalId.set(externalId, record.row);
+
+    const target = await findImportTarget(storage, id, externalId);
+    if ('error' in target) {
+      rows.push({ row: record.row, externalId, status: 'rejected', errors: [target.error] });
+      continue;
+    }
+
+    const { existing } = target;
+    const result: ImportRowResult = existing
+      ? { row: record.row, externalId, status: 'updated', id: existing.id }
+      : { row: record.row, externalId, status: 'created' };
+    rows.push(result);
+    accepted.push({ result, property });
+  }
+
+  let error: string | undefined;
+  if (!dryRun && accepted.length > 0) {
+    try {
+      const saved = await storage.importProperties(accepted.map(({ result, property }) => ({ id: result.id, property })));
+      accepted.forEach(({ result }, index) => {
+        result.id = saved[index].id;
+      });
+    } catch (writeError: any) {
+      console.error('Error writing imported listings:', writeError);
+      error = `Writing the listings failed, so none were imported: ${writeError.message}`;
+      for (const { result } of accepted) {
+        result.status = 'rejected';
+        result.errors = [`Not written: ${writeError.message}`];
+        delete result.id;
+      }
+    }
+  }
+
+  return {
+    format,
+    dryRun,
+    total: rows.length,
+    created: rows.filter(r => r.status === 'created').length,
+    updated: rows.filter(r => r.status === 'updated').length,
+    rejected: rows.filter(r => r.status === 'rejected').length,
+    rows,
+    ...(error ? { error, rolledBack: true } : {})
+  };
+}
+
+/**
+ * The listing a row updates: the one with its id when it has one, otherwise
+ * the one with its external id, if any
+ */
+async function findImportTarget(
+  storage: IStorage,
+  id: number | undefined,
+  externalId: string
+): Promise<{ existing?: Property } | { error: string }> {
+  const existing = await storage.getPropertyByExternalId(externalId);
+  if (id === undefined) {
+    return { existing };
+  }
+
+  if (existing && existing.id !== id) {
+    return { error: `id: External id "${externalId}" belongs to listing ${existing.id}` };
+  }
+  const listing = existing ?? await storage.getPropertyById(id);
+  if (!listing) {
+    return { error: `id: No listing ${id}; leave id out to create one` };
+  }
+  if (listing.externalId && listing.externalId !== externalId) {
+    return { error: `id: Listing ${id} has external id "${listing.externalId}"` };
+  }
+  return { existing: listing };
+}
+
+/**
+ * Ids of the listings an import created or updated
+ */
+export function getImportedIds(report: ImportReport): number[] {
+  return report.rows
+    .filter(row => row.status !== 'rejected' && row.id !== undefined)
+    .map(row => row.id!);
+}
+
+function emptyReport(format: ListingFormat, dryRun: boolean, error: string): ImportReport {
+  return { format, dryRun, total: 0, created: 0, updated: 0, rejected: 0, rows: [], error };
+}
@@ -0,0 +1,96 @@
+import type { EmbeddingProvider } from "./embeddings";
+
+const DEFAULT_DIMENSION = 384;
+
+// Common words that carry no meaning for property matching
+const STOP_WORDS = new Set([
+  'a', 'an', 'the', 'and', 'or', 'with', 'in', 'of', 'to', 'for', 'is', 'it',
+  'on', 'at', 'by', 'this', 'that', 'from', 'as', 'be', 'are', 'has', 'have'
+]);
+
+// Relative weights of each feature family
+const WORD_WEIGHT = 1.0;
+const BIGRAM_WEIGHT = 0.5;
+const TRIGRAM_WEIGHT = 0.25;
+
+/**
+ * Deterministic, network-free embedding provider
+ * Projects hashed word unigrams, word bigrams and character trigrams into a
+ * fixed number of dimensions (the "hashing trick"), so the same text always
+ * produces the same vector and similar wording produces similar vectors
+ */
+export class LocalEmbeddingProvider implements EmbeddingProvider {
+  readonly model: string;
+  readonly dimension: number;
+
+  constructor(dimension: number = DEFAULT_DIMENSION) {
+    this.dimension = dimension;
+    this.model = `local-hash-ngram-${dimension}`;
+  }
+
+  isAvailable(): boolean {
+    return true;
+  }
+
+  async embed(text: string): Promise<number[]> {
+    const vector = new Array<number>(this.dimension).fill(0);
+    const words = tokenize(text);
+
+    words.forEach((word, i) => {
+      this.addFeature(vector, `w:${word}`, WORD_WEIGHT);
+
+      if (i > 0) {
+        this.addFeature(vector, `b:${words[i - 1]} ${word}`, BIGRAM_WEIGHT);
+      }
+
+      // Character trigrams make the vector tolerant of plurals and typos
+      const padded = `#${word}#`;
+      for (let j = 0; j + 3 <= padded.length; j++) {
+        this.addFeature(vector, `c:${padded.slice(j, j + 3)}`, TRIGRAM_WEIGHT);
+      }
+    });
+
+    // Dampen repeated features and scale to unit length
+    let norm = 0;
+    for (let i = 0; i < vector.length; i++) {
+      vector[i] = Math.sign(vector[i]) * Math.log1p(Math.abs(vector[i]));
+      norm += vector[i] * vector[i];
+    }
+    norm = Math.sqrt(norm);
+
+    return norm > 0 ? vector.map(v => v / norm) : vector;
+  }
+
+  /**
+   * Add a weighted feature to the vector, using a second hash bit for the sign
+   * so collisions cancel out rather than accumulate
+   */
+  private addFeature(vector: number[], feature: string, weight: number): void {
+    const hash = fnv1a(feature);
+    const index = hash % this.dimension;
+    const sign = (hash >>> 31) === 1 ? -1 : 1;
+    vector[index] += sign * weight;
+  }
+}
+
+/**
+ * Lowercase the text and split it into meaningful word tokens
+ */
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^a-z0-9£]+/)
+    .filter(word => word.length > 0 && !STOP_WORDS.has(word));
+}
+
+/**
+ * 32-bit FNV-1a hash
+ */
+function fnv1a(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
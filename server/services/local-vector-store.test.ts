@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { LocalVectorStore } from './local-vector-store';
+
+describe('LocalVectorStore', () => {
+  it('ranks vectors by cosine similarity', async () => {
+    const store = new LocalVectorStore();
+    await store.upsert([
+      { id: '1', embedding: [1, 0], model: 'a', dimension: 2 },
+      { id: '2', embedding: [1, 1], model: 'a', dimension: 2 }
+    ]);
+
+    const results = await store.search([2, 2], 'a');
+    expect(results.map(r => r.id)).toEqual(['2', '1']);
+    expect(results[0].score).toBeCloseTo(1);
+  });
+
+  it('skips vectors from another model of the same dimension', async () => {
+    const store = new LocalVectorStore();
+    await store.upsert([
+      { id: '1', embedding: [1, 0], model: 'a', dimension: 2 },
+      { id: '2', embedding: [1, 0], model: 'b', dimension: 2 }
+    ]);
+
+    expect((await store.search([1, 0], 'a')).map(r => r.id)).toEqual(['1']);
+  });
+});
@@ -0,0 +1,136 @@
+import fs from "fs";
+import path from "path";
+import { PropertyEmbedding } from "@shared/schema";
+import type { VectorSearchResult, VectorStore } from "./vector-store";
+
+interface StoredVector {
+  model: string;
+  vector: Float32Array; // Unit length
+}
+
+interface LocalVectorStoreOptions {
+  // Optional JSON file used to persist the index between restarts
+  filePath?: string;
+}
+
+/**
+ * In-process vector store using exact cosine similarity
+ * Suitable for the listing counts this app deals with (hundreds to low thousands)
+ */
+export class LocalVectorStore implements VectorStore {
+  readonly name = "local";
+  private vectors: Map<string, StoredVector>;
+  private filePath: string | null;
+  private loaded: boolean;
+
+  constructor(options: LocalVectorStoreOptions = {}) {
+    this.vectors = new Map();
+    this.filePath = options.filePath ? path.resolve(process.cwd(), options.filePath) : null;
+    this.loaded = false;
+  }
+
+  isAvailable(): boolean {
+    return true;
+  }
+
+  async upsert(vectors: PropertyEmbedding[]): Promise<void> {
+    this.ensureLoaded();
+
+    for (const v of vectors) {
+      this.vectors.set(v.id, { model: v.model, vector: normalize(v.embedding) });
+    }
+
+    await this.persist();
+  }
+
+  async search(queryEmbedding: number[], model: string, topK: number = 20): Promise<VectorSearchResult[]> {
+    this.ensureLoaded();
+
+    const query = normalize(queryEmbedding);
+    const results: VectorSearchResult[] = [];
+
+    this.vectors.forEach(({ model: vectorModel, vector }, id) => {
+      // Scores between two models' vectors mean nothing, even when their dimensions match
+      if (vectorModel !== model || vector.length !== query.length) return;
+
+      let dot = 0;
+      for (let i = 0; i < query.length; i++) {
+        dot += query[i] * vector[i];
+      }
+      results.push({ id, score: dot });
+    });
+
+    results.sort((a, b) => b.score - a.score);
+    return results.slice(0, topK);
+  }
+
+  async delete(ids: string[]): Promise<void> {
+    this.ensureLoaded();
+
+    ids.forEach(id => this.vectors.delete(id));
+    await this.persist();
+  }
+
+  async size(): Promise<number> {
+    this.ensureLoaded();
+    return this.vectors.size;
+  }
+
+  /**
+   * Load persisted vectors from disk the first time the store is used
+   */
+  private ensureLoaded(): void {
+    if (this.loaded) return;
+    this.loaded = true;
+
+    if (!this.filePath || !fs.existsSync(this.filePath)) return;
+
+    try {
+      const data = JSON.parse(fs.readFileSync(this.filePath, "utf8")) as PropertyEmbedding[];
+      for (const v of data) {
+        this.vectors.set(v.id, { model: v.model, vector: normalize(v.embedding) });
+      }
+      console.log(`Loaded ${this.vectors.size} vectors from ${this.filePath}`);
+    } catch (error) {
+      console.error(`Error reading vector store file ${this.filePath}:`, error);
+    }
+  }
+
+  /**
+   * Write the index to disk when a file path is configured
+   */
+  private async persist(): Promise<void> {
+    if (!this.filePath) return;
+
+    const data: PropertyEmbedding[] = [];
+    this.vectors.forEach(({ model, vector }, id) => {
+      data.push({ id, embedding: Array.from(vector), model, dimension: vector.length });
+    });
+
+    try {
+      await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.promises.writeFile(this.filePath, JSON.stringify(data));
+    } catch (error) {
+      console.error(`Error writing vector store file ${this.filePath}:`, error);
+    }
+  }
+}
+
+/**
+ * Scale a vector to unit length so a dot product gives cosine similarity
+ */
+function normalize(vector: number[]): Float32Array {
+  let norm = 0;
+  for (const value of vector) {
+    norm += value * value;
+  }
+  norm = Math.sqrt(norm);
+
+  const result = new Float32Array(vector.length);
+  if (norm === 0) return result;
+
+  for (let i = 0; i < vector.length; i++) {
+    result[i] = vector[i] / norm;
+  }
+  return result;
+}
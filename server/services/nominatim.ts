@@ -0,0 +1,82 @@
+import type { Coordinates } from "@shared/schema";
+import type { Geocoder } from "./geocoding";
+
+const DEFAULT_BASE_URL = "https://nominatim.openstreetmap.org";
+// Nominatim's usage policy allows at most one request per second
+const MIN_REQUEST_INTERVAL_MS = 1000;
+const REQUEST_TIMEOUT_MS = 10000;
+
+interface NominatimGeocoderOptions {
+  baseUrl?: string;
+  // Identifies the application, as the usage policy requires
+  userAgent?: string;
+  // ISO 3166-1 country codes results are restricted to
+  countryCodes?: string;
+}
+
+/**
+ * Online geocoder using an OpenStreetMap Nominatim server
+ * Results, including misses, are cached for the life of the process, and
+ * requests are spaced out to respect the public server's rate limit
+ */
+export class NominatimGeocoder implements Geocoder {
+  readonly name = "nominatim";
+  private baseUrl: string;
+  private userAgent: string | undefined;
+  private countryCodes: string;
+  private cache: Map<string, Coordinates | null>;
+  private queue: Promise<unknown>;
+
+  constructor(options: NominatimGeocoderOptions = {}) {
+    this.baseUrl = (options.baseUrl || DEFAULT_BASE_URL).replace(/\/$/, "");
+    this.userAgent = options.userAgent;
+    this.countryCodes = options.countryCodes ?? "gb";
+    this.cache = new Map();
+    this.queue = Promise.resolve();
+  }
+
+  isAvailable(): boolean {
+    return !!this.userAgent;
+  }
+
+  async geocode(location: string): Promise<Coordinates | undefined> {
+    const key = location.trim().toLowerCase();
+    if (this.cache.has(key)) {
+      return this.cache.get(key) ?? undefined;
+    }
+
+    const coordinates = await this.schedule(() => this.request(location));
+    this.cache.set(key, coordinates ?? null);
+    return coordinates;
+  }
+
+  private async request(location: string): Promise<Coordinates | undefined> {
+    const url = new URL(`${this.baseUrl}/search`);
+    url.searchParams.set("q", location);
+    url.searchParams.set("format", "jsonv2");
+    url.searchParams.set("limit", "1");
+    if (this.countryCodes) url.searchParams.set("countrycodes", this.countryCodes);
+
+    const response = await fetch(url, {
+      headers: { "User-Agent": this.userAgent ?? "", "Accept": "application/json" },
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+    });
+    if (!response.ok) {
+      throw new Error(`Nominatim request failed with status ${response.status}`);
+    }
+
+    const [result] = await response.json() as Array<{ lat: string; lon: string }>;
+    return result ? { lat: parseFloat(result.lat), lng: parseFloat(result.lon) } : undefined;
+  }
+
+  /**
+   * Run requests one after another, at least MIN_REQUEST_INTERVAL_MS apart
+   */
+  private schedule<T>(fn: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(fn);
+    this.queue = run
+      .catch(() => undefined)
+      .then(() => new Promise(resolve => setTimeout(resolve, MIN_REQUEST_INTERVAL_MS)));
+    return run;
+  }
+}
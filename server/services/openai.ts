@@ -1,50 +1,68 @@
-
 import OpenAI from "openai";
+import type { EmbeddingProvider } from "./embeddings";
 
-// Check if we have the API key
-const apiKey = process.env.OPENAI_API_KEY;
-if (!apiKey) {
-  console.warn('Warning: OPENAI_API_KEY environment variable is not set. OpenAI embeddings will not work.');
-}
-
-// Initialize OpenAI client
-const openai = new OpenAI({
-  apiKey: apiKey || ''
-});
+export const OPENAI_EMBEDDING_MODEL = 'text-embedding-ada-002';
+const OPENAI_EMBEDDING_DIMENSION = 1536;
 
 async function sleep(ms: number) {
   return new Promise(resolve => setTimeout(resolve, ms));
 }
 
 /**
- * Generate an embedding for the given text using OpenAI's embedding model
- * with exponential backoff retry mechanism
+ * Embedding provider backed by OpenAI's embedding API
  */
-export async function getEmbedding(text: string, maxRetries = 3): Promise<number[]> {
-  let attempt = 0;
-  
-  while (attempt < maxRetries) {
-    try {
-      const response = await openai.embeddings.create({
-        input: [text],
-        model: 'text-embedding-ada-002'
-      });
-      
-      return response.data[0].embedding;
-    } catch (error: any) {
-      attempt++;
-      
-      if (error.status === 429 && attempt < maxRetries) { // Rate limit error
-        const delay = Math.min(1000 * Math.pow(2, attempt), 10000); // Max 10s delay
-        console.log(`Rate limit hit, retrying in ${delay}ms (attempt ${attempt}/${maxRetries})`);
-        await sleep(delay);
-        continue;
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly model = OPENAI_EMBEDDING_MODEL;
+  readonly dimension = OPENAI_EMBEDDING_DIMENSION;
+  private apiKey: string | undefined;
+  private client: OpenAI;
+
+  constructor(apiKey: string | undefined = process.env.OPENAI_API_KEY) {
+    // Check if we have the API key
+    if (!apiKey) {
+      console.warn('Warning: OPENAI_API_KEY environment variable is not set. OpenAI embeddings will not work.');
+    }
+
+    this.apiKey = apiKey;
+    this.client = new OpenAI({
+      apiKey: apiKey || ''
+    });
+  }
+
+  isAvailable(): boolean {
+    return !!this.apiKey;
+  }
+
+  /**
+   * Generate an embedding for the given text using OpenAI's embedding model
+   * with exponential backoff retry mechanism
+   */
+  async embed(text: string, maxRetries = 3): Promise<number[]> {
+    let attempt = 0;
+
+    while (attempt < maxRetries) {
+      try {
+        const response = await this.client.embeddings.create({
+          input: [text],
+          model: this.model
+        });
+
+        return response.data[0].embedding;
+      } catch (error: any) {
+        attempt++;
+
+        if (error.status === 429 && attempt < maxRetries) { // Rate limit error
+          const delay = Math.min(1000 * Math.pow(2, attempt), 10000); // Max 10s delay
+          console.log(`Rate limit hit, retrying in ${delay}ms (attempt ${attempt}/${maxRetries})`);
+          await sleep(delay);
+          continue;
+        }
+
+        console.error("Error generating embedding:", error);
+        throw error;
       }
-      
-      console.error("Error generating embedding:", error);
-      throw error;
     }
+
+    throw new Error(`Failed to generate embedding after ${maxRetries} attempts`);
   }
-  
-  throw new Error(`Failed to generate embedding after ${maxRetries} attempts`);
 }
@@ -0,0 +1,27 @@
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+
+// Candidates each retriever contributes to an unfiltered search. Every page is cut
+// from the same ranked set, so this also caps how far such a search pages
+export const SEARCH_CANDIDATES = 100;
+// Most candidates a filtered search asks each retriever for; Pinecone serves at most this topK
+export const MAX_SEARCH_CANDIDATES = 10_000;
+
+/**
+ * Encode a result offset as an opaque cursor
+ */
+export function encodeCursor(offset: number): string {
+  return Buffer.from(JSON.stringify({ offset })).toString("base64url");
+}
+
+/**
+ * Decode a cursor back to a result offset, or null if it is malformed
+ */
+export function decodeCursor(cursor: string): number | null {
+  try {
+    const { offset } = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    return Number.isInteger(offset) && offset >= 0 ? offset : null;
+  } catch {
+    return null;
+  }
+}
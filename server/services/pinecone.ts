@@ -1,69 +1,109 @@
-import { Pinecone } from "@pinecone-database/pinecone";
+import { Pinecone, type Index } from "@pinecone-database/pinecone";
 import { PropertyEmbedding } from "@shared/schema";
+import type { VectorSearchResult, VectorStore } from "./vector-store";
 
-// Check for API key
-const apiKey = process.env.PINECONE_API_KEY;
-if (!apiKey) {
-  console.warn('Warning: PINECONE_API_KEY environment variable is not set. Pinecone vector search will not work.');
-}
+/**
+ * Vector store backed by a remote Pinecone index
+ */
+export class PineconeVectorStore implements VectorStore {
+  readonly name = "pinecone";
+  private apiKey: string | undefined;
+  private indexName: string;
+  private index: Index | null = null;
 
-// Initialize Pinecone client
-const pc = new Pinecone({
-  apiKey: apiKey || ''
-});
+  constructor(options: { apiKey?: string; indexName?: string } = {}) {
+    this.apiKey = options.apiKey ?? process.env.PINECONE_API_KEY;
+    // Get index name from environment or use default
+    this.indexName = options.indexName ?? process.env.PINECONE_INDEX_NAME ?? 'property-listings-index';
 
-// Get index name from environment or use default
-const INDEX_NAME = process.env.PINECONE_INDEX_NAME || 'property-listings-index';
-const index = pc.Index(INDEX_NAME);
+    if (!this.apiKey) {
+      console.warn('Warning: PINECONE_API_KEY environment variable is not set. Pinecone vector search will not work.');
+    }
+  }
 
-interface PineconeSearchResult {
-  id: string;
-  score: number;
-}
+  isAvailable(): boolean {
+    return !!this.apiKey;
+  }
 
-/**
- * Upsert vectors into Pinecone index
- */
-export async function upsertVectors(vectors: PropertyEmbedding[]): Promise<void> {
-  try {
-    // Batch upsert in chunks to avoid max payload size issues
-    const BATCH_SIZE = 100;
-    for (let i = 0; i < vectors.length; i += BATCH_SIZE) {
-      const batch = vectors.slice(i, i + BATCH_SIZE);
-      
-      // Format records according to Pinecone's SDK format
-      const records = batch.map(v => ({
-        id: v.id,
-        values: v.embedding
+  /**
+   * Initialize the Pinecone client on first use
+   */
+  private getIndex(): Index {
+    if (!this.index) {
+      const pc = new Pinecone({ apiKey: this.apiKey || '' });
+      this.index = pc.Index(this.indexName);
+    }
+    return this.index;
+  }
+
+  /**
+   * Upsert vectors into Pinecone index
+   */
+  async upsert(vectors: PropertyEmbedding[]): Promise<void> {
+    try {
+      // Batch upsert in chunks to avoid max payload size issues
+      const BATCH_SIZE = 100;
+      for (let i = 0; i < vectors.length; i += BATCH_SIZE) {
+        const batch = vectors.slice(i, i + BATCH_SIZE);
+
+        // Format records according to Pinecone's SDK format
+        const records = batch.map(v => ({
+          id: v.id,
+          values: v.embedding,
+          metadata: { model: v.model, dimension: v.dimension }
+        }));
+
+        // Call upsert directly with the records array
+        await this.getIndex().upsert(records);
+      }
+    } catch (error) {
+      console.error("Error upserting vectors:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Search vectors in Pinecone index
+   */
+  async search(queryEmbedding: number[], model: string, topK: number = 20): Promise<VectorSearchResult[]> {
+    try {
+      const result = await this.getIndex().query({
+        vector: queryEmbedding,
+        topK,
+        filter: { model: { $eq: model } },
+        includeMetadata: false
+      });
+
+      // Ensure we handle undefined scores (which shouldn't happen but TypeScript is concerned)
+      return result.matches.map(match => ({
+        id: match.id,
+        score: typeof match.score === 'number' ? match.score : 0
       }));
-      
-      // Call upsert directly with the records array
-      await index.upsert(records);
+    } catch (error) {
+      console.error("Error searching vectors:", error);
+      throw error;
     }
-  } catch (error) {
-    console.error("Error upserting vectors:", error);
-    throw error;
   }
-}
 
-/**
- * Search vectors in Pinecone index
- */
-export async function searchVectors(queryEmbedding: number[], topK: number = 20): Promise<PineconeSearchResult[]> {
-  try {
-    const result = await index.query({
-      vector: queryEmbedding,
-      topK,
-      includeMetadata: false
-    });
-    
-    // Ensure we handle undefined scores (which shouldn't happen but TypeScript is concerned)
-    return result.matches.map(match => ({
-      id: match.id,
-      score: typeof match.score === 'number' ? match.score : 0
-    }));
-  } catch (error) {
-    console.error("Error searching vectors:", error);
-    throw error;
+  /**
+   * Delete vectors from Pinecone index
+   */
+  async delete(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+
+    try {
+      await this.getIndex().deleteMany(ids);
+    } catch (error) {
+      console.error("Error deleting vectors:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Get the number of vectors in the Pinecone index
+   */
+  async size(): Promise<number> {
+    const stats = await this.getIndex().describeIndexStats();
+    return stats.totalRecordCount ?? 0;
   }
 }
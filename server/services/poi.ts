@@ -0,0 +1,153 @@
+import fs from "fs";
+import path from "path";
+import { poiCategories, type Coordinates, type PoiCategory, type TravelMode } from "@shared/schema";
+import { calculateDistance } from "./geocoding";
+import { SpatialIndex } from "./spatial-index";
+
+const DEFAULT_POI_PATH = "data/pois.geojson";
+
+// Average speeds in km/h used to turn travel times into distances, allowing for junctions and crossings
+const TRAVEL_SPEEDS: Record<TravelMode, number> = {
+  walk: 5,
+  cycle: 15,
+  drive: 25
+};
+
+// Nearest-neighbour searches start at this radius in km and double until something is found
+const NEAREST_START_RADIUS = 0.5;
+const NEAREST_MAX_RADIUS = 64;
+
+export interface PointOfInterest {
+  id: string;
+  name: string;
+  category: PoiCategory;
+  tags: string[];
+  coordinates: Coordinates;
+}
+
+interface PoiFeature {
+  type: "Feature";
+  geometry: { type: string; coordinates: number[] } | null;
+  properties: { name?: string; category?: string; tags?: string[] } | null;
+}
+
+/**
+ * Stations, schools, parks and other places listings are ranked by distance to,
+ * with one spatial index per category
+ */
+export class PoiLayer {
+  private pois: Map<string, PointOfInterest>;
+  private indexes: Map<PoiCategory, SpatialIndex>;
+
+  constructor(pois: PointOfInterest[]) {
+    this.pois = new Map();
+    this.indexes = new Map();
+
+    pois.forEach(poi => {
+      this.pois.set(poi.id, poi);
+      let index = this.indexes.get(poi.category);
+      if (!index) {
+        index = new SpatialIndex();
+        this.indexes.set(poi.category, index);
+      }
+      index.add(poi.id, poi.coordinates);
+    });
+  }
+
+  /**
+   * Load Point features from a GeoJSON FeatureCollection, each with `name`,
+   * `category` and optional `tags` properties; other features are skipped
+   * A missing or unreadable file gives an empty layer
+   */
+  static fromFile(filePath: string): PoiLayer {
+    const resolved = path.resolve(process.cwd(), filePath);
+    try {
+      const collection = JSON.parse(fs.readFileSync(resolved, "utf8")) as { features?: PoiFeature[] };
+      const pois: PointOfInterest[] = [];
+      let skipped = 0;
+
+      (collection.features ?? []).forEach((feature, index) => {
+        const poi = toPointOfInterest(feature, index);
+        if (poi) pois.push(poi);
+        else skipped++;
+      });
+
+      if (skipped > 0) {
+        console.warn(`Skipped ${skipped} features of ${resolved} that aren't named points with a known category`);
+      }
+      return new PoiLayer(pois);
+    } catch (error) {
+      console.error(`Error reading points of interest ${resolved}, proximity to them won't be scored:`, error);
+      return new PoiLayer([]);
+    }
+  }
+
+  get size(): number {
+    return this.pois.size;
+  }
+
+  /**
+   * The closest point of a category to a coordinate, optionally only those with one of the tags
+   */
+  nearest(
+    coordinates: Coordinates,
+    category: PoiCategory,
+    tags?: string[]
+  ): { poi: PointOfInterest; distance: number } | undefined {
+    const index = this.indexes.get(category);
+    if (!index) return undefined;
+
+    const accept = (poi: PointOfInterest) => !tags || tags.some(tag => poi.tags.includes(tag));
+
+    for (let radius = NEAREST_START_RADIUS; radius <= NEAREST_MAX_RADIUS; radius *= 2) {
+      let best: { poi: PointOfInterest; distance: number } | undefined;
+      index.withinRadius(coordinates, radius).forEach(({ id, distance }) => {
+        const poi = this.pois.get(id)!;
+        if (accept(poi) && (!best || distance < best.distance)) best = { poi, distance };
+      });
+      if (best) return best;
+    }
+
+    // Nothing within the largest radius, so check everything of the category
+    let best: { poi: PointOfInterest; distance: number } | undefined;
+    this.pois.forEach(poi => {
+      if (poi.category !== category || !accept(poi)) return;
+      const distance = calculateDistance(coordinates, poi.coordinates);
+      if (!best || distance < best.distance) best = { poi, distance };
+    });
+    return best;
+  }
+}
+
+/**
+ * Distance in km covered in the given minutes
+ */
+export function travelDistance(minutes: number, mode: TravelMode): number {
+  return TRAVEL_SPEEDS[mode] * minutes / 60;
+}
+
+/**
+ * Minutes to cover a distance in km, rounded up to a whole minute
+ */
+export function travelMinutes(distanceKm: number, mode: TravelMode): number {
+  return Math.max(1, Math.ceil(distanceKm / TRAVEL_SPEEDS[mode] * 60));
+}
+
+function toPointOfInterest(feature: PoiFeature, index: number): PointOfInterest | null {
+  const { geometry, properties } = feature;
+  const category = properties?.category as PoiCategory | undefined;
+  if (geometry?.type !== "Point" || !properties?.name || !category || !poiCategories.includes(category)) {
+    return null;
+  }
+
+  const [lng, lat] = geometry.coordinates;
+  return {
+    id: `${category}-${index}`,
+    name: properties.name,
+    category,
+    tags: properties.tags ?? [],
+    coordinates: { lat, lng }
+  };
+}
+
+export const poiLayer = PoiLayer.fromFile(process.env.POI_PATH || DEFAULT_POI_PATH);
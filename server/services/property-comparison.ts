@@ -0,0 +1,51 @@
+import type { ComparedProperty, Coordinates, PropertyComparison, PropertyWithCoordinates } from '@shared/schema';
+import type { IStorage } from '../storage';
+import { calculateDistance } from './geocoding';
+import { getListingEmbeddings } from './similar-listings';
+
+/**
+ * Line listings up for the compare page: price per bedroom, distance from the
+ * searched location and how semantically alike each pair is
+ */
+export async function compareProperties(
+  storage: IStorage,
+  properties: PropertyWithCoordinates[],
+  origin?: Coordinates
+): Promise<PropertyComparison> {
+  const compared: ComparedProperty[] = properties.map(property => ({
+    ...property,
+    pricePerBedroom: property.bedrooms > 0 ? Math.round(property.price / property.bedrooms) : null,
+    ...(origin && property.coordinates
+      ? { distance: Math.round(calculateDistance(origin, property.coordinates) * 10) / 10 }
+      : {})
+  }));
+
+  return { properties: compared, similarity: await getSimilarity(storage, properties) };
+}
+
+/**
+ * Pairwise cosine similarity of the listings' embeddings
+ */
+async function getSimilarity(storage: IStorage, properties: PropertyWithCoordinates[]): Promise<number[][] | null> {
+  let vectors: number[][];
+  try {
+    vectors = await getListingEmbeddings(storage, properties);
+  } catch (error) {
+    console.error("Error embedding listings to compare:", error);
+    return null;
+  }
+
+  return vectors.map(a => vectors.map(b => Math.round(cosineSimilarity(a, b) * 1000) / 1000));
+}
+
+function cosineSimilarity(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
@@ -0,0 +1,43 @@
+import fs from 'fs';
+import { PropertyWithCoordinates } from '@shared/schema';
+import { getCoordinates } from './geocoding';
+import { parseListingRecords, validateListingRecord } from './listing-import';
+
+// Listings shipped with the app, relative to the working directory
+export const PROPERTY_CSV_PATH = 'semantic_property_listings.csv';
+
+/**
+ * Read property listings from a CSV file, geocoding each location unless
+ * the row has its own latitude and longitude
+ * Embeddings in the optional `embedding` column are kept as JSON strings
+ * Rows that fail validation are logged with their reasons and left out
+ */
+export function readPropertyCsv(csvFilePath: string): PropertyWithCoordinates[] {
+  const records = parseListingRecords(fs.readFileSync(csvFilePath, 'utf8'), 'csv');
+  const properties: PropertyWithCoordinates[] = [];
+
+  for (const record of records) {
+    const validation = record.values
+      ? validateListingRecord(record.values)
+      : { errors: [record.error ?? 'Unreadable row'] };
+
+    if ('errors' in validation) {
+      console.warn(`Skipping row ${record.row} of ${csvFilePath}: ${validation.errors.join('; ')}`);
+      continue;
+    }
+    if (validation.id === undefined) {
+      console.warn(`Skipping row ${record.row} of ${csvFilePath}: id: Required`);
+      continue;
+    }
+
+    properties.push({
+      ...validation.property,
+      id: validation.id,
+      embedding: validation.embedding ?? null,
+      externalId: validation.externalId ?? null,
+      coordinates: validation.property.coordinates ?? getCoordinates(validation.property.location)
+    });
+  }
+
+  return properties;
+}
@@ -0,0 +1,32 @@
+import crypto from 'crypto';
+import { Property } from '@shared/schema';
+import type { Bm25Field } from './bm25';
+
+/**
+ * Build the text that represents a property in the embedding space
+ */
+export function getPropertyEmbeddingText(property: Property): string {
+  return `${property.title}. ${property.description}. ${property.type} in ${property.location}. ` +
+         `${property.style} style. ${property.bedrooms} bedrooms. ${property.bathrooms} bathrooms. ` +
+         `${property.view} view. ${property.furnishing}.`;
+}
+
+/**
+ * Hash of the embedding text, stored with an embedding to detect when the listing has changed since
+ */
+export function getPropertyTextHash(property: Property): string {
+  return crypto.createHash('sha256').update(getPropertyEmbeddingText(property)).digest('hex');
+}
+
+/**
+ * Fields indexed for keyword search; short fields are weighted up so a name
+ * like "Georgian" or "Wimbledon" outweighs a passing mention in the description
+ */
+export function getPropertyKeywordFields(property: Property): Bm25Field[] {
+  return [
+    { text: property.title, weight: 2 },
+    { text: property.location, weight: 2 },
+    { text: property.style, weight: 2 },
+    { text: property.description }
+  ];
+}
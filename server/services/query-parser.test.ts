@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import type { ParsedQuery } from '@shared/schema';
+import { hasQueryConstraints, parseSearchQuery } from './query-parser';
+
+// A ParsedQuery with nothing understood, overridden by what each case expects
+function parsed(query: string, overrides: Partial<ParsedQuery> = {}): ParsedQuery {
+  return {
+    query,
+    types: [],
+    styles: [],
+    views: [],
+    furnishings: [],
+    pois: [],
+    excluded: { types: [], styles: [], views: [], furnishings: [] },
+    ...overrides
+  };
+}
+
+const cases: Array<[description: string, query: string, expected: Partial<ParsedQuery>]> = [
+  // Prices
+  ['an upper price bound', 'under £500k', { price: { max: 500_000 } }],
+  ['a lower price bound', 'over £2m', { price: { min: 2_000_000 } }],
+  ['a range sharing a trailing suffix', '£1-1.5m', { price: { min: 1_000_000, max: 1_500_000 } }],
+  ['a range of bare numbers after "between"', 'between 400,000 and 600,000', { price: { min: 400_000, max: 600_000 } }],
+  ['a target price with a decimal million', 'around £1.2m', { price: { target: 1_200_000, min: 960_000, max: 1_440_000 } }],
+  ['a standalone "£1.2m" as a target', 'flat for £1.2m', { types: ['Flat'], price: { target: 1_200_000, min: 960_000, max: 1_440_000 } }],
+  ['"m" starting a word, not a million', 'modern mansion', { types: ['Mansion'], styles: ['Modern'] }],
+  ['"m" of "more" after a number', '500 more ideas', {}],
+
+  // Room counts
+  ['a bedroom range with a hyphen', '2-3 beds', { bedrooms: { min: 2, max: 3 } }],
+  ['a bedroom range with "to"', '2 to 3 bedrooms', { bedrooms: { min: 2, max: 3 } }],
+  ['an open-ended bedroom count', '4+ bedrooms', { bedrooms: { min: 4 } }],
+  ['a bathroom minimum in words', 'at least two bathrooms', { bathrooms: { min: 2 } }],
+  ['an exact bedroom count alongside "no view"', '3 bed house with no view', { types: ['House'], views: ['No View'], bedrooms: { min: 3, max: 3 } }],
+
+  // Negations
+  ['a negated furnishing', 'not furnished flat', { types: ['Flat'], excluded: { types: [], styles: [], views: [], furnishings: ['Furnished'] } }],
+  ['a negated type beside a wanted one', 'no flats, victorian house', {
+    types: ['House'],
+    styles: ['Victorian'],
+    excluded: { types: ['Flat'], styles: [], views: [], furnishings: [] }
+  }],
+  ['a negated view', 'victorian house without a garden view', {
+    types: ['House'],
+    styles: ['Victorian'],
+    excluded: { types: [], styles: [], views: ['Garden View'], furnishings: [] }
+  }],
+
+  // Places
+  ['a named location', 'flat in Chelsea', { types: ['Flat'], location: { name: 'Chelsea', coordinates: expect.any(Object) } }],
+  ['a place to be near', 'house near a park', { types: ['House'], pois: [{ category: 'park', label: 'park', maxDistanceKm: 1 }] }],
+
+  // Nothing to extract
+  ['a query with no constraints', 'nice place to live', {}],
+  ['an empty query', '', {}]
+];
+
+describe('parseSearchQuery', () => {
+  it.each(cases)('parses %s', (_description, query, expected) => {
+    expect(parseSearchQuery(query)).toEqual(parsed(query, expected));
+  });
+
+  it('turns a walking time into a distance limit', () => {
+    expect(parseSearchQuery("10 minutes' walk from a tube station").pois).toEqual([{
+      category: 'station',
+      label: 'tube station',
+      tags: ['tube'],
+      maxDistanceKm: expect.closeTo(0.833, 3),
+      minutes: 10,
+      mode: 'walk'
+    }]);
+  });
+});
+
+describe('hasQueryConstraints', () => {
+  it.each([
+    ['nice place to live', false],
+    ['2-3 beds', true],
+    ['under £500k', true],
+    ['house near a park', true]
+  ])('%s -> %s', (query, expected) => {
+    expect(hasQueryConstraints(parseSearchQuery(query))).toBe(expected);
+  });
+});
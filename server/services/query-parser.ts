@@ -0,0 +1,437 @@
+import {
+  type NumericRange,
+  type ParsedQuery,
+  type PoiCategory,
+  type PoiConstraint,
+  type PropertyFurnishing,
+  type PropertyStyle,
+  type PropertyType,
+  type PropertyView,
+  type TravelMode
+} from "@shared/schema";
+import { parseLocationQuery } from "./geocoding";
+import { travelDistance } from "./poi";
+
+// Patterns are tried in order, so more specific phrases come before the
+// shorter phrases they contain ("semi-detached house" before "house")
+const TYPE_PATTERNS: Array<[PropertyType, string]> = [
+  ['Semi-detached House', 'semi[\\s-]?detached(?:\\s+houses?)?'],
+  ['Detached House', 'detached(?:\\s+houses?)?'],
+  ['Terraced House', 'terraced?(?:\\s+houses?)?'],
+  ['Townhouse', 'town[\\s-]?houses?'],
+  ['Penthouse', 'penthouses?'],
+  ['Studio', 'studios?(?:\\s+(?:flat|apartment)s?)?'],
+  ['Flat', 'flats?|apartments?'],
+  ['House', 'houses?'],
+  ['Cottage', 'cottages?'],
+  ['Bungalow', 'bungalows?'],
+  ['Duplex', 'duplex(?:es)?'],
+  ['Mansion', 'mansions?']
+];
+
+const STYLE_PATTERNS: Array<[PropertyStyle, string]> = [
+  ['Art Deco', 'art[\\s-]?deco'],
+  ['Contemporary', 'contemporary'],
+  ['Modern', 'modern'],
+  ['Victorian', 'victorian'],
+  ['Traditional', 'traditional'],
+  ['Georgian', 'georgian'],
+  ['Luxury', 'luxury|luxurious'],
+  ['Minimalist', 'minimalist'],
+  ['Industrial', 'industrial'],
+  ['Scandinavian', 'scandinavian|scandi'],
+  ['Rustic', 'rustic'],
+  ['Mediterranean', 'mediterranean'],
+  ['Colonial', 'colonial']
+];
+
+const VIEW_PATTERNS: Array<[PropertyView, string]> = [
+  ['No View', 'no\\s+views?'],
+  ...(['Park', 'Garden', 'River', 'City', 'Mountain', 'Sea', 'Lake', 'Forest'] as const).map(
+    (name): [PropertyView, string] => {
+      const word = name.toLowerCase();
+      return [
+        `${name} View` as PropertyView,
+        `${word}\\s+views?|views?\\s+(?:of|over)\\s+(?:the\\s+|a\\s+)?${word}|overlooking\\s+(?:the\\s+|a\\s+)?${word}`
+      ];
+    }
+  )
+];
+
+const FURNISHING_PATTERNS: Array<[PropertyFurnishing, string]> = [
+  ['Part-Furnished', 'part(?:ly|ially)?[\\s-]?furnished'],
+  ['Unfurnished', 'unfurnished'],
+  ['Furnished', 'furnished']
+];
+
+const NEGATION = '(?:not|no|non|without|except|excluding)[\\s-]+(?:an?\\s+|the\\s+|any\\s+)?';
+
+const NUMBER_WORDS: Record<string, number> = {
+  one: 1, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10
+};
+const COUNT = `(\\d+|${Object.keys(NUMBER_WORDS).join('|')})`;
+const BEDROOM_NOUN = '(?:bed(?:room)?s?|br)\\b';
+const BATHROOM_NOUN = 'bath(?:room)?s?\\b';
+
+// Kinds of place a query can ask to be near, narrower phrases first; tags narrow the category
+const POI_PATTERNS: Array<{ category: PoiCategory; label: string; tags?: string[]; pattern: string }> = [
+  { category: 'station', label: 'tube station', tags: ['tube'], pattern: '(?:tube|underground)(?:\\s+(?:station|stop)s?)?' },
+  { category: 'station', label: 'DLR station', tags: ['dlr'], pattern: 'dlr(?:\\s+stations?)?' },
+  { category: 'station', label: 'Overground station', tags: ['overground'], pattern: 'overground(?:\\s+stations?)?' },
+  { category: 'station', label: 'Elizabeth line station', tags: ['elizabeth'], pattern: '(?:elizabeth\\s+line|crossrail)(?:\\s+stations?)?' },
+  { category: 'station', label: 'train station', tags: ['rail', 'overground', 'elizabeth'], pattern: '(?:train|railway|rail)(?:\\s+stations?)?' },
+  { category: 'station', label: 'station', pattern: 'stations?|transport\\s+links?|public\\s+transport' },
+  { category: 'school', label: 'primary school', tags: ['primary'], pattern: 'primary\\s+schools?' },
+  { category: 'school', label: 'secondary school', tags: ['secondary'], pattern: '(?:secondary|high)\\s+schools?' },
+  { category: 'school', label: 'school', pattern: 'schools?' },
+  { category: 'park', label: 'park', pattern: 'parks?|green\\s+spaces?|open\\s+spaces?|commons?' }
+];
+
+// Words allowed between the proximity phrase and the place, which don't change its meaning
+const POI_ARTICLE = '(?:(?:a|an|the|some|any)\\s+)?';
+const POI_QUALIFIER = '(?:(?:good|great|decent|nice|local|top|major|outstanding|big|large|green)\\s+)?';
+
+// A distance or travel time, e.g. "500m", "1.5 miles", "10 minutes'", "ten-minute"
+const POI_QUANTITY = `(\\d+(?:\\.\\d+)?|${Object.keys(NUMBER_WORDS).join('|')})\\s*-?\\s*(mins?|minutes?|km|kilomet(?:re|er)s?|miles?|mi|met(?:re|er)s?|m)(?:'s|s'|')?`;
+const TRAVEL_MODE = '(walk(?:ing)?|cycl(?:e|ing)|bik(?:e|ing)|by\\s+bike|by\\s+bicycle|driv(?:e|ing)|by\\s+car)';
+
+// How far "near", "next to" and "walking distance" reach, in km
+const NEAR_DISTANCE = 1;
+const NEXT_TO_DISTANCE = 0.3;
+const WALKING_DISTANCE_MINUTES = 15;
+const KM_PER_MILE = 1.609;
+
+// Currency symbol, number, and an optional multiplier suffix that must end on a
+// word boundary, so "500 more" isn't read as five hundred million
+const AMOUNT = '(£|\\$|€)?\\s?(\\d[\\d,]*(?:\\.\\d+)?)(?:\\s?(thousand|million|mil|mn|m|k)\\b)?';
+const PRICE_MULTIPLIERS: Record<string, number> = {
+  k: 1_000, thousand: 1_000, m: 1_000_000, mn: 1_000_000, mil: 1_000_000, million: 1_000_000
+};
+// Bare numbers below this are assumed not to be prices ("over 2 bathrooms")
+const MIN_BARE_PRICE = 1000;
+// "Around £500k" accepts prices within this fraction of the target
+const AROUND_PRICE_TOLERANCE = 0.2;
+
+/**
+ * Working copy of the query that blanks out each phrase once it has been
+ * understood, so a later pattern can't claim the same words again
+ */
+class QueryScanner {
+  text: string;
+
+  constructor(query: string) {
+    this.text = query.toLowerCase();
+  }
+
+  /**
+   * Find the first match accepted by the predicate and consume it
+   */
+  take(pattern: string, accept: (match: RegExpExecArray) => boolean = () => true): RegExpExecArray | null {
+    const regex = new RegExp(pattern, 'gi');
+    let match: RegExpExecArray | null;
+
+    while ((match = regex.exec(this.text)) !== null) {
+      if (match[0].length === 0) {
+        regex.lastIndex++;
+        continue;
+      }
+      if (accept(match)) {
+        this.text = this.text.slice(0, match.index) +
+          ' '.repeat(match[0].length) +
+          this.text.slice(match.index + match[0].length);
+        return match;
+      }
+    }
+
+    return null;
+  }
+}
+
+/**
+ * Parse a natural language property query into structured constraints
+ */
+export function parseSearchQuery(query: string): ParsedQuery {
+  const scanner = new QueryScanner(query);
+
+  // Before prices, which would read "within 500m" as a budget of £500 million
+  const pois = parsePoiConstraints(scanner);
+  const bedrooms = parseCountRange(scanner, BEDROOM_NOUN);
+  const bathrooms = parseCountRange(scanner, BATHROOM_NOUN);
+  const price = parsePriceRange(scanner);
+  const furnishings = parseVocabulary(scanner, FURNISHING_PATTERNS);
+  const views = parseVocabulary(scanner, VIEW_PATTERNS);
+  const types = parseVocabulary(scanner, TYPE_PATTERNS);
+  const styles = parseVocabulary(scanner, STYLE_PATTERNS);
+
+  const parsed: ParsedQuery = {
+    query,
+    types: types.values,
+    styles: styles.values,
+    views: views.values,
+    furnishings: furnishings.values,
+    pois,
+    excluded: {
+      types: types.excluded,
+      styles: styles.excluded,
+      views: views.excluded,
+      furnishings: furnishings.excluded
+    }
+  };
+
+  if (bedrooms) parsed.bedrooms = bedrooms;
+  if (bathrooms) parsed.bathrooms = bathrooms;
+  if (price) parsed.price = price;
+
+  // Only the words not already understood, so "near a tube station" isn't looked up as a place
+  const location = parseLocationQuery(scanner.text);
+  if (location) parsed.location = location;
+
+  return parsed;
+}
+
+/**
+ * Check whether a parsed query constrains any property attribute
+ */
+export function hasQueryConstraints(parsed: ParsedQuery): boolean {
+  return parsed.types.length > 0 ||
+    parsed.styles.length > 0 ||
+    parsed.views.length > 0 ||
+    parsed.furnishings.length > 0 ||
+    !!parsed.bedrooms ||
+    !!parsed.bathrooms ||
+    !!parsed.price ||
+    !!parsed.location ||
+    parsed.pois.length > 0;
+}
+
+/**
+ * Check whether a value falls inside an inclusive range
+ */
+export function isInRange(value: number, range: NumericRange): boolean {
+  return (range.min === undefined || value >= range.min) &&
+    (range.max === undefined || value <= range.max);
+}
+
+/**
+ * Match each vocabulary entry, sorting negated mentions into the excluded list
+ */
+function parseVocabulary<T extends string>(
+  scanner: QueryScanner,
+  patterns: Array<[T, string]>
+): { values: T[]; excluded: T[] } {
+  const values: T[] = [];
+  const excluded: T[] = [];
+
+  for (const [value, pattern] of patterns) {
+    // Positive matches of the value itself take priority over negation
+    // ("no view" means the No View value, not an excluded view)
+    if (value !== 'No View' && scanner.take(`\\b${NEGATION}(?:${pattern})\\b`)) {
+      excluded.push(value);
+    } else if (scanner.take(`\\b(?:${pattern})\\b`)) {
+      values.push(value);
+    }
+  }
+
+  return { values, excluded };
+}
+
+function parseCount(value: string): number {
+  return NUMBER_WORDS[value.toLowerCase()] ?? parseInt(value);
+}
+
+/**
+ * Parse room counts such as "3 bed", "2-3 bedrooms", "4+ beds" or "at least two bathrooms"
+ */
+function parseCountRange(scanner: QueryScanner, noun: string): NumericRange | undefined {
+  const range = scanner.take(`\\b${COUNT}\\s*(?:-|–|to|or)\\s*${COUNT}[\\s-]*${noun}`);
+  if (range) {
+    const [a, b] = [parseCount(range[1]), parseCount(range[2])];
+    return { min: Math.min(a, b), max: Math.max(a, b) };
+  }
+
+  const atLeast = scanner.take(`\\b${COUNT}\\s*\\+[\\s-]*${noun}`) ||
+    scanner.take(`\\b(?:at least|min(?:imum)?(?: of)?|no fewer than)\\s+${COUNT}[\\s-]*${noun}`) ||
+    scanner.take(`\\b${COUNT}[\\s-]*${noun}\\s+or more`);
+  if (atLeast) {
+    return { min: parseCount(atLeast[1]) };
+  }
+
+  const moreThan = scanner.take(`\\b(?:more than|over)\\s+${COUNT}[\\s-]*${noun}`);
+  if (moreThan) {
+    return { min: parseCount(moreThan[1]) + 1 };
+  }
+
+  const atMost = scanner.take(`\\b(?:up to|at most|max(?:imum)?(?: of)?|no more than)\\s+${COUNT}[\\s-]*${noun}`);
+  if (atMost) {
+    return { max: parseCount(atMost[1]) };
+  }
+
+  const fewerThan = scanner.take(`\\b(?:fewer than|less than|under)\\s+${COUNT}[\\s-]*${noun}`);
+  if (fewerThan) {
+    return { max: parseCount(fewerThan[1]) - 1 };
+  }
+
+  const exact = scanner.take(`\\b${COUNT}[\\s-]*${noun}`);
+  if (exact) {
+    const count = parseCount(exact[1]);
+    return { min: count, max: count };
+  }
+
+  return undefined;
+}
+
+/**
+ * Parse places the query asks to be near: "near a tube station", "within 500m of a park",
+ * "10 minutes' walk from a good school" or "schools nearby"
+ */
+function parsePoiConstraints(scanner: QueryScanner): PoiConstraint[] {
+  const constraints: PoiConstraint[] = [];
+  const add = (constraint: PoiConstraint) => {
+    if (!constraints.some(c => c.label === constraint.label)) constraints.push(constraint);
+  };
+
+  for (const { category, label, tags, pattern } of POI_PATTERNS) {
+    const place = `${POI_ARTICLE}${POI_QUALIFIER}(?:${pattern})\\b`;
+    const poi = { category, label, ...(tags ? { tags } : {}) };
+    let match: RegExpExecArray | null;
+
+    while ((match = scanner.take(`\\b(?:(?:within|under|less than|no more than|at most|up to|about|around)\\s+)?(?:an?\\s+)?${POI_QUANTITY}\\s+(?:${TRAVEL_MODE}\\s+)?(?:of|from|to)\\s+${place}`))) {
+      add({ ...poi, ...readPoiDistance(match[1], match[2], match[3]) });
+    }
+
+    while ((match = scanner.take(`\\b(near(?:by)?|close\\s+to|next\\s+to|right\\s+by|by|(?:within\\s+)?walking\\s+distance\\s+(?:of|to|from))\\s+${place}`))) {
+      const phrase = match[1];
+      if (phrase.includes('walking')) {
+        add({ ...poi, maxDistanceKm: travelDistance(WALKING_DISTANCE_MINUTES, 'walk'), minutes: WALKING_DISTANCE_MINUTES, mode: 'walk' });
+      } else {
+        add({ ...poi, maxDistanceKm: /next|by/.test(phrase) ? NEXT_TO_DISTANCE : NEAR_DISTANCE });
+      }
+    }
+
+    while (scanner.take(`\\b${place}\\s+nearby\\b`)) {
+      add({ ...poi, maxDistanceKm: NEAR_DISTANCE });
+    }
+  }
+
+  return constraints;
+}
+
+/**
+ * Turn a distance ("500m", "2 miles") or travel time ("10 minutes' walk") into a distance limit
+ */
+function readPoiDistance(quantity: string, unit: string, modeWord?: string): Pick<PoiConstraint, 'maxDistanceKm' | 'minutes' | 'mode'> {
+  const value = NUMBER_WORDS[quantity] ?? parseFloat(quantity);
+  const mode = modeWord ? readTravelMode(modeWord) : undefined;
+
+  if (unit.startsWith('min')) {
+    return { maxDistanceKm: travelDistance(value, mode ?? 'walk'), minutes: value, mode: mode ?? 'walk' };
+  }
+
+  const km = unit === 'km' || unit.startsWith('kilomet') ? value
+    : unit.startsWith('mi') ? value * KM_PER_MILE
+    : value / 1000;
+  return { maxDistanceKm: km, ...(mode ? { mode } : {}) };
+}
+
+function readTravelMode(word: string): TravelMode {
+  if (/^(?:cycl|bik|by\s+bi)/.test(word)) return 'cycle';
+  if (/^(?:driv|by\s+car)/.test(word)) return 'drive';
+  return 'walk';
+}
+
+interface ParsedAmount {
+  value: number;
+  explicit: boolean; // Had a currency symbol or multiplier suffix
+  suffix?: string;
+}
+
+/**
+ * Read the currency, number and suffix groups captured by AMOUNT starting at the given group
+ */
+function readAmount(match: RegExpExecArray, group: number): ParsedAmount {
+  const currency = match[group];
+  const number = parseFloat(match[group + 1].replace(/,/g, ''));
+  const suffix = match[group + 2]?.toLowerCase();
+
+  return {
+    value: suffix ? number * PRICE_MULTIPLIERS[suffix] : number,
+    explicit: !!currency || !!suffix,
+    suffix
+  };
+}
+
+function isPrice(amount: ParsedAmount): boolean {
+  return amount.explicit || amount.value >= MIN_BARE_PRICE;
+}
+
+/**
+ * Parse price phrases such as "under £500k", "£1-1.5m", "between 400,000 and 600,000" or "around £1.2m"
+ */
+function parsePriceRange(scanner: QueryScanner): NumericRange | undefined {
+  const price: NumericRange = {};
+
+  const range = scanner.take(`(?:\\b(?:between|from)\\s+)?${AMOUNT}\\s*(?:-|–|to|and)\\s*${AMOUNT}`, match => readPriceRange(match) !== null);
+  if (range) {
+    const [low, high] = readPriceRange(range)!;
+    price.min = Math.min(low, high);
+    price.max = Math.max(low, high);
+  }
+
+  const max = takePriceAfter(scanner, '(?:under|below|less than|cheaper than|no more than|up to|max(?:imum)?|budget(?:\\s+of)?|within)');
+  if (max !== undefined) {
+    price.max = max;
+  }
+
+  const min = takePriceAfter(scanner, '(?:over|above|more than|at least|min(?:imum)?|starting at|from)');
+  if (min !== undefined) {
+    price.min = min;
+  }
+
+  const target = takePriceAfter(scanner, '(?:around|about|approximately|approx\\.?|roughly|close to|near)(?:\\s+a)?(?:\\s+price(?:\\s+of)?)?') ??
+    takeExplicitPrice(scanner);
+  if (target !== undefined) {
+    price.target = target;
+    price.min = target * (1 - AROUND_PRICE_TOLERANCE);
+    price.max = target * (1 + AROUND_PRICE_TOLERANCE);
+  }
+
+  return Object.keys(price).length > 0 ? price : undefined;
+}
+
+/**
+ * Read both ends of a price range match, or null if it doesn't look like prices
+ */
+function readPriceRange(match: RegExpExecArray): [number, number] | null {
+  const low = readAmount(match, 1);
+  const high = readAmount(match, 4);
+
+  // "£1-2m" applies the trailing suffix to both ends
+  if (!low.suffix && high.suffix) {
+    low.value *= PRICE_MULTIPLIERS[high.suffix];
+    low.explicit = true;
+  }
+
+  // Without "between"/"from" one end must be unmistakably a price
+  const hasKeyword = /^\s*(?:between|from)\b/i.test(match[0]);
+  if (!(low.explicit || high.explicit || hasKeyword) || !isPrice(low) || !isPrice(high)) {
+    return null;
+  }
+
+  return [low.value, high.value];
+}
+
+/**
+ * Consume the first amount that follows a keyword and reads as a price
+ */
+function takePriceAfter(scanner: QueryScanner, keyword: string): number | undefined {
+  const match = scanner.take(`\\b${keyword}(?:\\s+of)?\\s+${AMOUNT}`, m => isPrice(readAmount(m, 1)));
+  return match ? readAmount(match, 1).value : undefined;
+}
+
+/**
+ * Consume a standalone amount with a currency symbol or suffix ("£1.2m")
+ */
+function takeExplicitPrice(scanner: QueryScanner): number | undefined {
+  const match = scanner.take(AMOUNT, m => readAmount(m, 1).explicit);
+  return match ? readAmount(match, 1).value : undefined;
+}
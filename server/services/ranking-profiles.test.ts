@@ -0,0 +1,62 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { BUILT_IN_PROFILE, RankingProfileStore, rankingProfileSchema } from './ranking-profiles';
+
+const { name: _name, ...builtInConfig } = BUILT_IN_PROFILE;
+
+describe('RankingProfileStore', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'ranking-profiles-'));
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+    vi.restoreAllMocks();
+  });
+
+  function writeProfile(name: string, profile: unknown) {
+    fs.writeFileSync(path.join(dir, `${name}.json`), JSON.stringify(profile));
+  }
+
+  it('falls back to the built-in default without any files', () => {
+    const store = new RankingProfileStore(path.join(dir, 'missing'));
+
+    expect(store.get()).toBe(BUILT_IN_PROFILE);
+    expect(store.get('location-first')).toBeUndefined();
+  });
+
+  it('loads each file as a named profile, filling in defaults', () => {
+    const { similarityFloors: _floors, fusion: _fusion, ...required } = builtInConfig;
+    writeProfile('cheap', { ...required, weights: { ...required.weights, priceLimit: 1 } });
+
+    const profile = new RankingProfileStore(dir).get('cheap');
+
+    expect(profile).toMatchObject({ name: 'cheap', weights: { priceLimit: 1 }, similarityFloors: {} });
+    expect(profile?.fusion.method).toBe('weighted');
+  });
+
+  it('keeps the previous version of a profile that stops parsing', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    writeProfile('cheap', builtInConfig);
+    const store = new RankingProfileStore(dir);
+    expect(store.get('cheap')).toBeDefined();
+
+    writeProfile('cheap', { ...builtInConfig, priceTargetTiers: [] });
+    store.reload();
+
+    expect(store.get('cheap')?.priceTargetTiers).toEqual(BUILT_IN_PROFILE.priceTargetTiers);
+    expect(console.error).toHaveBeenCalledWith(expect.stringContaining('keeping the previous version'), expect.anything());
+  });
+
+  it('accepts the built-in profile and the bundled profile files', () => {
+    expect(rankingProfileSchema.safeParse(builtInConfig).success).toBe(true);
+
+    const bundled = new RankingProfileStore('ranking-profiles');
+    expect(bundled.list().map(p => p.name).sort()).toEqual(['default', 'location-first']);
+  });
+});
@@ -0,0 +1,175 @@
+import fs from "fs";
+import path from "path";
+import { z } from "zod";
+
+const DEFAULT_PROFILES_DIR = "ranking-profiles";
+export const DEFAULT_PROFILE_NAME = "default";
+const RELOAD_DELAY_MS = 200;
+
+const tierSchema = z.object({
+  within: z.number().nonnegative(),
+  boost: z.number().nonnegative()
+});
+
+/**
+ * Weights and thresholds used to score search results
+ * Tiers are checked in order and the first one the value falls within applies
+ */
+export const rankingProfileSchema = z.object({
+  description: z.string().optional(),
+  weights: z.object({
+    similarity: z.number().nonnegative(),   // Fused retrieval relevance
+    attribute: z.number().nonnegative(),    // Requested type, style, view or furnishing
+    roomCount: z.number().nonnegative(),    // Bedroom or bathroom count inside the requested range
+    priceLimit: z.number().nonnegative(),   // Each price limit (minimum, maximum) respected
+    locationName: z.number().nonnegative(), // Location name match for properties without coordinates
+    poi: z.number().nonnegative().default(0.3), // Each kind of place the query asks to be near, within the distance asked
+    exactMatch: z.number().nonnegative()    // Every constraint in the query satisfied
+  }),
+  // Relative difference from an "around" price target
+  priceTargetTiers: z.array(tierSchema).min(1),
+  // Distance in km from the location named in the query
+  proximityTiers: z.array(tierSchema).min(1),
+  // Extra boost within this distance, which also counts as matching the location
+  closeDistance: tierSchema,
+  // Cosine similarity below which a model's matches are effectively unrelated text
+  similarityFloors: z.record(z.number().min(0).max(1)).default({}),
+  // How vector and BM25 keyword results combine into the retrieval relevance
+  fusion: z.object({
+    method: z.enum(['rrf', 'weighted']),
+    k: z.number().positive(), // Reciprocal rank fusion damping constant
+    vectorWeight: z.number().nonnegative(),
+    lexicalWeight: z.number().nonnegative()
+  }).default({ method: 'weighted', k: 60, vectorWeight: 1, lexicalWeight: 1 })
+});
+
+export type RankingProfileConfig = z.infer<typeof rankingProfileSchema>;
+
+export interface RankingProfile extends RankingProfileConfig {
+  name: string;
+}
+
+/**
+ * Built-in weights, used when no default profile file is present
+ */
+export const BUILT_IN_PROFILE: RankingProfile = {
+  name: DEFAULT_PROFILE_NAME,
+  description: "Balanced ranking across similarity and query constraints",
+  weights: {
+    similarity: 1,
+    attribute: 0.2,
+    roomCount: 0.3,
+    priceLimit: 0.2,
+    locationName: 0.15,
+    poi: 0.3,
+    exactMatch: 0.5
+  },
+  priceTargetTiers: [
+    { within: 0.05, boost: 0.35 },
+    { within: 0.1, boost: 0.25 },
+    { within: 0.2, boost: 0.15 }
+  ],
+  proximityTiers: [
+    { within: 1, boost: 0.4 },
+    { within: 5, boost: 0.3 },
+    { within: 20, boost: 0.2 },
+    { within: 50, boost: 0.1 }
+  ],
+  closeDistance: { within: 2, boost: 0.2 },
+  // ada-002 rarely scores unrelated text under ~0.7, so scores are rescaled from there
+  similarityFloors: { "text-embedding-ada-002": 0.7 },
+  // Weighted keeps relevance an absolute measure of similarity; rrf only reflects rank positions
+  fusion: { method: 'weighted', k: 60, vectorWeight: 1, lexicalWeight: 1 }
+};
+
+/**
+ * Named ranking profiles read from *.json files in a directory
+ * The directory is watched so edited profiles apply without a restart
+ */
+export class RankingProfileStore {
+  private dir: string;
+  private profiles: Map<string, RankingProfile>;
+  private loaded: boolean;
+  private watcher: fs.FSWatcher | null;
+  private reloadTimer: NodeJS.Timeout | null;
+
+  constructor(dir: string) {
+    this.dir = path.resolve(process.cwd(), dir);
+    this.profiles = new Map();
+    this.loaded = false;
+    this.watcher = null;
+    this.reloadTimer = null;
+  }
+
+  /**
+   * Look up a profile by name; the default profile is always available
+   */
+  get(name: string = DEFAULT_PROFILE_NAME): RankingProfile | undefined {
+    this.ensureLoaded();
+    return this.profiles.get(name);
+  }
+
+  list(): RankingProfile[] {
+    this.ensureLoaded();
+    return Array.from(this.profiles.values());
+  }
+
+  /**
+   * Re-read every profile file
+   * A file that fails to parse keeps its previously loaded version
+   */
+  reload(): void {
+    const profiles = new Map<string, RankingProfile>([[DEFAULT_PROFILE_NAME, BUILT_IN_PROFILE]]);
+
+    const files = fs.existsSync(this.dir)
+      ? fs.readdirSync(this.dir).filter(file => file.endsWith(".json")).sort()
+      : [];
+
+    for (const file of files) {
+      const name = path.basename(file, ".json");
+      try {
+        const data = JSON.parse(fs.readFileSync(path.join(this.dir, file), "utf8"));
+        profiles.set(name, { name, ...rankingProfileSchema.parse(data) });
+      } catch (error) {
+        const previous = this.profiles.get(name);
+        console.error(`Invalid ranking profile ${file}${previous ? ", keeping the previous version" : ""}:`, error);
+        if (previous) profiles.set(name, previous);
+      }
+    }
+
+    this.profiles = profiles;
+    console.log(`Loaded ranking profiles: ${Array.from(profiles.keys()).join(", ")}`);
+  }
+
+  private ensureLoaded(): void {
+    if (this.loaded) return;
+    this.loaded = true;
+
+    this.reload();
+    this.watch();
+  }
+
+  /**
+   * Reload on changes, batching the several events an editor save produces
+   */
+  private watch(): void {
+    if (!fs.existsSync(this.dir)) return;
+
+    try {
+      this.watcher = fs.watch(this.dir, () => {
+        if (this.reloadTimer) clearTimeout(this.reloadTimer);
+        this.reloadTimer = setTimeout(() => {
+          this.reloadTimer = null;
+          this.reload();
+        }, RELOAD_DELAY_MS);
+      });
+      this.watcher.unref();
+    } catch (error) {
+      console.warn(`Could not watch ${this.dir}, ranking profiles will not hot reload:`, error);
+    }
+  }
+}
+
+export const rankingProfiles = new RankingProfileStore(
+  process.env.RANKING_PROFILES_DIR || DEFAULT_PROFILES_DIR
+);
@@ -0,0 +1,83 @@
+import { describe, expect, it, vi } from 'vitest';
+import { reindexRequestSchema, type Property, type PropertyEmbedding } from '@shared/schema';
+import type { IStorage } from '../storage';
+import { ReindexJobManager } from './reindex-jobs';
+
+function listing(id: number): Property {
+  return {
+    id,
+    externalId: null,
+    title: `Listing ${id}`,
+    description: `A flat on street ${id}`,
+    type: 'Flat',
+    style: 'Modern',
+    location: 'Chelsea',
+    bedrooms: 2,
+    bathrooms: 1,
+    price: 500_000,
+    view: 'No View',
+    furnishing: 'Unfurnished',
+    embedding: null
+  };
+}
+
+// Just the storage methods a reindex job uses, keeping saved embeddings in memory
+function fakeStorage(listings: Property[]) {
+  const embeddings = new Map<string, PropertyEmbedding>();
+  return {
+    getAllProperties: async () => listings,
+    getPropertiesByIds: async (ids: string[]) => listings.filter(l => ids.includes(l.id.toString())),
+    getPropertyEmbeddings: async (ids: string[]) => ids.flatMap(id => embeddings.get(id) ?? []),
+    savePropertyEmbeddings: vi.fn(async (saved: PropertyEmbedding[]) => {
+      saved.forEach(embedding => embeddings.set(embedding.id, embedding));
+    })
+  } as unknown as IStorage & { savePropertyEmbeddings: ReturnType<typeof vi.fn> };
+}
+
+async function finished(manager: ReindexJobManager, id: string) {
+  await vi.waitFor(() => expect(manager.getRunning()).toBeUndefined());
+  return manager.get(id)!;
+}
+
+describe('ReindexJobManager', () => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+
+  it('embeds every listing in batches', async () => {
+    const storage = fakeStorage([1, 2, 3].map(listing));
+    const manager = new ReindexJobManager(storage);
+
+    const job = await manager.start(reindexRequestSchema.parse({ batchSize: 2 }));
+
+    expect(await finished(manager, job.id)).toMatchObject({ status: 'completed', total: 3, processed: 3, embedded: 3, failed: 0 });
+    expect(storage.savePropertyEmbeddings).toHaveBeenCalledTimes(2);
+    expect(manager.lastCompleted()?.id).toBe(job.id);
+  });
+
+  it('skips listings embedded since they last changed', async () => {
+    const storage = fakeStorage([1, 2].map(listing));
+    const manager = new ReindexJobManager(storage);
+    await finished(manager, (await manager.start(reindexRequestSchema.parse({}))).id);
+
+    const job = await manager.start(reindexRequestSchema.parse({ scope: 'changed' }));
+
+    expect(await finished(manager, job.id)).toMatchObject({ status: 'completed', embedded: 0, skipped: 2 });
+  });
+
+  it('runs one job at a time', async () => {
+    const manager = new ReindexJobManager(fakeStorage([listing(1)]));
+    const job = await manager.start(reindexRequestSchema.parse({}));
+
+    await expect(manager.start(reindexRequestSchema.parse({}))).rejects.toThrow(`Reindex job ${job.id} is already running`);
+    await finished(manager, job.id);
+  });
+
+  it('lists jobs newest first', async () => {
+    const manager = new ReindexJobManager(fakeStorage([listing(1)]));
+    const first = await manager.start(reindexRequestSchema.parse({}));
+    await finished(manager, first.id);
+    const second = await manager.start(reindexRequestSchema.parse({ scope: 'all' }));
+    await finished(manager, second.id);
+
+    expect(manager.list().map(job => job.id)).toEqual([second.id, first.id]);
+  });
+});
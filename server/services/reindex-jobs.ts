@@ -0,0 +1,345 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import type { Property, PropertyEmbedding, ReindexJob, ReindexRequest } from '@shared/schema';
+import type { IStorage } from '../storage';
+import { embeddingProvider, getEmbedding } from './embeddings';
+import { embeddingCache } from './embedding-cache';
+import { vectorStore } from './vector-store';
+import { getPropertyEmbeddingText, getPropertyTextHash } from './property-text';
+
+const DEFAULT_JOBS_PATH = '.cache/reindex-jobs.json';
+const MAX_STORED_JOBS = 20;
+const MAX_REPORTED_ERRORS = 100;
+const RETRY_BASE_DELAY_MS = 500;
+
+// A job as persisted, with the listing ids it walks through so it can resume from its checkpoint
+interface StoredJob extends ReindexJob {
+  propertyIds: number[];
+}
+
+interface ReindexJobManagerOptions {
+  // JSON file jobs are checkpointed to; null keeps them in memory only
+  filePath?: string | null;
+}
+
+/**
+ * Runs reindex jobs one at a time: listings are embedded in batches with a
+ * bounded number of provider calls in flight, failed calls are retried with
+ * backoff, and progress is checkpointed after every batch
+ * A job left running by a stopped server is marked interrupted and can be resumed
+ */
+export class ReindexJobManager {
+  private storage: IStorage;
+  private jobs: Map<string, StoredJob>;
+  private filePath: string | null;
+  private loaded: boolean;
+  private running: StoredJob | null;
+
+  constructor(storage: IStorage, options: ReindexJobManagerOptions = {}) {
+    this.storage = storage;
+    this.jobs = new Map();
+    this.filePath = options.filePath ? path.resolve(process.cwd(), options.filePath) : null;
+    this.loaded = false;
+    this.running = null;
+  }
+
+  /**
+   * Jobs newest first
+   */
+  list(): ReindexJob[] {
+    this.ensureLoaded();
+    return Array.from(this.jobs.values()).reverse().map(toPublicJob);
+  }
+
+  get(id: string): ReindexJob | undefined {
+    this.ensureLoaded();
+    const job = this.jobs.get(id);
+    return job ? toPublicJob(job) : undefined;
+  }
+
+  getRunning(): ReindexJob | undefined {
+    return this.running ? toPublicJob(this.running) : undefined;
+  }
+
+  /**
+   * The most recently completed job
+   */
+  lastCompleted(): ReindexJob | undefined {
+    this.ensureLoaded();
+    const job = Array.from(this.jobs.values()).reverse().find(j => j.status === 'completed');
+    return job ? toPublicJob(job) : undefined;
+  }
+
+  /**
+   * Start a job over every current listing and return it straight away
+   * Callers check getRunning() first; only one job runs at a time
+   * The slot is claimed before the listings are loaded, so a second call made
+   * meanwhile is refused, and released again if loading them fails
+   */
+  async start(options: ReindexRequest): Promise<ReindexJob> {
+    this.ensureLoaded();
+    if (this.running) {
+      throw new Error(`Reindex job ${this.running.id} is already running`);
+    }
+
+    const now = new Date().toISOString();
+    const job: StoredJob = {
+      id: crypto.randomUUID(),
+      status: 'running',
+      options,
+      model: embeddingProvider.model,
+      createdAt: now,
+      updatedAt: now,
+      total: 0,
+      processed: 0,
+      embedded: 0,
+      restored: 0,
+      skipped: 0,
+      failed: 0,
+      errors: [],
+      propertyIds: []
+    };
+    this.running = job;
+
+    try {
+      const properties = await this.storage.getAllProperties();
+      job.total = properties.length;
+      job.propertyIds = properties.map(p => p.id);
+    } catch (error) {
+      this.running = null;
+      throw error;
+    }
+    this.jobs.set(job.id, job);
+
+    this.launch(job);
+    return toPublicJob(job);
+  }
+
+  /**
+   * Continue an interrupted or failed job from its last checkpoint
+   */
+  resume(id: string): ReindexJob | undefined {
+    this.ensureLoaded();
+    const job = this.jobs.get(id);
+    if (!job) return undefined;
+    if (this.running) {
+      throw new Error(`Reindex job ${this.running.id} is already running`);
+    }
+
+    job.status = 'running';
+    job.model = embeddingProvider.model;
+    delete job.error;
+    delete job.finishedAt;
+
+    this.launch(job);
+    return toPublicJob(job);
+  }
+
+  private launch(job: StoredJob): void {
+    this.running = job;
+
+    this.run(job)
+      .catch(error => {
+        job.status = 'failed';
+        job.error = error instanceof Error ? error.message : String(error);
+        console.error(`Reindex job ${job.id} failed after ${job.processed} of ${job.total} listings:`, error);
+      })
+      .finally(() => {
+        this.running = null;
+        job.updatedAt = job.finishedAt = new Date().toISOString();
+        this.persist().catch(error => {
+          console.error(`Error writing reindex jobs ${this.filePath}:`, error);
+        });
+      });
+  }
+
+  private async run(job: StoredJob): Promise<void> {
+    if (!vectorStore.isAvailable()) {
+      throw new Error(`${vectorStore.name} vector store is not configured`);
+    }
+    if (!embeddingProvider.isAvailable()) {
+      throw new Error(`${embeddingProvider.model} embeddings are not available`);
+    }
+
+    console.log(`Reindex job ${job.id} (${job.options.scope}) starting at listing ${job.processed + 1} of ${job.total}`);
+
+    while (job.processed < job.total) {
+      const ids = job.propertyIds.slice(job.processed, job.processed + job.options.batchSize);
+      await this.runBatch(job, ids);
+
+      // Checkpoint, so a restart continues with the next batch
+      job.processed += ids.length;
+      job.updatedAt = new Date().toISOString();
+      await this.persist();
+    }
+
+    job.status = 'completed';
+    const cacheStats = embeddingCache.getStats();
+    console.log(`Reindex job ${job.id} completed: ${job.embedded} embedded, ${job.restored} restored, ` +
+      `${job.skipped} skipped, ${job.failed} failed ` +
+      `(embedding cache: ${cacheStats.hits} hits, ${cacheStats.misses} misses)`);
+  }
+
+  /**
+   * Embed the listings of one batch that need it, upsert their vectors, and only
+   * then store the embeddings, so listings from a failed upsert still count as
+   * changed for the next job
+   */
+  private async runBatch(job: StoredJob, ids: number[]): Promise<void> {
+    const properties = await this.storage.getPropertiesByIds(ids.map(id => id.toString()));
+    job.skipped += ids.length - properties.length; // Deleted since the job started
+
+    const stored = new Map(
+      (await this.storage.getPropertyEmbeddings(properties.map(p => p.id.toString())))
+        .map(embedding => [embedding.id, embedding])
+    );
+
+    const toEmbed: Property[] = [];
+    const toRestore: PropertyEmbedding[] = [];
+    for (const property of properties) {
+      const current = stored.get(property.id.toString());
+      const upToDate = current !== undefined &&
+        current.model === embeddingProvider.model &&
+        current.textHash === getPropertyTextHash(property);
+
+      if (job.options.scope === 'all' || !upToDate) {
+        toEmbed.push(property);
+      } else if (job.options.restoreVectors) {
+        toRestore.push(current);
+      } else {
+        job.skipped++;
+      }
+    }
+
+    const results = await mapWithConcurrency(toEmbed, job.options.concurrency, async property => {
+      try {
+        const embedding = await withRetry(
+          () => getEmbedding(getPropertyEmbeddingText(property)),
+          job.options.maxRetries
+        );
+        const propertyEmbedding: PropertyEmbedding = {
+          id: property.id.toString(),
+          embedding,
+          model: embeddingProvider.model,
+          dimension: embedding.length,
+          textHash: getPropertyTextHash(property)
+        };
+        return propertyEmbedding;
+      } catch (error) {
+        recordFailure(job, property.id, error);
+        return null;
+      }
+    });
+    const embedded = results.filter((e): e is PropertyEmbedding => e !== null);
+
+    const vectors = [...embedded, ...toRestore];
+    if (vectors.length === 0) return;
+
+    try {
+      await withRetry(() => vectorStore.upsert(vectors), job.options.maxRetries);
+    } catch (error) {
+      vectors.forEach(vector => recordFailure(job, parseInt(vector.id), error));
+      return;
+    }
+
+    await this.storage.savePropertyEmbeddings(embedded);
+    job.embedded += embedded.length;
+    job.restored += toRestore.length;
+  }
+
+  /**
+   * Load persisted jobs the first time the manager is used
+   */
+  private ensureLoaded(): void {
+    if (this.loaded) return;
+    this.loaded = true;
+
+    if (!this.filePath || !fs.existsSync(this.filePath)) return;
+
+    try {
+      const jobs = JSON.parse(fs.readFileSync(this.filePath, 'utf8')) as StoredJob[];
+      jobs.forEach(job => {
+        // The server stopped while this job was running
+        if (job.status === 'running') {
+          job.status = 'interrupted';
+        }
+        this.jobs.set(job.id, job);
+      });
+    } catch (error) {
+      console.error(`Error reading reindex jobs ${this.filePath}:`, error);
+    }
+  }
+
+  /**
+   * Write the most recent jobs, replacing the file in one step so a crash never leaves it half written
+   */
+  private async persist(): Promise<void> {
+    const jobs = Array.from(this.jobs.values());
+    jobs.slice(0, Math.max(0, jobs.length - MAX_STORED_JOBS)).forEach(job => {
+      if (job !== this.running) this.jobs.delete(job.id);
+    });
+
+    if (!this.filePath) return;
+
+    const tempPath = `${this.filePath}.tmp`;
+    await fs.promises.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.promises.writeFile(tempPath, JSON.stringify(Array.from(this.jobs.values())));
+    await fs.promises.rename(tempPath, this.filePath);
+  }
+}
+
+function toPublicJob(job: StoredJob): ReindexJob {
+  const { propertyIds, ...publicJob } = job;
+  return { ...publicJob, errors: [...job.errors] };
+}
+
+function recordFailure(job: StoredJob, propertyId: number, error: unknown): void {
+  job.failed++;
+  if (job.errors.length < MAX_REPORTED_ERRORS) {
+    job.errors.push({ propertyId, message: error instanceof Error ? error.message : String(error) });
+  }
+}
+
+/**
+ * Call fn until it succeeds, waiting twice as long after each failure
+ */
+async function withRetry<T>(fn: () => Promise<T>, maxRetries: number): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      if (attempt >= maxRetries) throw error;
+      await new Promise(resolve => setTimeout(resolve, RETRY_BASE_DELAY_MS * Math.pow(2, attempt)));
+    }
+  }
+}
+
+/**
+ * Map items with at most `concurrency` calls in flight, keeping their order
+ */
+async function mapWithConcurrency<T, R>(items: T[], concurrency: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, worker));
+  return results;
+}
+
+/**
+ * Create the reindex job manager from the environment
+ * REINDEX_JOBS_PATH sets the checkpoint file; "off" keeps jobs in memory only
+ */
+export function createReindexJobManager(storage: IStorage): ReindexJobManager {
+  const configured = process.env.REINDEX_JOBS_PATH;
+  return new ReindexJobManager(storage, {
+    filePath: configured === 'off' ? null : (configured || DEFAULT_JOBS_PATH)
+  });
+}
@@ -0,0 +1,161 @@
+import type { InsertSearchAlert, PropertyWithCoordinates, SavedSearch, SearchAlert, SearchAlertWithListing } from '@shared/schema';
+import type { IStorage } from '../storage';
+import { alertDelivery, createAlertNotification, type AlertDelivery } from './alert-delivery';
+import { embeddingProvider } from './embeddings';
+import { fuseResults, type FusedCandidate } from './fusion';
+import { hasQueryConstraints, parseSearchQuery } from './query-parser';
+import { BUILT_IN_PROFILE, rankingProfiles, type RankingProfile } from './ranking-profiles';
+import { scoreResult } from './scoring';
+import { hasActiveFilters, matchesFilters, passesExclusions } from './search-filters';
+
+// Changes arriving this close together are matched in one run, so an import sends one alert per user
+const MATCH_DELAY_MS = 500;
+
+/**
+ * Re-runs saved searches that have alerts on against new and changed listings,
+ * recording each listing that matches in its owner's inbox once, and
+ * delivering the new matches of a run as one notification per user
+ *
+ * A listing matches a saved search when it passes the search's filters and
+ * exclusions, and then satisfies every constraint parsed from its query, or,
+ * for a query with no constraints, matches its keywords. Matching doesn't call
+ * the embedding provider, so it works in fallback mode too
+ */
+export class SavedSearchMatcher {
+  private storage: IStorage;
+  private delivery: AlertDelivery;
+  private pending: Set<number>;
+  private timer: NodeJS.Timeout | null;
+  private queue: Promise<unknown>;
+
+  constructor(storage: IStorage, delivery: AlertDelivery = alertDelivery) {
+    this.storage = storage;
+    this.delivery = delivery;
+    this.pending = new Set();
+    this.timer = null;
+    this.queue = Promise.resolve();
+  }
+
+  /**
+   * Queue listings that were added or changed; they are matched shortly after in the background
+   */
+  listingsChanged(propertyIds: number[]): void {
+    if (propertyIds.length === 0) return;
+
+    propertyIds.forEach(id => this.pending.add(id));
+    if (!this.timer) {
+      this.timer = setTimeout(() => this.flush(), MATCH_DELAY_MS);
+    }
+  }
+
+  /**
+   * Resolves once queued listings have been matched and alerts delivered
+   */
+  async idle(): Promise<void> {
+    if (this.timer) this.flush();
+    await this.queue;
+  }
+
+  /**
+   * Match listings now, returning the alerts that were new
+   */
+  async match(propertyIds: number[]): Promise<SearchAlert[]> {
+    const searches = await this.storage.getAlertingSavedSearches();
+    if (searches.length === 0 || propertyIds.length === 0) return [];
+
+    const properties = await this.storage.getPropertiesByIds(propertyIds.map(id => id.toString()));
+    const profile = rankingProfiles.get() ?? BUILT_IN_PROFILE;
+
+    // Keyword relevance over the whole index, so scores mean what they do in a search
+    // Each distinct query is searched once per run, however many saved searches share it
+    const total = (await this.storage.getAllProperties()).length;
+    const lexicalByQuery = new Map<string, Map<string, FusedCandidate>>();
+    for (const query of Array.from(new Set(searches.map(search => search.query)))) {
+      const keywordResults = await this.storage.searchPropertiesByKeywords(query, Math.max(1, total));
+      lexicalByQuery.set(query, new Map(
+        fuseResults(null, keywordResults, embeddingProvider.model, profile).map(c => [c.id, c])
+      ));
+    }
+
+    const candidates = searches.flatMap(search =>
+      this.matchSearch(search, properties, lexicalByQuery.get(search.query)!, profile)
+    );
+
+    const added = await this.storage.addSearchAlerts(candidates);
+    if (added.length > 0) {
+      console.log(`Saved searches: ${added.length} new matches for ${new Set(added.map(a => a.userId)).size} users`);
+      await this.notify(added, searches, properties);
+    }
+    return added;
+  }
+
+  private flush(): void {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+
+    const ids = Array.from(this.pending);
+    this.pending.clear();
+    this.queue = this.queue.then(() => this.match(ids)).catch(error => {
+      console.error('Error matching saved searches:', error);
+    });
+  }
+
+  /**
+   * The listings that match one saved search, given its query's keyword candidates by id
+   */
+  private matchSearch(
+    search: SavedSearch,
+    properties: PropertyWithCoordinates[],
+    lexical: Map<string, FusedCandidate>,
+    profile: RankingProfile
+  ): InsertSearchAlert[] {
+    const parsed = parseSearchQuery(search.query);
+    const constrained = hasQueryConstraints(parsed);
+    const filters = search.filters ?? undefined;
+
+    return properties.flatMap(property => {
+      if (hasActiveFilters(filters) && !matchesFilters(property, filters)) return [];
+      if (!passesExclusions(property, parsed.excluded)) return [];
+
+      const id = property.id.toString();
+      const candidate: FusedCandidate = lexical.get(id) ?? { id, relevance: 0 };
+      const result = scoreResult(property, parsed, candidate, profile);
+      const matched = constrained ? !!result.exactMatch : !!candidate.lexical;
+      if (!matched) return [];
+
+      return [{ userId: search.userId, savedSearchId: search.id, propertyId: property.id, score: result.score }];
+    });
+  }
+
+  private async notify(added: SearchAlert[], searches: SavedSearch[], properties: PropertyWithCoordinates[]): Promise<void> {
+    const searchNames = new Map(searches.map(s => [s.id, s.name]));
+    const propertiesById = new Map(properties.map(p => [p.id, p]));
+
+    const byUser = new Map<number, SearchAlertWithListing[]>();
+    for (const alert of added) {
+      const { id, title, location, price, bedrooms, type } = propertiesById.get(alert.propertyId)!;
+      const alerts = byUser.get(alert.userId) ?? [];
+      alerts.push({
+        ...alert,
+        savedSearchName: searchNames.get(alert.savedSearchId) ?? '',
+        property: { id, title, location, price, bedrooms, type }
+      });
+      byUser.set(alert.userId, alerts);
+    }
+
+    for (const [userId, alerts] of Array.from(byUser)) {
+      try {
+        const user = await this.storage.getUser(userId);
+        if (!user) continue;
+        await this.delivery.deliver(createAlertNotification({ id: user.id, username: user.username }, alerts));
+      } catch (error) {
+        // Delivery is best effort; the matches are already in the inbox
+        console.error(`Error delivering alerts to user ${userId} via ${this.delivery.name}:`, error);
+      }
+    }
+  }
+}
+
+export function createSavedSearchMatcher(storage: IStorage): SavedSearchMatcher {
+  return new SavedSearchMatcher(storage);
+}
@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import type { ParsedQuery, PropertyWithCoordinates } from '@shared/schema';
+import type { FusedCandidate } from './fusion';
+import { BUILT_IN_PROFILE } from './ranking-profiles';
+import { scoreResult } from './scoring';
+
+const CHELSEA = { lat: 51.4875, lng: -0.1687 };
+
+function property(overrides: Partial<PropertyWithCoordinates> = {}): PropertyWithCoordinates {
+  return {
+    id: 1,
+    externalId: null,
+    title: 'Bright flat in Chelsea',
+    description: 'A modern flat with a park view',
+    type: 'Flat',
+    style: 'Modern',
+    location: 'Chelsea',
+    bedrooms: 2,
+    bathrooms: 1,
+    price: 650_000,
+    view: 'Park View',
+    furnishing: 'Furnished',
+    embedding: null,
+    ...overrides
+  };
+}
+
+function parsed(overrides: Partial<ParsedQuery> = {}): ParsedQuery {
+  return {
+    query: '',
+    types: [],
+    styles: [],
+    views: [],
+    furnishings: [],
+    pois: [],
+    excluded: { types: [], styles: [], views: [], furnishings: [] },
+    ...overrides
+  };
+}
+
+function candidate(relevance: number): FusedCandidate {
+  return { id: '1', relevance, lexical: { score: 3, coverage: relevance, rank: 1, matchedTerms: ['flat'] } };
+}
+
+describe('scoreResult', () => {
+  const twoBedFlat = parsed({ types: ['Flat'], bedrooms: { min: 2, max: 2 } });
+
+  it('scores the share of available points earned', () => {
+    const result = scoreResult(property(), twoBedFlat, candidate(0.5));
+
+    // Similarity 0.5 of 1, type 0.2, bedrooms 0.3 and the exact match bonus 0.5
+    expect(result.score).toBe(75);
+    expect(result.exactMatch).toBe(true);
+    expect(result.scoreBreakdown).toMatchObject({ retrieval: 'lexical', total: 1.5, maxPossible: 2 });
+  });
+
+  it('explains a missed constraint and withholds the exact match bonus', () => {
+    const result = scoreResult(property({ type: 'House' }), twoBedFlat, candidate(0.5));
+
+    expect(result.score).toBe(40);
+    expect(result.exactMatch).toBe(false);
+    expect(result.scoreBreakdown.components).toContainEqual(
+      expect.objectContaining({ key: 'type', label: 'Type is House, not Flat', value: 0, matched: false })
+    );
+  });
+
+  it('scores a query without constraints by relevance alone', () => {
+    const result = scoreResult(property(), parsed(), candidate(0.42));
+
+    expect(result.score).toBe(42);
+    expect(result.exactMatch).toBeUndefined();
+  });
+
+  it('weighs components by the ranking profile', () => {
+    const profile = { ...BUILT_IN_PROFILE, weights: { ...BUILT_IN_PROFILE.weights, similarity: 2 } };
+
+    expect(scoreResult(property(), twoBedFlat, candidate(0.5), profile).score).toBe(66.67);
+  });
+
+  it('rewards a listing close to the location asked for', () => {
+    const result = scoreResult(
+      property({ coordinates: CHELSEA }),
+      parsed({ location: { name: 'Chelsea', coordinates: CHELSEA } }),
+      candidate(1)
+    );
+
+    const proximity = result.scoreBreakdown.components.find(c => c.key === 'proximity');
+    expect(result.distance).toBe(0);
+    expect(proximity).toMatchObject({ matched: true });
+    expect(proximity?.value).toBeCloseTo(proximity!.max);
+  });
+});
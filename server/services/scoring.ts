@@ -0,0 +1,254 @@
+import {
+  type NearestPoi,
+  type NumericRange,
+  type ParsedQuery,
+  type PropertyWithCoordinates,
+  type ScoreComponent,
+  type SearchResult
+} from "@shared/schema";
+import { calculateDistance, calculateProximityBoost } from "./geocoding";
+import type { FusedCandidate } from "./fusion";
+import { hasQueryConstraints, isInRange } from "./query-parser";
+import { BUILT_IN_PROFILE, type RankingProfile } from "./ranking-profiles";
+import { poiLayer, travelMinutes } from "./poi";
+
+/**
+ * Score a candidate against the parsed query
+ * Every boost considered is recorded in the breakdown, and the final score is
+ * the share of the points available for this query that the property earned,
+ * so it means the same thing regardless of what else was returned
+ * Weights and thresholds come from the ranking profile
+ */
+export function scoreResult<T extends PropertyWithCoordinates>(
+  property: T,
+  parsed: ParsedQuery,
+  retrieval: FusedCandidate,
+  profile: RankingProfile = BUILT_IN_PROFILE
+): T & SearchResult {
+  const { weights, priceTargetTiers, proximityTiers, closeDistance } = profile;
+  const components: ScoreComponent[] = [{
+    key: 'similarity',
+    label: describeRetrieval(retrieval),
+    value: retrieval.relevance * weights.similarity,
+    max: weights.similarity,
+    matched: true
+  }];
+  let distance: number | undefined;
+
+  // For enumerated attributes, check if any of the specified values match
+  const attributes: Array<[string, string, string[], string]> = [
+    ['type', 'Type', parsed.types, property.type],
+    ['style', 'Style', parsed.styles, property.style],
+    ['view', 'View', parsed.views, property.view],
+    ['furnishing', 'Furnishing', parsed.furnishings, property.furnishing]
+  ];
+  for (const [key, name, values, actual] of attributes) {
+    if (values.length === 0) continue;
+
+    const matched = values.includes(actual);
+    components.push({
+      key,
+      label: matched ? `${name} is ${actual}` : `${name} is ${actual}, not ${values.join(' or ')}`,
+      value: matched ? weights.attribute : 0,
+      max: weights.attribute,
+      matched
+    });
+  }
+
+  // Room counts must fall inside the requested range
+  const roomCounts: Array<[string, string, NumericRange | undefined, number]> = [
+    ['bedrooms', 'bedroom', parsed.bedrooms, property.bedrooms],
+    ['bathrooms', 'bathroom', parsed.bathrooms, property.bathrooms]
+  ];
+  for (const [key, noun, range, actual] of roomCounts) {
+    if (!range) continue;
+
+    const matched = isInRange(actual, range);
+    components.push({
+      key,
+      label: `${actual} ${noun}${actual !== 1 ? 's' : ''}${matched ? '' : `, wanted ${formatRange(range)}`}`,
+      value: matched ? weights.roomCount : 0,
+      max: weights.roomCount,
+      matched
+    });
+  }
+
+  if (parsed.price) {
+    const { min, max, target } = parsed.price;
+    const price = property.price;
+
+    if (min !== undefined) {
+      const matched = price >= min;
+      components.push({
+        key: 'price_min',
+        label: matched ? `Price at least £${formatPrice(min)}` : `Price below £${formatPrice(min)}`,
+        value: matched ? weights.priceLimit : 0,
+        max: weights.priceLimit,
+        matched
+      });
+    }
+
+    if (max !== undefined) {
+      const matched = price <= max;
+      components.push({
+        key: 'price_max',
+        label: matched ? `Price within £${formatPrice(max)}` : `Price above £${formatPrice(max)}`,
+        value: matched ? weights.priceLimit : 0,
+        max: weights.priceLimit,
+        matched
+      });
+    }
+
+    if (target) {
+      // Boost score based on how close the price is to the target
+      const percentDiff = Math.abs(price - target) / target;
+      const tier = priceTargetTiers.find(t => percentDiff <= t.within);
+      components.push({
+        key: 'price_target',
+        label: `Price ${Math.round(percentDiff * 100)}% from £${formatPrice(target)}`,
+        value: tier ? tier.boost : 0,
+        max: maxBoost(priceTargetTiers),
+        matched: !!tier
+      });
+    }
+  }
+
+  if (parsed.location) {
+    const target = parsed.location;
+
+    if (property.coordinates) {
+      // Calculate distance between property and target location
+      const exactDistance = calculateDistance(target.coordinates, property.coordinates);
+      distance = Math.round(exactDistance * 10) / 10; // Round to 1 decimal place
+
+      // Consider it a match if it's very close
+      const matched = exactDistance <= closeDistance.within;
+      components.push({
+        key: 'proximity',
+        label: `${distance} km from ${target.name}`,
+        value: calculateProximityBoost(exactDistance, proximityTiers) + (matched ? closeDistance.boost : 0),
+        max: maxBoost(proximityTiers) + closeDistance.boost,
+        matched
+      });
+    } else {
+      // If no coordinates, check if the location name matches
+      const name = target.name.toLowerCase();
+      const location = property.location.toLowerCase();
+      const matched = location.includes(name) || name.includes(location);
+      components.push({
+        key: 'proximity',
+        label: matched ? `Located in ${property.location}` : `Located in ${property.location}, not ${target.name}`,
+        value: matched ? weights.locationName : 0,
+        max: weights.locationName,
+        matched
+      });
+    }
+  }
+
+  // Distance to the nearest of each kind of place the query asked to be near
+  const nearestPois: NearestPoi[] = [];
+  for (const constraint of parsed.pois) {
+    const key = `poi_${constraint.label.toLowerCase().replace(/\s+/g, '_')}`;
+    const nearest = property.coordinates && poiLayer.nearest(property.coordinates, constraint.category, constraint.tags);
+    if (!nearest) {
+      components.push({
+        key,
+        label: property.coordinates ? `No ${constraint.label} known` : `No location to find the nearest ${constraint.label} from`,
+        value: 0,
+        max: weights.poi,
+        matched: false
+      });
+      continue;
+    }
+
+    const mode = constraint.mode ?? 'walk';
+    const minutes = travelMinutes(nearest.distance, mode);
+    const matched = nearest.distance <= constraint.maxDistanceKm;
+    const wanted = constraint.minutes !== undefined ? `${constraint.minutes} min` : formatKm(constraint.maxDistanceKm);
+    components.push({
+      key,
+      label: `Nearest ${constraint.label}, ${nearest.poi.name}, is ${formatKm(nearest.distance)} away (${minutes} min ${mode})` +
+        (matched ? '' : `, wanted within ${wanted}`),
+      // Beyond the limit the boost fades, reaching nothing at twice the distance
+      value: weights.poi * Math.min(1, Math.max(0, 2 - nearest.distance / constraint.maxDistanceKm)),
+      max: weights.poi,
+      matched
+    });
+    nearestPois.push({
+      category: constraint.category,
+      label: constraint.label,
+      name: nearest.poi.name,
+      distanceKm: Math.round(nearest.distance * 100) / 100,
+      minutes,
+      mode,
+      matched
+    });
+  }
+
+  // Bonus when the property satisfies every constraint in the query
+  const hasConstraints = hasQueryConstraints(parsed);
+  const exactMatch = hasConstraints && components.every(c => c.matched);
+  if (hasConstraints) {
+    components.push({
+      key: 'exact_match',
+      label: exactMatch ? 'Matches every requirement' : 'Misses at least one requirement',
+      value: exactMatch ? weights.exactMatch : 0,
+      max: weights.exactMatch,
+      matched: exactMatch
+    });
+  }
+
+  const total = components.reduce((sum, c) => sum + c.value, 0);
+  const maxPossible = components.reduce((sum, c) => sum + c.max, 0);
+
+  return {
+    ...property,
+    score: maxPossible > 0 ? Math.round((total / maxPossible) * 100 * 100) / 100 : 0, // 0-100, 2 decimal places
+    exactMatch: hasConstraints ? exactMatch : undefined,
+    ...(distance !== undefined ? { distance } : {}),
+    ...(nearestPois.length > 0 ? { nearestPois } : {}),
+    scoreBreakdown: {
+      retrieval: retrieval.vector && retrieval.lexical ? 'hybrid' : retrieval.vector ? 'vector' : 'lexical',
+      similarity: retrieval.vector?.similarity,
+      lexicalScore: retrieval.lexical?.score,
+      relevance: retrieval.relevance,
+      components,
+      total,
+      maxPossible
+    }
+  };
+}
+
+/**
+ * Summarize what each retriever found, e.g. "Semantic similarity 84.1% (#2); keywords georgian, wimbledon (#1)"
+ */
+function describeRetrieval(retrieval: FusedCandidate): string {
+  const parts: string[] = [];
+  if (retrieval.vector) {
+    parts.push(`Semantic similarity ${(retrieval.vector.similarity * 100).toFixed(1)}% (#${retrieval.vector.rank})`);
+  }
+  if (retrieval.lexical) {
+    parts.push(`keywords ${retrieval.lexical.matchedTerms.join(', ')} (#${retrieval.lexical.rank})`);
+  }
+  const label = parts.join('; ');
+  return label.charAt(0).toUpperCase() + label.slice(1);
+}
+
+function maxBoost(tiers: Array<{ boost: number }>): number {
+  return Math.max(...tiers.map(t => t.boost));
+}
+
+function formatPrice(price: number): string {
+  return Math.round(price).toLocaleString('en-GB');
+}
+
+function formatKm(km: number): string {
+  return km < 1 ? `${Math.round(km * 100) * 10} m` : `${Math.round(km * 10) / 10} km`;
+}
+
+function formatRange(range: NumericRange): string {
+  if (range.min !== undefined && range.max !== undefined) {
+    return range.min === range.max ? `${range.min}` : `${range.min}-${range.max}`;
+  }
+  return range.min !== undefined ? `${range.min}+` : `up to ${range.max}`;
+}
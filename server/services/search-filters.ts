@@ -0,0 +1,97 @@
+import { type GeoFilter, type ParsedQuery, type Property, type SearchFilters, geoFilterSchema, searchFiltersSchema } from "@shared/schema";
+
+/**
+ * Check whether a property satisfies every explicit search filter
+ */
+export function matchesFilters(property: Property, filters: SearchFilters): boolean {
+  const valueFilters: Array<[string[] | undefined, string]> = [
+    [filters.type, property.type],
+    [filters.style, property.style],
+    [filters.location, property.location],
+    [filters.view, property.view],
+    [filters.furnishing, property.furnishing]
+  ];
+  for (const [allowed, actual] of valueFilters) {
+    if (allowed && allowed.length > 0 && !allowed.includes(actual)) {
+      return false;
+    }
+  }
+
+  const rangeFilters: Array<[number[] | undefined, number]> = [
+    [filters.bedrooms, property.bedrooms],
+    [filters.bathrooms, property.bathrooms],
+    [filters.price, property.price]
+  ];
+  for (const [range, actual] of rangeFilters) {
+    if (range && (actual < range[0] || actual > range[1])) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Check that a property has none of the attribute values a query excluded ("not furnished")
+ */
+export function passesExclusions(property: Property, parsedExcluded: ParsedQuery['excluded']): boolean {
+  const excluded: Record<keyof ParsedQuery['excluded'], string[]> = parsedExcluded;
+  return !excluded.types.includes(property.type) &&
+    !excluded.styles.includes(property.style) &&
+    !excluded.views.includes(property.view) &&
+    !excluded.furnishings.includes(property.furnishing);
+}
+
+/**
+ * Check whether a request supplied any filter values
+ */
+export function hasActiveFilters(filters: SearchFilters | undefined): filters is SearchFilters {
+  if (!filters) return false;
+
+  return Object.values(filters).some(value => Array.isArray(value) && value.length > 0);
+}
+
+/**
+ * Read search filters from URL query parameters, for GET endpoints
+ * Lists repeat the parameter or separate values with commas (type=Flat&type=House, view=Park View,River View);
+ * ranges are "min,max" (bedrooms=2,4). Throws a ZodError for invalid values
+ */
+export function parseFilterQuery(query: Record<string, unknown>): SearchFilters {
+  const listValues = (value: unknown): string[] | undefined => {
+    if (value === undefined) return undefined;
+    const values = Array.isArray(value) ? value : [value];
+    return values.flatMap(v => String(v).split(',')).map(v => v.trim()).filter(Boolean);
+  };
+  const rangeValues = (value: unknown): unknown => {
+    const values = listValues(value);
+    return values ? values.map(Number) : undefined;
+  };
+
+  return searchFiltersSchema.parse({
+    type: listValues(query.type),
+    style: listValues(query.style),
+    location: listValues(query.location),
+    bedrooms: rangeValues(query.bedrooms),
+    bathrooms: rangeValues(query.bathrooms),
+    price: rangeValues(query.price),
+    view: listValues(query.view),
+    furnishing: listValues(query.furnishing)
+  });
+}
+
+/**
+ * Read geographic constraints from URL query parameters, for GET endpoints:
+ * near=lat,lng,radiusKm, bbox=west,south,east,north and polygon=lng,lat;lng,lat;...
+ * Returns undefined when none is given. Throws a ZodError for invalid values
+ */
+export function parseGeoQuery(query: Record<string, unknown>): GeoFilter | undefined {
+  const numbers = (value: unknown): number[] => String(value).split(',').map(v => Number(v.trim()));
+  const near = query.near !== undefined ? numbers(query.near) : undefined;
+
+  const geo = geoFilterSchema.parse({
+    near: near ? { lat: near[0], lng: near[1], radiusKm: near[2] } : undefined,
+    bbox: query.bbox !== undefined ? numbers(query.bbox) : undefined,
+    polygon: query.polygon !== undefined ? String(query.polygon).split(';').map(numbers) : undefined
+  });
+  return geo.near || geo.bbox || geo.polygon ? geo : undefined;
+}
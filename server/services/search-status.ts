@@ -0,0 +1,87 @@
+import type { SearchStatus, ServiceStatus } from '@shared/schema';
+import type { IStorage } from '../storage';
+import type { ReindexJobManager } from './reindex-jobs';
+import { embeddingProvider } from './embeddings';
+import { vectorStore } from './vector-store';
+
+// Reuse a provider check for this long, so polling the status doesn't pay for an embedding each time
+const PROBE_TTL_MS = 60 * 1000;
+
+let lastProbe: { checkedAt: number; status: ServiceStatus } | null = null;
+
+/**
+ * Report whether searches can use vector retrieval, with the counts behind that
+ */
+export async function getSearchStatus(storage: IStorage, reindexJobs: ReindexJobManager): Promise<SearchStatus> {
+  const [listings, embedded, embeddings, { status: vectorStoreStatus, size }] = await Promise.all([
+    storage.getAllProperties().then(properties => properties.length),
+    storage.countPropertyEmbeddings(embeddingProvider.model),
+    probeEmbeddings(),
+    probeVectorStore()
+  ]);
+
+  const mode = embeddings.reachable && !!size ? 'semantic' : 'fallback';
+
+  return {
+    ready: listings > 0 && mode === 'semantic',
+    mode,
+    listings,
+    embedded,
+    vectorIndexSize: size,
+    embeddingModel: embeddingProvider.model,
+    embeddingDimension: embeddingProvider.dimension,
+    lastReindexAt: reindexJobs.lastCompleted()?.finishedAt ?? null,
+    reindex: reindexJobs.getRunning() ?? null,
+    services: {
+      embeddings,
+      vectorStore: vectorStoreStatus
+    }
+  };
+}
+
+/**
+ * Embed a short text with the provider itself, bypassing the embedding cache
+ */
+async function probeEmbeddings(): Promise<ServiceStatus> {
+  if (lastProbe && Date.now() - lastProbe.checkedAt < PROBE_TTL_MS) {
+    return lastProbe.status;
+  }
+
+  const status: ServiceStatus = {
+    name: embeddingProvider.model,
+    configured: embeddingProvider.isAvailable(),
+    reachable: false
+  };
+
+  if (status.configured) {
+    try {
+      await embeddingProvider.embed('status check');
+      status.reachable = true;
+    } catch (error) {
+      status.error = error instanceof Error ? error.message : String(error);
+    }
+  }
+
+  lastProbe = { checkedAt: Date.now(), status };
+  return status;
+}
+
+async function probeVectorStore(): Promise<{ status: ServiceStatus; size: number | null }> {
+  const status: ServiceStatus = {
+    name: vectorStore.name,
+    configured: vectorStore.isAvailable(),
+    reachable: false
+  };
+  if (!status.configured) {
+    return { status, size: null };
+  }
+
+  try {
+    const size = await vectorStore.size();
+    status.reachable = true;
+    return { status, size };
+  } catch (error) {
+    status.error = error instanceof Error ? error.message : String(error);
+    return { status, size: null };
+  }
+}
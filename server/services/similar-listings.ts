@@ -0,0 +1,44 @@
+import type { PropertyWithCoordinates, SimilarListing } from '@shared/schema';
+import type { IStorage } from '../storage';
+import { embeddingProvider, getEmbedding } from './embeddings';
+import { getPropertyEmbeddingText } from './property-text';
+import { vectorStore } from './vector-store';
+
+/**
+ * The listings' embeddings from the active model, in the order given
+ * Stored embeddings are reused; listings without one are embedded now
+ */
+export async function getListingEmbeddings(storage: IStorage, properties: PropertyWithCoordinates[]): Promise<number[][]> {
+  const stored = new Map(
+    (await storage.getPropertyEmbeddings(properties.map(p => p.id.toString())))
+      .filter(e => e.model === embeddingProvider.model)
+      .map(e => [e.id, e.embedding])
+  );
+
+  return Promise.all(properties.map(property =>
+    stored.get(property.id.toString()) ?? getEmbedding(getPropertyEmbeddingText(property))
+  ));
+}
+
+/**
+ * Listings nearest to this one in the vector index, most similar first, excluding itself
+ */
+export async function findSimilarListings(
+  storage: IStorage,
+  property: PropertyWithCoordinates,
+  limit: number
+): Promise<SimilarListing[]> {
+  const [embedding] = await getListingEmbeddings(storage, [property]);
+  // One extra, since the listing normally finds itself first
+  const matches = (await vectorStore.search(embedding, embeddingProvider.model, limit + 1))
+    .filter(match => match.id !== property.id.toString())
+    .slice(0, limit);
+
+  const properties = await storage.getPropertiesByIds(matches.map(match => match.id));
+  const propertiesById = new Map(properties.map(p => [p.id.toString(), p]));
+
+  // A vector can outlive its listing briefly, so skip ids that no longer resolve
+  return matches
+    .filter(match => propertiesById.has(match.id))
+    .map(match => ({ ...propertiesById.get(match.id)!, similarity: Math.round(match.score * 1000) / 1000 }));
+}
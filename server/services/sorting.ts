@@ -0,0 +1,25 @@
+import { type SearchResult, type SortMode } from "@shared/schema";
+
+type Comparator = (a: SearchResult, b: SearchResult) => number;
+
+const byRelevance: Comparator = (a, b) => b.score - a.score;
+
+// Primary ordering for each mode; ties fall through to relevance
+const comparators: Record<SortMode, Comparator> = {
+  relevance: () => 0,
+  price_asc: (a, b) => a.price - b.price,
+  price_desc: (a, b) => b.price - a.price,
+  bedrooms: (a, b) => b.bedrooms - a.bedrooms,
+  // Results without a distance sort after those with one
+  distance: (a, b) => (a.distance ?? Infinity) - (b.distance ?? Infinity),
+  // Listings carry no date, so ids (assigned in listing order) stand in for recency
+  newest: (a, b) => b.id - a.id
+};
+
+/**
+ * Sort results in place by the given mode, using relevance as the tiebreaker
+ */
+export function sortResults<T extends SearchResult>(results: T[], mode: SortMode): T[] {
+  const primary = comparators[mode];
+  return results.sort((a, b) => primary(a, b) || byRelevance(a, b));
+}
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { SpatialIndex } from './spatial-index';
+
+// Central London points, a few km apart
+const POINTS = {
+  chelsea: { lat: 51.4875, lng: -0.1687 },
+  soho: { lat: 51.5136, lng: -0.1365 },
+  wimbledon: { lat: 51.4214, lng: -0.2064 }
+};
+
+function index() {
+  const spatial = new SpatialIndex();
+  Object.entries(POINTS).forEach(([id, coordinates]) => spatial.add(id, coordinates));
+  return spatial;
+}
+
+describe('SpatialIndex', () => {
+  it('finds points within a radius with their distances', () => {
+    const results = index().withinRadius(POINTS.chelsea, 4);
+
+    expect(results.map(r => r.id).sort()).toEqual(['chelsea', 'soho']);
+    expect(results.find(r => r.id === 'chelsea')?.distance).toBe(0);
+  });
+
+  it('finds points inside a box, edges included', () => {
+    const { lat, lng } = POINTS.soho;
+
+    expect(index().withinBox([lng, lat, 0, 52])).toEqual(['soho']);
+  });
+
+  it('finds points inside a polygon but not just its bounding box', () => {
+    // A triangle whose bounding box covers all three points but whose area misses Wimbledon
+    const ring: Array<[number, number]> = [[-0.22, 51.47], [-0.12, 51.53], [-0.12, 51.41]];
+
+    expect(index().withinPolygon(ring).sort()).toEqual(['chelsea', 'soho']);
+  });
+
+  it('intersects every constraint of a filter', () => {
+    const ids = index().search({
+      near: { ...POINTS.chelsea, radiusKm: 10 },
+      bbox: [-0.3, 51.3, -0.15, 51.5]
+    });
+
+    expect(ids.sort()).toEqual(['chelsea', 'wimbledon']);
+  });
+
+  it('moves a point that is added again and drops one without coordinates', () => {
+    const spatial = index();
+    spatial.add('soho', POINTS.wimbledon);
+    spatial.add('chelsea', undefined);
+
+    expect(spatial.size).toBe(2);
+    expect(spatial.withinRadius(POINTS.wimbledon, 1).map(r => r.id).sort()).toEqual(['soho', 'wimbledon']);
+  });
+});
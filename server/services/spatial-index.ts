@@ -0,0 +1,161 @@
+import type { Coordinates, GeoFilter } from '@shared/schema';
+import { calculateDistance } from './geocoding';
+
+// Grid cells are this many degrees on a side, about 5.5 km north to south
+const DEFAULT_CELL_SIZE = 0.05;
+const KM_PER_DEGREE_LATITUDE = 111.32;
+
+type BoundingBox = [west: number, south: number, east: number, north: number];
+
+/**
+ * Uniform latitude/longitude grid over listing coordinates
+ * A box query only visits the cells it overlaps; radius and polygon queries
+ * narrow to their bounding box first and then test each point exactly
+ */
+export class SpatialIndex {
+  private cells: Map<string, Set<string>>;
+  private points: Map<string, Coordinates>;
+  private cellSize: number;
+
+  constructor(cellSize: number = DEFAULT_CELL_SIZE) {
+    this.cells = new Map();
+    this.points = new Map();
+    this.cellSize = cellSize;
+  }
+
+  get size(): number {
+    return this.points.size;
+  }
+
+  /**
+   * Index a point, replacing any previous position; without coordinates the id is removed
+   */
+  add(id: string, coordinates: Coordinates | undefined): void {
+    this.remove(id);
+    if (!coordinates) return;
+
+    const key = this.cellKey(this.cellIndex(coordinates.lng), this.cellIndex(coordinates.lat));
+    let cell = this.cells.get(key);
+    if (!cell) {
+      cell = new Set();
+      this.cells.set(key, cell);
+    }
+    cell.add(id);
+    this.points.set(id, coordinates);
+  }
+
+  remove(id: string): void {
+    const coordinates = this.points.get(id);
+    if (!coordinates) return;
+
+    const key = this.cellKey(this.cellIndex(coordinates.lng), this.cellIndex(coordinates.lat));
+    const cell = this.cells.get(key);
+    cell?.delete(id);
+    if (cell?.size === 0) this.cells.delete(key);
+    this.points.delete(id);
+  }
+
+  /**
+   * Ids of the points satisfying every constraint of the filter
+   */
+  search(filter: GeoFilter): string[] {
+    let ids: Set<string> | undefined;
+    const narrow = (matches: string[]) => {
+      const current = ids;
+      ids = new Set(current ? matches.filter(id => current.has(id)) : matches);
+    };
+
+    if (filter.near) narrow(this.withinRadius(filter.near, filter.near.radiusKm).map(r => r.id));
+    if (filter.bbox) narrow(this.withinBox(filter.bbox));
+    if (filter.polygon) narrow(this.withinPolygon(filter.polygon));
+
+    return Array.from(ids ?? this.points.keys());
+  }
+
+  /**
+   * Points inside a [west, south, east, north] box, edges included
+   */
+  withinBox([west, south, east, north]: BoundingBox): string[] {
+    const minX = this.cellIndex(west);
+    const maxX = this.cellIndex(east);
+    const minY = this.cellIndex(south);
+    const maxY = this.cellIndex(north);
+
+    const ids: string[] = [];
+    const collect = (cell: Set<string>) => {
+      cell.forEach(id => {
+        const { lat, lng } = this.points.get(id)!;
+        if (lng >= west && lng <= east && lat >= south && lat <= north) ids.push(id);
+      });
+    };
+
+    // A large box spans more cells than are occupied, so scan the occupied ones instead
+    if ((maxX - minX + 1) * (maxY - minY + 1) > this.cells.size) {
+      this.cells.forEach(collect);
+    } else {
+      for (let x = minX; x <= maxX; x++) {
+        for (let y = minY; y <= maxY; y++) {
+          const cell = this.cells.get(this.cellKey(x, y));
+          if (cell) collect(cell);
+        }
+      }
+    }
+    return ids;
+  }
+
+  /**
+   * Points within radiusKm of the centre, with their distances in km
+   */
+  withinRadius(center: Coordinates, radiusKm: number): Array<{ id: string; distance: number }> {
+    const latDelta = radiusKm / KM_PER_DEGREE_LATITUDE;
+    // Degrees of longitude shrink towards the poles; near them any longitude can be in range
+    const cosLat = Math.cos(center.lat * Math.PI / 180);
+    const lngDelta = cosLat > 0.01 ? radiusKm / (KM_PER_DEGREE_LATITUDE * cosLat) : 180;
+
+    return this.withinBox([
+      Math.max(-180, center.lng - lngDelta),
+      Math.max(-90, center.lat - latDelta),
+      Math.min(180, center.lng + lngDelta),
+      Math.min(90, center.lat + latDelta)
+    ])
+      .map(id => ({ id, distance: calculateDistance(center, this.points.get(id)!) }))
+      .filter(({ distance }) => distance <= radiusKm);
+  }
+
+  /**
+   * Points inside a ring of [lng, lat] positions
+   */
+  withinPolygon(ring: Array<[number, number]>): string[] {
+    const lngs = ring.map(([lng]) => lng);
+    const lats = ring.map(([, lat]) => lat);
+
+    return this.withinBox([Math.min(...lngs), Math.min(...lats), Math.max(...lngs), Math.max(...lats)])
+      .filter(id => {
+        const { lat, lng } = this.points.get(id)!;
+        return pointInRing(lng, lat, ring);
+      });
+  }
+
+  private cellIndex(degrees: number): number {
+    return Math.floor(degrees / this.cellSize);
+  }
+
+  private cellKey(x: number, y: number): string {
+    return `${x}:${y}`;
+  }
+}
+
+/**
+ * Ray casting test; treats the ring as closed whether or not its last position repeats the first
+ */
+function pointInRing(x: number, y: number, ring: Array<[number, number]>): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if ((yi > y) !== (yj > y) && x < (xj - xi) * (y - yi) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
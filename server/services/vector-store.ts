@@ -0,0 +1,54 @@
+import { PropertyEmbedding } from "@shared/schema";
+import { PineconeVectorStore } from "./pinecone";
+import { LocalVectorStore } from "./local-vector-store";
+
+export interface VectorSearchResult {
+  id: string;
+  score: number;
+}
+
+/**
+ * Common interface for the vector indexes used by property search
+ * Implementations return cosine similarity scores, highest first, and only
+ * compare the query with vectors made by the same embedding model
+ */
+export interface VectorStore {
+  readonly name: string;
+  isAvailable(): boolean;
+  upsert(vectors: PropertyEmbedding[]): Promise<void>;
+  search(queryEmbedding: number[], model: string, topK?: number): Promise<VectorSearchResult[]>;
+  delete(ids: string[]): Promise<void>;
+  size(): Promise<number>;
+}
+
+export type VectorStoreKind = "pinecone" | "local";
+
+/**
+ * Resolve which vector store to use from the environment
+ * VECTOR_STORE wins when set; otherwise Pinecone is used only if it has an API key
+ */
+export function resolveVectorStoreKind(): VectorStoreKind {
+  const configured = process.env.VECTOR_STORE?.toLowerCase();
+  if (configured === "pinecone" || configured === "local") {
+    return configured;
+  }
+  if (configured) {
+    console.warn(`Unknown VECTOR_STORE "${configured}", falling back to automatic selection`);
+  }
+
+  return process.env.PINECONE_API_KEY ? "pinecone" : "local";
+}
+
+/**
+ * Create a vector store for the given kind
+ */
+export function createVectorStore(kind: VectorStoreKind = resolveVectorStoreKind()): VectorStore {
+  if (kind === "pinecone") {
+    return new PineconeVectorStore();
+  }
+
+  return new LocalVectorStore({ filePath: process.env.VECTOR_STORE_PATH });
+}
+
+export const vectorStore = createVectorStore();
+console.log(`Using ${vectorStore.name} vector store`);
@@ -0,0 +1,50 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import type { InsertProperty } from '@shared/schema';
+import { MemStorage } from './storage';
+
+function listing(overrides: Partial<InsertProperty> = {}): InsertProperty {
+  return {
+    title: 'Bright flat in Chelsea',
+    description: 'A modern flat with a park view',
+    type: 'Flat',
+    style: 'Modern',
+    location: 'Chelsea',
+    bedrooms: 2,
+    bathrooms: 1,
+    price: 650_000,
+    view: 'Park View',
+    furnishing: 'Furnished',
+    ...overrides
+  };
+}
+
+describe('MemStorage', () => {
+  let storage: MemStorage;
+
+  beforeEach(() => {
+    storage = new MemStorage();
+  });
+
+  it('never reuses the id of a withdrawn listing', async () => {
+    await storage.createProperty(listing());
+    const newest = await storage.createProperty(listing());
+    await storage.deleteProperty(newest.id);
+
+    expect((await storage.createProperty(listing())).id).toBe(newest.id + 1);
+  });
+
+  it('writes none of an import when one of its rows fails', async () => {
+    const existing = await storage.createProperty(listing({ externalId: 'feed-1' }));
+    const before = await storage.getAllProperties();
+
+    await expect(storage.importProperties([
+      { id: existing.id, property: listing({ externalId: 'feed-1', price: 1 }) },
+      { property: listing({ externalId: 'feed-2' }) },
+      { id: existing.id + 100, property: listing({ externalId: 'feed-3' }) }
+    ])).rejects.toThrow(`Listing ${existing.id + 100} no longer exists`);
+
+    expect((await storage.getPropertyById(existing.id))?.price).toBe(650_000);
+    expect(await storage.getPropertyByExternalId('feed-2')).toBeUndefined();
+    expect(await storage.getAllProperties()).toHaveLength(before.length);
+  });
+});
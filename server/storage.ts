@@ -1,39 +1,132 @@
 import fs from 'fs';
 import path from 'path';
 import { parse } from 'csv-parse';
+import session from 'express-session';
+import createMemoryStore from 'memorystore';
 import { 
   Property, 
   FilterOptions, 
   PropertyEmbedding,
   User,
   InsertUser,
+  InsertProperty,
   PropertyWithCoordinates,
-  Coordinates
+  Coordinates,
+  GeoFilter,
+  SavedSearch,
+  InsertSavedSearch,
+  SearchAlert,
+  InsertSearchAlert,
+  SearchAlertWithListing,
+  Shortlist,
+  InsertShortlist,
+  ShortlistItem,
+  InsertShortlistItem,
+  ShortlistItemUpdate,
+  ShortlistWithItems
 } from '@shared/schema';
-import { getEmbedding } from './services/openai';
-import { upsertVectors } from './services/pinecone';
+import { embeddingProvider, getEmbedding } from './services/embeddings';
+import { embeddingCache } from './services/embedding-cache';
+import { OPENAI_EMBEDDING_MODEL } from './services/openai';
+import { vectorStore } from './services/vector-store';
+import { createDatabase } from './db';
+import { DbStorage } from './db-storage';
+import { PROPERTY_CSV_PATH, readPropertyCsv } from './services/property-csv';
+import { Bm25Index, type Bm25SearchResult } from './services/bm25';
+import { SpatialIndex } from './services/spatial-index';
+import { getPropertyEmbeddingText, getPropertyKeywordFields, getPropertyTextHash } from './services/property-text';
+
+const MemoryStore = createMemoryStore(session);
+
+// How often expired sessions are pruned from memory
+const SESSION_PRUNE_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+export interface SearchAlertQuery {
+  unreadOnly?: boolean;
+  limit?: number;
+}
+
+// One listing to write in a batch: updated when it has an id, created otherwise
+export interface PropertyWrite {
+  id?: number;
+  property: InsertProperty;
+}
 
 export interface IStorage {
+  sessionStore: session.Store;
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+  getSavedSearches(userId: number): Promise<SavedSearch[]>;
+  getSavedSearch(id: number): Promise<SavedSearch | undefined>;
+  getAlertingSavedSearches(): Promise<SavedSearch[]>;
+  createSavedSearch(search: InsertSavedSearch): Promise<SavedSearch>;
+  updateSavedSearch(id: number, updates: Partial<InsertSavedSearch>): Promise<SavedSearch | undefined>;
+  deleteSavedSearch(id: number): Promise<boolean>;
+  addSearchAlerts(alerts: InsertSearchAlert[]): Promise<SearchAlert[]>;
+  getSearchAlerts(userId: number, options?: SearchAlertQuery): Promise<SearchAlertWithListing[]>;
+  markSearchAlertsRead(userId: number, ids?: number[]): Promise<number>;
+  getShortlists(userId: number): Promise<ShortlistWithItems[]>;
+  getShortlist(id: number): Promise<ShortlistWithItems | undefined>;
+  getShortlistByShareToken(token: string): Promise<ShortlistWithItems | undefined>;
+  createShortlist(list: InsertShortlist): Promise<Shortlist>;
+  updateShortlist(id: number, updates: Partial<InsertShortlist>): Promise<Shortlist | undefined>;
+  deleteShortlist(id: number): Promise<boolean>;
+  saveShortlistItem(item: InsertShortlistItem): Promise<ShortlistItem>;
+  updateShortlistItem(shortlistId: number, propertyId: number, updates: ShortlistItemUpdate): Promise<ShortlistItem | undefined>;
+  deleteShortlistItem(shortlistId: number, propertyId: number): Promise<boolean>;
   loadPropertyDataFromCSV(): Promise<void>;
   getFilterOptions(): Promise<FilterOptions>;
   getPropertyById(id: number): Promise<Property | undefined>;
+  getPropertyByExternalId(externalId: string): Promise<Property | undefined>;
   getPropertiesByIds(ids: string[]): Promise<Property[]>;
   getAllProperties(): Promise<Property[]>;
+  searchPropertiesByKeywords(query: string, topK?: number): Promise<Bm25SearchResult[]>;
+  searchPropertiesByArea(area: GeoFilter): Promise<string[]>;
+  createProperty(property: InsertProperty): Promise<PropertyWithCoordinates>;
+  updateProperty(id: number, updates: Partial<InsertProperty>): Promise<PropertyWithCoordinates | undefined>;
+  deleteProperty(id: number): Promise<boolean>;
+  importProperties(writes: PropertyWrite[]): Promise<PropertyWithCoordinates[]>;
+  getPropertyEmbeddings(ids: string[]): Promise<PropertyEmbedding[]>;
+  countPropertyEmbeddings(model: string): Promise<number>;
+  savePropertyEmbeddings(embeddings: PropertyEmbedding[]): Promise<void>;
 }
 
 export class MemStorage implements IStorage {
+  sessionStore: session.Store;
   private users: Map<number, User>;
+  private savedSearches: Map<number, SavedSearch>;
+  private searchAlerts: Map<number, SearchAlert>;
+  private shortlists: Map<number, Shortlist>;
+  private shortlistItems: Map<number, ShortlistItem>;
+  private nextSavedSearchId: number;
+  private nextSearchAlertId: number;
+  private nextShortlistId: number;
+  private nextShortlistItemId: number;
+  // Only ever increases, so a withdrawn listing's id, and its URLs and images, are never reused
+  private nextPropertyId: number;
   private properties: Map<string, PropertyWithCoordinates>;
-  private propertyEmbeddings: Map<string, number[]>;
+  private propertyEmbeddings: Map<string, PropertyEmbedding>;
+  private keywordIndex: Bm25Index;
+  private spatialIndex: SpatialIndex;
   currentId: number;
 
   constructor() {
+    this.sessionStore = new MemoryStore({ checkPeriod: SESSION_PRUNE_INTERVAL_MS });
     this.users = new Map();
+    this.savedSearches = new Map();
+    this.searchAlerts = new Map();
+    this.shortlists = new Map();
+    this.shortlistItems = new Map();
+    this.nextSavedSearchId = 1;
+    this.nextSearchAlertId = 1;
+    this.nextShortlistId = 1;
+    this.nextShortlistItemId = 1;
+    this.nextPropertyId = 1;
     this.properties = new Map();
     this.propertyEmbeddings = new Map();
+    this.keywordIndex = new Bm25Index();
+    this.spatialIndex = new SpatialIndex();
     this.currentId = 1;
   }
 
@@ -54,6 +147,194 @@ export class MemStorage implements IStorage {
     return user;
   }
 
+  async getSavedSearches(userId: number): Promise<SavedSearch[]> {
+    return Array.from(this.savedSearches.values()).filter(search => search.userId === userId);
+  }
+
+  async getSavedSearch(id: number): Promise<SavedSearch | undefined> {
+    return this.savedSearches.get(id);
+  }
+
+  async getAlertingSavedSearches(): Promise<SavedSearch[]> {
+    return Array.from(this.savedSearches.values()).filter(search => search.alertsEnabled);
+  }
+
+  async createSavedSearch(search: InsertSavedSearch): Promise<SavedSearch> {
+    const now = new Date();
+    const saved: SavedSearch = {
+      ...search,
+      id: this.nextSavedSearchId++,
+      filters: search.filters ?? null,
+      alertsEnabled: search.alertsEnabled ?? true,
+      createdAt: now,
+      updatedAt: now
+    };
+    this.savedSearches.set(saved.id, saved);
+    return saved;
+  }
+
+  async updateSavedSearch(id: number, updates: Partial<InsertSavedSearch>): Promise<SavedSearch | undefined> {
+    const existing = this.savedSearches.get(id);
+    if (!existing) return undefined;
+
+    const updated: SavedSearch = { ...existing, ...updates, id, updatedAt: new Date() };
+    this.savedSearches.set(id, updated);
+    return updated;
+  }
+
+  async deleteSavedSearch(id: number): Promise<boolean> {
+    if (!this.savedSearches.delete(id)) return false;
+
+    this.searchAlerts.forEach((alert, alertId) => {
+      if (alert.savedSearchId === id) this.searchAlerts.delete(alertId);
+    });
+    return true;
+  }
+
+  async addSearchAlerts(alerts: InsertSearchAlert[]): Promise<SearchAlert[]> {
+    const existing = new Set(Array.from(this.searchAlerts.values()).map(a => `${a.savedSearchId}:${a.propertyId}`));
+    const added: SearchAlert[] = [];
+
+    for (const alert of alerts) {
+      const key = `${alert.savedSearchId}:${alert.propertyId}`;
+      if (existing.has(key)) continue;
+      existing.add(key);
+
+      const created: SearchAlert = { ...alert, id: this.nextSearchAlertId++, createdAt: new Date(), readAt: null };
+      this.searchAlerts.set(created.id, created);
+      added.push(created);
+    }
+    return added;
+  }
+
+  async getSearchAlerts(userId: number, options: SearchAlertQuery = {}): Promise<SearchAlertWithListing[]> {
+    const alerts = Array.from(this.searchAlerts.values())
+      .filter(alert => alert.userId === userId && (!options.unreadOnly || !alert.readAt))
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id)
+      .slice(0, options.limit);
+
+    return alerts.flatMap(alert => {
+      const search = this.savedSearches.get(alert.savedSearchId);
+      const property = this.properties.get(alert.propertyId.toString());
+      if (!search || !property) return [];
+
+      const { id, title, location, price, bedrooms, type } = property;
+      return [{ ...alert, savedSearchName: search.name, property: { id, title, location, price, bedrooms, type } }];
+    });
+  }
+
+  async markSearchAlertsRead(userId: number, ids?: number[]): Promise<number> {
+    const now = new Date();
+    let marked = 0;
+    this.searchAlerts.forEach(alert => {
+      if (alert.userId !== userId || alert.readAt || (ids && !ids.includes(alert.id))) return;
+      alert.readAt = now;
+      marked++;
+    });
+    return marked;
+  }
+
+  async getShortlists(userId: number): Promise<ShortlistWithItems[]> {
+    return Array.from(this.shortlists.values())
+      .filter(list => list.userId === userId)
+      .map(list => this.withItems(list));
+  }
+
+  async getShortlist(id: number): Promise<ShortlistWithItems | undefined> {
+    const list = this.shortlists.get(id);
+    return list && this.withItems(list);
+  }
+
+  async getShortlistByShareToken(token: string): Promise<ShortlistWithItems | undefined> {
+    const list = Array.from(this.shortlists.values()).find(l => l.shareToken === token);
+    return list && this.withItems(list);
+  }
+
+  async createShortlist(list: InsertShortlist): Promise<Shortlist> {
+    const now = new Date();
+    const created: Shortlist = {
+      ...list,
+      id: this.nextShortlistId++,
+      shareToken: list.shareToken ?? null,
+      createdAt: now,
+      updatedAt: now
+    };
+    this.shortlists.set(created.id, created);
+    return created;
+  }
+
+  async updateShortlist(id: number, updates: Partial<InsertShortlist>): Promise<Shortlist | undefined> {
+    const existing = this.shortlists.get(id);
+    if (!existing) return undefined;
+
+    const updated: Shortlist = { ...existing, ...updates, id, updatedAt: new Date() };
+    this.shortlists.set(id, updated);
+    return updated;
+  }
+
+  async deleteShortlist(id: number): Promise<boolean> {
+    if (!this.shortlists.delete(id)) return false;
+
+    this.shortlistItems.forEach((item, itemId) => {
+      if (item.shortlistId === id) this.shortlistItems.delete(itemId);
+    });
+    return true;
+  }
+
+  async saveShortlistItem(item: InsertShortlistItem): Promise<ShortlistItem> {
+    const existing = this.findShortlistItem(item.shortlistId, item.propertyId);
+    if (existing) {
+      return (await this.updateShortlistItem(item.shortlistId, item.propertyId, item))!;
+    }
+
+    const now = new Date();
+    const created: ShortlistItem = {
+      ...item,
+      id: this.nextShortlistItemId++,
+      note: item.note ?? null,
+      rating: item.rating ?? null,
+      createdAt: now,
+      updatedAt: now
+    };
+    this.shortlistItems.set(created.id, created);
+    return created;
+  }
+
+  async updateShortlistItem(shortlistId: number, propertyId: number, updates: ShortlistItemUpdate): Promise<ShortlistItem | undefined> {
+    const existing = this.findShortlistItem(shortlistId, propertyId);
+    if (!existing) return undefined;
+
+    const updated: ShortlistItem = {
+      ...existing,
+      ...(updates.note !== undefined ? { note: updates.note } : {}),
+      ...(updates.rating !== undefined ? { rating: updates.rating } : {}),
+      updatedAt: new Date()
+    };
+    this.shortlistItems.set(existing.id, updated);
+    return updated;
+  }
+
+  async deleteShortlistItem(shortlistId: number, propertyId: number): Promise<boolean> {
+    const existing = this.findShortlistItem(shortlistId, propertyId);
+    return !!existing && this.shortlistItems.delete(existing.id);
+  }
+
+  private findShortlistItem(shortlistId: number, propertyId: number): ShortlistItem | undefined {
+    return Array.from(this.shortlistItems.values())
+      .find(item => item.shortlistId === shortlistId && item.propertyId === propertyId);
+  }
+
+  private withItems(list: Shortlist): ShortlistWithItems {
+    const items = Array.from(this.shortlistItems.values())
+      .filter(item => item.shortlistId === list.id)
+      .sort((a, b) => a.id - b.id)
+      .flatMap(item => {
+        const property = this.properties.get(item.propertyId.toString());
+        return property ? [{ ...item, property }] : [];
+      });
+    return { ...list, items };
+  }
+
   async loadPropertyDataFromCSV(): Promise<void> {
     // If data is already loaded, return
     if (this.properties.size > 0) {
@@ -63,10 +344,10 @@ export class MemStorage implements IStorage {
     // For Replit deployment - load the CSV file using synchronous methods
     // to speed up startup time and make the API available immediately
     try {
-      console.log('Loading property data from CSV: semantic_property_listings.csv');
+      console.log(`Loading property data from CSV: ${PROPERTY_CSV_PATH}`);
       
       // Path to CSV file
-      const csvFilePath = path.resolve(process.cwd(), 'semantic_property_listings.csv');
+      const csvFilePath = path.resolve(process.cwd(), PROPERTY_CSV_PATH);
       
       // Check if file exists - if not, use mock data
       if (!fs.existsSync(csvFilePath)) {
@@ -75,78 +356,29 @@ export class MemStorage implements IStorage {
         return;
       }
       
-      // Import geocoding service
-      const { getCoordinates } = await import('./services/geocoding');
-      
-      // Read CSV file with line-by-line approach for more reliability
-      const csvData = fs.readFileSync(csvFilePath, 'utf8');
-      const lines = csvData.split('\n');
-      
-      // Skip the header row and parse manually
-      const headers = lines[0].split(',');
-      const records: Array<Record<string, string>> = [];
-      
-      // Process each line (skip header)
-      for (let i = 1; i < lines.length; i++) {
-        if (!lines[i].trim()) continue; // Skip empty lines
-        
-        // Handle CSV with quoted fields that may contain commas
-        const values: string[] = [];
-        let currentValue = '';
-        let inQuotes = false;
-        
-        for (const char of lines[i]) {
-          if (char === '"') {
-            inQuotes = !inQuotes;
-          } else if (char === ',' && !inQuotes) {
-            values.push(currentValue);
-            currentValue = '';
-          } else {
-            currentValue += char;
-          }
-        }
-        values.push(currentValue); // Add the last value
-        
-        // Create object from headers and values
-        const record: Record<string, string> = {};
-        for (let j = 0; j < headers.length; j++) {
-          const header = headers[j].replace(/"/g, '').trim();
-          record[header] = values[j] ? values[j].replace(/"/g, '').trim() : '';
-        }
-        
-        records.push(record);
-      }
-      
-      console.log(`Parsed CSV data with ${records.length} records`);
+      // Parse the listings, geocoding each location
+      const properties = readPropertyCsv(csvFilePath);
+      console.log(`Parsed CSV data with ${properties.length} records`);
       
       // Process records
-      for (const row of records) {
-        // Get coordinates for the location
-        const coordinates = getCoordinates(row.location);
-        
-        const property: PropertyWithCoordinates = {
-          id: parseInt(row.id),
-          title: row.title,
-          description: row.description,
-          location: row.location,
-          type: row.type,
-          style: row.style,
-          bedrooms: parseInt(row.bedrooms),
-          bathrooms: parseInt(row.bathrooms),
-          price: parseInt(row.price),
-          view: row.view || 'No View',
-          furnishing: row.furnishing || 'Unfurnished',
-          embedding: row.embedding || null,
-          coordinates  // Add coordinates to the property
-        };
-        
-        this.properties.set(property.id.toString(), property);
+      for (const property of properties) {
+        this.addProperty(property);
         
         // If embedding exists in CSV, parse it
         if (property.embedding) {
           try {
-            const embeddingArray = JSON.parse(property.embedding);
-            this.propertyEmbeddings.set(property.id.toString(), embeddingArray);
+            // CSV embeddings were produced by the original OpenAI pipeline
+            const embeddingArray: number[] = JSON.parse(property.embedding);
+            this.propertyEmbeddings.set(property.id.toString(), {
+              id: property.id.toString(),
+              embedding: embeddingArray,
+              model: OPENAI_EMBEDDING_MODEL,
+              dimension: embeddingArray.length,
+              textHash: getPropertyTextHash(property)
+            });
+            
+            // Pre-warm the cache so the same text is never sent to OpenAI again
+            embeddingCache.set(getPropertyEmbeddingText(property), OPENAI_EMBEDDING_MODEL, embeddingArray);
           } catch (error) {
             console.error(`Error parsing embedding for property ${property.id}: ${error}`);
           }
@@ -154,64 +386,6 @@ export class MemStorage implements IStorage {
       }
       
       console.log(`Loaded ${this.properties.size} properties from CSV`);
-      
-      // For Replit deployment - process embeddings in the background
-      // after server is already up and running
-      setTimeout(async () => {
-        try {
-          // Only generate embeddings if we have API keys
-          if (!process.env.OPENAI_API_KEY || !process.env.PINECONE_API_KEY) {
-            console.log('Missing API keys, skipping embedding generation');
-            return;
-          }
-          
-          console.log('Starting embedding generation in background...');
-          const embeddingPromises: Promise<PropertyEmbedding | null>[] = [];
-          
-          // Process properties that don't have embeddings yet
-          const propertiesArray = Array.from(this.properties.values());
-          for (const property of propertiesArray) {
-            if (!this.propertyEmbeddings.has(property.id.toString())) {
-              const textToEmbed = `${property.title}. ${property.description}. ${property.type} in ${property.location}. ${property.style} style. ${property.bedrooms} bedrooms. ${property.bathrooms} bathrooms. ${property.view} view. ${property.furnishing}.`;
-              
-              const promise = getEmbedding(textToEmbed)
-                .then(embedding => {
-                  this.propertyEmbeddings.set(property.id.toString(), embedding);
-                  const propertyEmbedding: PropertyEmbedding = {
-                    id: property.id.toString(),
-                    embedding
-                  };
-                  return propertyEmbedding;
-                })
-                .catch(error => {
-                  console.error(`Error generating embedding for property ${property.id}: ${error}`);
-                  return null;
-                });
-              
-              embeddingPromises.push(promise);
-            }
-          }
-          
-          // Wait for all embedding promises to resolve
-          const embeddings = await Promise.all(embeddingPromises);
-          const validEmbeddings = embeddings.filter((e): e is PropertyEmbedding => e !== null);
-          
-          // Upsert vectors into Pinecone
-          if (validEmbeddings.length > 0) {
-            try {
-              console.log(`Upserting ${validEmbeddings.length} vectors into Pinecone index`);
-              await upsertVectors(validEmbeddings);
-              console.log(`Successfully upserted vectors into Pinecone index`);
-            } catch (error) {
-              console.error("Error upserting vectors into Pinecone:", error);
-            }
-          } else {
-            console.log('No new embeddings to upsert into Pinecone');
-          }
-        } catch (error) {
-          console.error('Error in background embedding generation:', error);
-        }
-      }, 3000); // Start after the server is up
     } catch (error) {
       console.error('Error loading CSV data:', error);
       console.log('Falling back to mock data');
@@ -279,6 +453,7 @@ export class MemStorage implements IStorage {
         view,
         furnishing,
         embedding: null,
+        externalId: null,
         coordinates
       };
       
@@ -291,35 +466,24 @@ export class MemStorage implements IStorage {
     const embeddingPromises: Promise<PropertyEmbedding | null>[] = [];
     
     mockProperties.forEach(property => {
-      this.properties.set(property.id.toString(), property);
-      
-      const textToEmbed = `${property.title}. ${property.description}. ${property.type} in ${property.location}. ${property.style} style. ${property.bedrooms} bedrooms. ${property.bathrooms} bathrooms. ${property.view} view. ${property.furnishing}.`;
-      
-      const promise = getEmbedding(textToEmbed)
-        .then(embedding => {
-          this.propertyEmbeddings.set(property.id.toString(), embedding);
-          return { id: property.id.toString(), embedding };
-        })
-        .catch(error => {
-          console.error(`Error generating embedding for property ${property.id}: ${error}`);
-          return null;
-        });
+      this.addProperty(property);
       
-      embeddingPromises.push(promise);
+      embeddingPromises.push(this.embedProperty(property));
     });
     
     // Wait for all embedding promises to resolve
     const embeddings = await Promise.all(embeddingPromises);
     const validEmbeddings = embeddings.filter((e): e is PropertyEmbedding => e !== null);
     
-    // Upsert vectors into Pinecone
+    // Upsert vectors into the vector store
     if (validEmbeddings.length > 0) {
       try {
-        console.log(`Upserting ${validEmbeddings.length} vectors into Pinecone index`);
-        await upsertVectors(validEmbeddings);
-        console.log(`Successfully upserted vectors into Pinecone index`);
+        console.log(`Upserting ${validEmbeddings.length} vectors into ${vectorStore.name} vector store`);
+        await vectorStore.upsert(validEmbeddings);
+        await this.savePropertyEmbeddings(validEmbeddings);
+        console.log(`Successfully upserted vectors into ${vectorStore.name} vector store`);
       } catch (error) {
-        console.error("Error upserting vectors into Pinecone:", error);
+        console.error(`Error upserting vectors into ${vectorStore.name} vector store:`, error);
       }
     }
     
@@ -327,6 +491,28 @@ export class MemStorage implements IStorage {
     await this.preGeneratePropertyImages();
   }
 
+  /**
+   * Generate an embedding for a property with the active provider
+   * It is recorded once its vector is upserted, so a failed upsert leaves the
+   * property to the next reindex job
+   * Returns null instead of throwing so one failure doesn't abort a batch
+   */
+  private async embedProperty(property: Property): Promise<PropertyEmbedding | null> {
+    try {
+      const embedding = await getEmbedding(getPropertyEmbeddingText(property));
+      return {
+        id: property.id.toString(),
+        embedding,
+        model: embeddingProvider.model,
+        dimension: embedding.length,
+        textHash: getPropertyTextHash(property)
+      };
+    } catch (error) {
+      console.error(`Error generating embedding for property ${property.id}: ${error}`);
+      return null;
+    }
+  }
+
   async getFilterOptions(): Promise<FilterOptions> {
     const properties = Array.from(this.properties.values());
     
@@ -360,6 +546,10 @@ export class MemStorage implements IStorage {
     return this.properties.get(id.toString());
   }
 
+  async getPropertyByExternalId(externalId: string): Promise<Property | undefined> {
+    return Array.from(this.properties.values()).find(p => p.externalId === externalId);
+  }
+
   async getPropertiesByIds(ids: string[]): Promise<Property[]> {
     return ids
       .map(id => this.properties.get(id))
@@ -370,6 +560,172 @@ export class MemStorage implements IStorage {
     return Array.from(this.properties.values());
   }
   
+  async searchPropertiesByKeywords(query: string, topK: number = 20): Promise<Bm25SearchResult[]> {
+    return this.keywordIndex.search(query, topK);
+  }
+  
+  async searchPropertiesByArea(area: GeoFilter): Promise<string[]> {
+    return this.spatialIndex.search(area);
+  }
+  
+  async createProperty(insertProperty: InsertProperty): Promise<PropertyWithCoordinates> {
+    const property: PropertyWithCoordinates = { ...await this.prepareNewProperty(insertProperty), id: this.nextPropertyId++ };
+    
+    this.addProperty(property);
+    await this.indexPropertyEmbedding(property);
+    return property;
+  }
+  
+  async updateProperty(id: number, updates: Partial<InsertProperty>): Promise<PropertyWithCoordinates | undefined> {
+    const existing = this.properties.get(id.toString());
+    if (!existing) return undefined;
+    
+    const property = await this.prepareUpdatedProperty(existing, updates);
+    this.addProperty(property);
+    
+    // Only re-embed when the embedded text changed, e.g. not for a price change alone
+    if (getPropertyEmbeddingText(property) !== getPropertyEmbeddingText(existing)) {
+      await this.indexPropertyEmbedding(property);
+    }
+    return property;
+  }
+  
+  /**
+   * Create or update listings together
+   * Every listing is checked and geocoded before any is stored, so a failure
+   * leaves none of them written
+   */
+  async importProperties(writes: PropertyWrite[]): Promise<PropertyWithCoordinates[]> {
+    const prepared: Array<{ existing?: PropertyWithCoordinates; property: Omit<PropertyWithCoordinates, 'id'> & { id?: number } }> = [];
+    for (const write of writes) {
+      if (write.id === undefined) {
+        prepared.push({ property: await this.prepareNewProperty(write.property) });
+        continue;
+      }
+
+      const existing = this.properties.get(write.id.toString());
+      if (!existing) {
+        throw new Error(`Listing ${write.id} no longer exists`);
+      }
+      prepared.push({ existing, property: await this.prepareUpdatedProperty(existing, write.property) });
+    }
+
+    const saved = prepared.map(({ property }) => {
+      const stored: PropertyWithCoordinates = { ...property, id: property.id ?? this.nextPropertyId++ };
+      this.addProperty(stored);
+      return stored;
+    });
+
+    // Embedding failures are logged rather than thrown, so they can't undo the import
+    for (let i = 0; i < saved.length; i++) {
+      const { existing } = prepared[i];
+      if (!existing || getPropertyEmbeddingText(saved[i]) !== getPropertyEmbeddingText(existing)) {
+        await this.indexPropertyEmbedding(saved[i]);
+      }
+    }
+    return saved;
+  }
+  
+  async deleteProperty(id: number): Promise<boolean> {
+    const key = id.toString();
+    if (!this.properties.delete(key)) return false;
+    
+    this.keywordIndex.remove(key);
+    this.spatialIndex.remove(key);
+    this.propertyEmbeddings.delete(key);
+    this.searchAlerts.forEach((alert, alertId) => {
+      if (alert.propertyId === id) this.searchAlerts.delete(alertId);
+    });
+    this.shortlistItems.forEach((item, itemId) => {
+      if (item.propertyId === id) this.shortlistItems.delete(itemId);
+    });
+    
+    if (vectorStore.isAvailable()) {
+      try {
+        await vectorStore.delete([key]);
+      } catch (error) {
+        console.error(`Error deleting vector for property ${id} from ${vectorStore.name} vector store:`, error);
+      }
+    }
+    return true;
+  }
+  
+  async getPropertyEmbeddings(ids: string[]): Promise<PropertyEmbedding[]> {
+    return ids
+      .map(id => this.propertyEmbeddings.get(id))
+      .filter((e): e is PropertyEmbedding => e !== undefined);
+  }
+  
+  async savePropertyEmbeddings(embeddings: PropertyEmbedding[]): Promise<void> {
+    embeddings.forEach(embedding => this.propertyEmbeddings.set(embedding.id, embedding));
+  }
+  
+  async countPropertyEmbeddings(model: string): Promise<number> {
+    return Array.from(this.propertyEmbeddings.values()).filter(e => e.model === model).length;
+  }
+  
+  /**
+   * Embed a single property and upsert it into the vector store
+   * Failures are logged; the property stays searchable by keyword
+   */
+  private async indexPropertyEmbedding(property: Property): Promise<void> {
+    if (!vectorStore.isAvailable() || !embeddingProvider.isAvailable()) return;
+    
+    const propertyEmbedding = await this.embedProperty(property);
+    if (!propertyEmbedding) return;
+    
+    try {
+      await vectorStore.upsert([propertyEmbedding]);
+      await this.savePropertyEmbeddings([propertyEmbedding]);
+    } catch (error) {
+      console.error(`Error upserting vector for property ${property.id} into ${vectorStore.name} vector store:`, error);
+    }
+  }
+  
+  /**
+   * A new listing without its id, geocoding its location unless coordinates are given
+   */
+  private async prepareNewProperty(insertProperty: InsertProperty): Promise<Omit<PropertyWithCoordinates, 'id'>> {
+    const { geocodeLocation } = await import('./services/geocoding');
+    
+    return {
+      ...insertProperty,
+      embedding: null,
+      externalId: insertProperty.externalId ?? null,
+      coordinates: insertProperty.coordinates ?? await geocodeLocation(insertProperty.location)
+    };
+  }
+  
+  /**
+   * A listing with updates applied, not yet stored
+   */
+  private async prepareUpdatedProperty(existing: PropertyWithCoordinates, updates: Partial<InsertProperty>): Promise<PropertyWithCoordinates> {
+    const { geocodeLocation } = await import('./services/geocoding');
+    
+    const property: PropertyWithCoordinates = {
+      ...existing,
+      ...updates,
+      id: existing.id,
+      // Any CSV embedding described the old text
+      embedding: null
+    };
+    // Explicit coordinates win; otherwise they're kept until the location changes
+    if (!updates.coordinates && property.location !== existing.location) {
+      property.coordinates = await geocodeLocation(property.location);
+    }
+    return property;
+  }
+  
+  /**
+   * Store a property and index its text for keyword search and its coordinates for area search
+   */
+  private addProperty(property: PropertyWithCoordinates): void {
+    this.properties.set(property.id.toString(), property);
+    this.nextPropertyId = Math.max(this.nextPropertyId, property.id + 1);
+    this.keywordIndex.add(property.id.toString(), getPropertyKeywordFields(property));
+    this.spatialIndex.add(property.id.toString(), property.coordinates);
+  }
+  
   /**
    * Pre-generate images for all properties to avoid on-demand generation
    */
@@ -532,11 +888,12 @@ export class MemStorage implements IStorage {
         view: row.view,
         furnishing: row.furnishing,
         embedding: null,
+        externalId: null,
         coordinates  // Add coordinates to the property
       };
       
       baseProperties.push(property);
-      this.properties.set(property.id.toString(), property);
+      this.addProperty(property);
     }
     
     console.log(`Loaded ${baseProperties.length} base properties from CSV`);
@@ -598,29 +955,15 @@ export class MemStorage implements IStorage {
         view,
         furnishing,
         embedding: null,
+        externalId: null,
         coordinates
       };
       
       // Store the property
-      this.properties.set(property.id.toString(), property);
+      this.addProperty(property);
       
       // Generate embedding
-      const textToEmbed = `${property.title}. ${property.description}. ${property.type} in ${property.location}. ` +
-                        `${property.style} style. ${property.bedrooms} bedrooms. ${property.bathrooms} bathrooms. ` +
-                        `${property.view} view. ${property.furnishing}.`;
-      
-      // Create embedding promise
-      const promise = getEmbedding(textToEmbed)
-        .then(embedding => {
-          this.propertyEmbeddings.set(property.id.toString(), embedding);
-          return { id: property.id.toString(), embedding };
-        })
-        .catch(error => {
-          console.error(`Error generating embedding for property ${property.id}: ${error}`);
-          return null;
-        });
-      
-      embeddingPromises.push(promise);
+      embeddingPromises.push(this.embedProperty(property));
       
       // For throttling API calls if needed
       if (i % 10 === 0 && i > 0) {
@@ -632,14 +975,15 @@ export class MemStorage implements IStorage {
     const embeddings = await Promise.all(embeddingPromises);
     const validEmbeddings = embeddings.filter((e): e is PropertyEmbedding => e !== null);
     
-    // Upsert vectors into Pinecone
+    // Upsert vectors into the vector store
     if (validEmbeddings.length > 0) {
       try {
-        console.log(`Upserting ${validEmbeddings.length} vectors into Pinecone index`);
-        await upsertVectors(validEmbeddings);
-        console.log(`Successfully upserted vectors into Pinecone index`);
+        console.log(`Upserting ${validEmbeddings.length} vectors into ${vectorStore.name} vector store`);
+        await vectorStore.upsert(validEmbeddings);
+        await this.savePropertyEmbeddings(validEmbeddings);
+        console.log(`Successfully upserted vectors into ${vectorStore.name} vector store`);
       } catch (error) {
-        console.error("Error upserting vectors into Pinecone:", error);
+        console.error(`Error upserting vectors into ${vectorStore.name} vector store:`, error);
       }
     }
     
@@ -652,4 +996,7 @@ export class MemStorage implements IStorage {
 
 }
 
-export const storage = new MemStorage();
+// Listings live in PostgreSQL when DATABASE_URL is set, in memory otherwise
+export const storage: IStorage = process.env.DATABASE_URL
+  ? new DbStorage(createDatabase(process.env.DATABASE_URL))
+  : new MemStorage();
@@ -1,4 +1,4 @@
-import { pgTable, text, serial, integer, boolean, varchar, numeric } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, varchar, numeric, doublePrecision, real, jsonb, timestamp, unique } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -14,8 +14,18 @@ export const insertUserSchema = createInsertSchema(users).pick({
   password: true,
 });
 
+// Credentials accepted when registering or logging in; the password is hashed before it is stored
+export const credentialsSchema = z.object({
+  username: z.string().trim().min(3, "Username must be at least 3 characters").max(50)
+    .regex(/^[\w.@-]+$/, "Username may only contain letters, numbers and . _ @ -"),
+  password: z.string().min(8, "Password must be at least 8 characters").max(200)
+});
+
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
+export type Credentials = z.infer<typeof credentialsSchema>;
+// A user as the API returns them, without the password hash
+export type PublicUser = Omit<User, "password">;
 
 // Property listings table
 export const propertyListings = pgTable("property_listings", {
@@ -31,20 +41,95 @@ export const propertyListings = pgTable("property_listings", {
   view: text("view").notNull(),
   furnishing: text("furnishing").notNull(),
   embedding: text("embedding"),  // Store as JSON string since drizzle doesn't have vector type
+  latitude: doublePrecision("latitude"),   // Geocoded from location, null when unknown
+  longitude: doublePrecision("longitude"),
+  externalId: text("external_id").unique(),  // Listing id in the source feed, used to upsert imports
+});
+
+// Embeddings generated for each listing, one per property
+export const propertyEmbeddings = pgTable("property_embeddings", {
+  propertyId: integer("property_id").primaryKey().references(() => propertyListings.id, { onDelete: "cascade" }),
+  model: text("model").notNull(),
+  dimension: integer("dimension").notNull(),
+  embedding: real("embedding").array().notNull(),
+  textHash: text("text_hash"),
+});
+
+// A user's named query and filters, re-run against new and changed listings when alerts are on
+export const savedSearches = pgTable("saved_searches", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  query: text("query").notNull(),
+  filters: jsonb("filters").$type<SearchFilters>(),
+  alertsEnabled: boolean("alerts_enabled").notNull().default(true),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
+});
+
+// Inbox of listings that newly matched a saved search, at most one per search and listing
+export const searchAlerts = pgTable("search_alerts", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  savedSearchId: integer("saved_search_id").notNull().references(() => savedSearches.id, { onDelete: "cascade" }),
+  propertyId: integer("property_id").notNull().references(() => propertyListings.id, { onDelete: "cascade" }),
+  score: real("score").notNull(),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+  readAt: timestamp("read_at", { withTimezone: true }),
+}, (table) => ({
+  searchProperty: unique("search_alerts_search_property_unique").on(table.savedSearchId, table.propertyId),
+}));
+
+// A user's named list of properties; shareToken, when set, gives read-only access by link
+export const shortlists = pgTable("shortlists", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  shareToken: text("share_token").unique(),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
+});
+
+// A property on a shortlist, with the user's note and 1-5 rating
+export const shortlistItems = pgTable("shortlist_items", {
+  id: serial("id").primaryKey(),
+  shortlistId: integer("shortlist_id").notNull().references(() => shortlists.id, { onDelete: "cascade" }),
+  propertyId: integer("property_id").notNull().references(() => propertyListings.id, { onDelete: "cascade" }),
+  note: text("note"),
+  rating: integer("rating"),
+  createdAt: timestamp("created_at", { withTimezone: true }).notNull().defaultNow(),
+  updatedAt: timestamp("updated_at", { withTimezone: true }).notNull().defaultNow(),
+}, (table) => ({
+  listProperty: unique("shortlist_items_list_property_unique").on(table.shortlistId, table.propertyId),
+}));
+
+export const coordinatesSchema = z.object({
+  lat: z.number().min(-90).max(90),
+  lng: z.number().min(-180).max(180),
 });
 
 export const insertPropertySchema = createInsertSchema(propertyListings).omit({
   id: true,
-  embedding: true
+  embedding: true,
+  latitude: true,
+  longitude: true
+}).extend({
+  // Overrides geocoding of the location, e.g. with a surveyed position
+  coordinates: coordinatesSchema.optional(),
 });
 
 export type InsertProperty = z.infer<typeof insertPropertySchema>;
-export type Property = typeof propertyListings.$inferSelect;
+export type PropertyRow = typeof propertyListings.$inferSelect;
+// Coordinates are exposed as PropertyWithCoordinates.coordinates rather than columns
+export type Property = Omit<PropertyRow, "latitude" | "longitude">;
 
 // Property embedding for vector search
 export interface PropertyEmbedding {
   id: string;
   embedding: number[];
+  model: string;      // Embedding model that produced the vector
+  dimension: number;  // Length of the vector
+  textHash?: string;  // Hash of the embedded text, to tell when a listing needs re-embedding
 }
 
 // Coordinates for location-based search
@@ -58,10 +143,110 @@ export interface PropertyWithCoordinates extends Property {
   coordinates?: Coordinates;
 }
 
+// One contribution to a result's relevance score
+export interface ScoreComponent {
+  key: string;      // e.g. "type", "price_target", "proximity"
+  label: string;    // Human readable explanation
+  value: number;    // Points awarded
+  max: number;      // Points available for this component
+  matched: boolean; // Whether the constraint behind it was satisfied
+}
+
+// How a result's absolute score was built up
+export interface ScoreBreakdown {
+  retrieval: 'vector' | 'lexical' | 'hybrid'; // Which retrievers found the property
+  similarity?: number;          // Cosine similarity from vector retrieval
+  lexicalScore?: number;        // BM25 score from keyword retrieval
+  relevance: number;            // Vector and keyword results fused into 0-1
+  components: ScoreComponent[]; // Retrieval relevance followed by every boost considered
+  total: number;                // Sum of component values
+  maxPossible: number;          // Sum of component maxima
+}
+
+// The point of interest closest to a result, for one place the query asked to be near
+export interface NearestPoi {
+  category: PoiCategory;
+  label: string;       // The place as the query named it, e.g. "tube station"
+  name: string;        // e.g. "Wimbledon"
+  distanceKm: number;  // Straight-line distance, to 2 decimal places
+  minutes: number;     // Travel time at the query's mode, walking by default
+  mode: TravelMode;
+  matched: boolean;    // Within the distance the query asked for
+}
+
 // Search result with score
 export interface SearchResult extends PropertyWithCoordinates {
-  score: number;
+  score: number;     // Absolute relevance from 0-100: total / maxPossible of the breakdown
+  exactMatch?: boolean;
   distance?: number; // Distance in km from query location (if specified)
+  nearestPois?: NearestPoi[]; // Closest match for each place the query asked to be near
+  scoreBreakdown?: ScoreBreakdown;
+}
+
+// File formats accepted by the bulk listing import
+export const listingFormats = ['csv', 'tsv', 'jsonl'] as const;
+export type ListingFormat = typeof listingFormats[number];
+
+// File formats produced by the listing export
+export const exportFormats = ['csv', 'json', 'geojson'] as const;
+export type ExportFormat = typeof exportFormats[number];
+
+// Outcome of one row of a bulk import
+export interface ImportRowResult {
+  row: number;          // 1-based data row, not counting a header
+  externalId?: string;
+  status: 'created' | 'updated' | 'rejected';
+  id?: number;          // Listing id, once created or when updating
+  errors?: string[];    // Why the row was rejected
+}
+
+// Per-row report of a bulk import, produced before anything is written
+export interface ImportReport {
+  format: ListingFormat;
+  dryRun: boolean;      // When true nothing was written
+  total: number;
+  created: number;
+  updated: number;
+  rejected: number;
+  rows: ImportRowResult[];
+  error?: string;       // Set when the file could not be parsed at all, or writing it failed
+  rolledBack?: boolean; // Writing failed and none of the rows were kept
+}
+
+// Listings a reindex covers: every one, or only those without a current embedding
+export const reindexScopes = ['all', 'changed'] as const;
+export type ReindexScope = typeof reindexScopes[number];
+
+export const reindexRequestSchema = z.object({
+  scope: z.enum(reindexScopes).default('changed'),
+  batchSize: z.number().int().min(1).max(500).default(50),
+  concurrency: z.number().int().min(1).max(16).default(4),
+  maxRetries: z.number().int().min(0).max(10).default(3),
+  // Also upsert the stored embeddings of unchanged listings, e.g. to refill an emptied vector store
+  restoreVectors: z.boolean().default(false),
+});
+
+export type ReindexRequest = z.infer<typeof reindexRequestSchema>;
+
+export type ReindexJobStatus = 'running' | 'completed' | 'failed' | 'interrupted';
+
+// Progress of a reindex job, checkpointed after every batch
+export interface ReindexJob {
+  id: string;
+  status: ReindexJobStatus;
+  options: ReindexRequest;
+  model: string;        // Embedding model the job indexes with
+  createdAt: string;
+  updatedAt: string;
+  finishedAt?: string;
+  total: number;        // Listings the job walks through
+  processed: number;    // Listings handled so far, including skipped and failed ones
+  embedded: number;     // Listings embedded with the provider
+  restored: number;     // Unchanged listings upserted from their stored embedding
+  skipped: number;      // Unchanged listings left alone, or deleted since the job started
+  failed: number;
+  errors: Array<{ propertyId: number; message: string }>; // The first failures, with reasons
+  error?: string;       // Set when the job as a whole failed
 }
 
 // Filter options
@@ -75,3 +260,253 @@ export interface FilterOptions {
   views: string[];
   furnishings: string[];
 }
+
+// Known values for the enumerated property attributes
+export const propertyTypes = [
+  'House', 'Detached House', 'Semi-detached House', 'Terraced House', 'Flat', 'Studio',
+  'Cottage', 'Bungalow', 'Penthouse', 'Townhouse', 'Duplex', 'Mansion'
+] as const;
+export const propertyStyles = [
+  'Modern', 'Victorian', 'Contemporary', 'Traditional', 'Art Deco', 'Georgian', 'Luxury',
+  'Minimalist', 'Industrial', 'Scandinavian', 'Rustic', 'Mediterranean', 'Colonial'
+] as const;
+export const propertyViews = [
+  'Park View', 'Garden View', 'River View', 'City View', 'Mountain View', 'No View',
+  'Sea View', 'Lake View', 'Forest View'
+] as const;
+export const propertyFurnishings = ['Furnished', 'Unfurnished', 'Part-Furnished'] as const;
+
+export type PropertyType = typeof propertyTypes[number];
+export type PropertyStyle = typeof propertyStyles[number];
+export type PropertyView = typeof propertyViews[number];
+export type PropertyFurnishing = typeof propertyFurnishings[number];
+
+// Inclusive numeric range, with an optional ideal value for "around" phrases
+export interface NumericRange {
+  min?: number;
+  max?: number;
+  target?: number;
+}
+
+// Kinds of point of interest a query can ask to be near
+export const poiCategories = ['station', 'school', 'park'] as const;
+export type PoiCategory = typeof poiCategories[number];
+
+// How a travel time in a query ("10 minutes' walk") is turned into a distance
+export const travelModes = ['walk', 'cycle', 'drive'] as const;
+export type TravelMode = typeof travelModes[number];
+
+// Wanting to be near a kind of place: "near a tube station", "10 minutes from a school"
+export interface PoiConstraint {
+  category: PoiCategory;
+  label: string;          // The place as the query named it, e.g. "tube station"
+  tags?: string[];        // Narrower kinds, any of which will do, e.g. ["tube"]
+  maxDistanceKm: number;  // Within this counts as near
+  minutes?: number;       // Travel time the distance came from
+  mode?: TravelMode;
+}
+
+// Structured constraints extracted from a natural language query
+export interface ParsedQuery {
+  query: string;
+  bedrooms?: NumericRange;
+  bathrooms?: NumericRange;
+  price?: NumericRange;
+  types: PropertyType[];
+  styles: PropertyStyle[];
+  views: PropertyView[];
+  furnishings: PropertyFurnishing[];
+  location?: {
+    name: string;
+    coordinates: Coordinates;
+  };
+  pois: PoiConstraint[];
+  // Attribute values the user asked to exclude ("not furnished", "no flats")
+  excluded: {
+    types: PropertyType[];
+    styles: PropertyStyle[];
+    views: PropertyView[];
+    furnishings: PropertyFurnishing[];
+  };
+}
+
+// Explicit filters sent with a search request, mirroring the client's FilterState
+// Empty lists and missing ranges leave that attribute unconstrained
+const rangeFilterSchema = z.array(z.number()).length(2);
+
+export const searchFiltersSchema = z.object({
+  type: z.array(z.string()).optional(),
+  style: z.array(z.string()).optional(),
+  location: z.array(z.string()).optional(),
+  bedrooms: rangeFilterSchema.optional(),
+  bathrooms: rangeFilterSchema.optional(),
+  price: rangeFilterSchema.optional(),
+  view: z.array(z.string()).optional(),
+  furnishing: z.array(z.string()).optional(),
+});
+
+export type SearchFilters = z.infer<typeof searchFiltersSchema>;
+
+const latitudeSchema = z.number().min(-90).max(90);
+const longitudeSchema = z.number().min(-180).max(180);
+
+// Hard geographic constraints on a search; listings without coordinates never match them
+export const geoFilterSchema = z.object({
+  // Within radiusKm of a centre, which every result then reports its distance from
+  near: z.object({
+    lat: latitudeSchema,
+    lng: longitudeSchema,
+    radiusKm: z.number().positive().max(1000),
+  }).optional(),
+  // [west, south, east, north], as in GeoJSON
+  bbox: z.tuple([longitudeSchema, latitudeSchema, longitudeSchema, latitudeSchema])
+    .refine(([west, south, east, north]) => west <= east && south <= north, {
+      message: "Expected [west, south, east, north] with west <= east and south <= north"
+    })
+    .optional(),
+  // Ring of [lng, lat] positions, as in GeoJSON; closing it is optional
+  polygon: z.array(z.tuple([longitudeSchema, latitudeSchema])).min(3).max(1000).optional(),
+});
+
+export type GeoFilter = z.infer<typeof geoFilterSchema>;
+
+// Fields a user sets on a saved search; filters are the search request's filters
+export const savedSearchInputSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  query: z.string().trim().min(1).max(500),
+  filters: searchFiltersSchema.optional(),
+  alertsEnabled: z.boolean().optional(),
+});
+
+export type SavedSearchInput = z.infer<typeof savedSearchInputSchema>;
+export type SavedSearch = typeof savedSearches.$inferSelect;
+export type InsertSavedSearch = Omit<typeof savedSearches.$inferInsert, "id" | "createdAt" | "updatedAt">;
+export type SearchAlert = typeof searchAlerts.$inferSelect;
+export type InsertSearchAlert = Omit<typeof searchAlerts.$inferInsert, "id" | "createdAt" | "readAt">;
+
+// An inbox entry with what the inbox shows of its search and listing
+export interface SearchAlertWithListing extends SearchAlert {
+  savedSearchName: string;
+  property: Pick<Property, "id" | "title" | "location" | "price" | "bedrooms" | "type">;
+}
+
+export const shortlistInputSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+});
+
+// A note and rating on a shortlisted property; null clears either
+export const shortlistItemUpdateSchema = z.object({
+  note: z.string().trim().max(2000).nullable().optional(),
+  rating: z.number().int().min(1).max(5).nullable().optional(),
+});
+
+export const shortlistItemInputSchema = shortlistItemUpdateSchema.extend({
+  propertyId: z.number().int().positive(),
+});
+
+export type ShortlistItemUpdate = z.infer<typeof shortlistItemUpdateSchema>;
+export type Shortlist = typeof shortlists.$inferSelect;
+export type InsertShortlist = Omit<typeof shortlists.$inferInsert, "id" | "createdAt" | "updatedAt">;
+export type ShortlistItem = typeof shortlistItems.$inferSelect;
+export type InsertShortlistItem = Omit<typeof shortlistItems.$inferInsert, "id" | "createdAt" | "updatedAt">;
+
+// A shortlist with its properties, in the order they were added
+export interface ShortlistWithItems extends Shortlist {
+  items: Array<ShortlistItem & { property: PropertyWithCoordinates }>;
+}
+
+// What a share link shows: the list without its owner's id or the token itself
+export interface SharedShortlist {
+  name: string;
+  owner: string;
+  items: ShortlistWithItems["items"];
+}
+
+// Listings shown side by side on the compare page
+export const MAX_COMPARED_PROPERTIES = 4;
+
+export interface ComparedProperty extends PropertyWithCoordinates {
+  pricePerBedroom: number | null; // null for a listing with no bedrooms
+  distance?: number;              // km from the searched location, when one was given
+}
+
+export interface PropertyComparison {
+  properties: ComparedProperty[]; // In the order requested
+  // similarity[i][j] is the cosine similarity of listings i and j; null when they couldn't be embedded
+  similarity: number[][] | null;
+}
+
+// A listing found like another from its embedding, for "more like this"
+export interface SimilarListing extends PropertyWithCoordinates {
+  similarity: number; // Cosine similarity to the listing it was found for
+}
+
+// Result orderings supported by the search API; relevance breaks ties in every mode
+export const sortModes = ['relevance', 'price_asc', 'price_desc', 'bedrooms', 'distance', 'newest'] as const;
+export type SortMode = typeof sortModes[number];
+
+// How a search was answered: vector and keyword retrieval, or keywords alone
+// while embeddings or the vector index are unavailable
+export const searchModes = ['semantic', 'fallback'] as const;
+export type SearchMode = typeof searchModes[number];
+
+// Paged search response envelope
+export interface SearchResponse {
+  results: SearchResult[];
+  mode: SearchMode;
+  total: number;              // Number of results across all pages
+  page: number;               // 1-based page number of these results
+  limit: number;              // Page size used for this response
+  nextCursor: string | null;  // Pass back as `cursor` to fetch the next page
+  constraints: {
+    parsed: ParsedQuery;      // Constraints extracted from the query text
+    filters?: SearchFilters;  // Explicit filters sent with the request
+    geo?: GeoFilter;          // Geographic constraints sent with the request
+    sort: SortMode;           // Ordering applied to the results
+    profile: string;          // Ranking profile the scores were computed with
+  };
+}
+
+// Whether an external service is configured and answering
+export interface ServiceStatus {
+  name: string;
+  configured: boolean;
+  reachable: boolean;
+  error?: string;       // Why the last check failed
+}
+
+// Search readiness, reported by GET /api/status
+export interface SearchStatus {
+  ready: boolean;                 // Listings are loaded and searches run in semantic mode
+  mode: SearchMode;               // How a search would be answered right now
+  listings: number;
+  embedded: number;               // Listings with a stored embedding from the active model
+  vectorIndexSize: number | null; // Null when the vector store can't be reached
+  embeddingModel: string;
+  embeddingDimension: number;
+  lastReindexAt: string | null;   // When the last reindex job completed
+  reindex: ReindexJob | null;     // The job running now, if any
+  services: {
+    embeddings: ServiceStatus;
+    vectorStore: ServiceStatus;
+  };
+}
+
+// Place labels drawn on the results map, from the bundled gazetteer
+export interface MapPlace {
+  name: string;
+  kind: string;   // city, area, borough or neighbourhood
+  lat: number;
+  lng: number;
+}
+
+// Basemap for the results map, reported by GET /api/map/basemap
+export interface MapBasemap {
+  places: MapPlace[];
+  // XYZ raster tiles drawn under the labels; null when none are configured
+  tiles: {
+    url: string;          // Template with {z}, {x} and {y}
+    attribution: string;
+    maxZoom: number;
+  } | null;
+}